@@ -1,37 +1,48 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useMatch } from 'react-router-dom';
 import { Student } from './types/Student';
 import { Class } from './types/Class';
-import { studentService } from './services/StudentService';
 import ClassService from './services/ClassService';
 import StudentList from './components/StudentList';
 import StudentForm from './components/StudentForm';
+import StudentImport from './components/StudentImport';
 import Evaluations from './components/Evaluations';
 import Classes from './components/Classes';
+import Login from './components/Login';
+import MyGrades from './components/MyGrades';
+import StudentDetail from './components/StudentDetail';
+import AuthService from './services/AuthService';
+import { onSessionEnded } from './services/apiFetch';
+import { User, ROLE_LABELS } from './types/User';
 import './App.css';
 
 type TabType = 'students' | 'evaluations' | 'classes';
 
 const App: React.FC = () => {
-  const [students, setStudents] = useState<Student[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+  const [studentsVersion, setStudentsVersion] = useState<number>(0);
   const [error, setError] = useState<string>('');
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('students');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState<boolean>(false);
+  // /students/:cpf shows the academic history of one student, behind the same login as the tabs
+  const studentDetailMatch = useMatch('/students/:cpf');
 
-  const loadStudents = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError('');
-      const studentsData = await studentService.getAllStudents();
-      setStudents(studentsData);
-    } catch (err) {
-      setError('Failed to load students. Please try again.');
-      console.error('Error loading students:', err);
-    } finally {
-      setLoading(false);
-    }
+  // Restore the stored session, and go back to the login screen when it ends
+  useEffect(() => {
+    AuthService.getCurrentUser()
+      .then(user => setCurrentUser(user))
+      .catch(() => setCurrentUser(null))
+      .finally(() => setAuthChecked(true));
+
+    return onSessionEnded(() => setCurrentUser(null));
+  }, []);
+
+  // The student list loads its own page of students; bumping the version makes it reload
+  const loadStudents = useCallback(() => {
+    setStudentsVersion(version => version + 1);
   }, []);
 
   const loadClasses = useCallback(async () => {
@@ -50,22 +61,20 @@ const App: React.FC = () => {
   const updateSelectedClass = useCallback((classesData: Class[]) => {
     // Update selectedClass if it exists to reflect new enrollments
     if (selectedClass) {
-      const updatedSelectedClass = classesData.find(c => 
-        c.topic === selectedClass.topic && 
-        c.year === selectedClass.year && 
-        c.semester === selectedClass.semester
-      );
+      const updatedSelectedClass = classesData.find(c => c.id === selectedClass.id);
       if (updatedSelectedClass) {
         setSelectedClass(updatedSelectedClass);
       }
     }
   }, [selectedClass]);
 
-  // Load students and classes on component mount
+  // Load students and classes once a professor or teaching assistant is logged in
   useEffect(() => {
-    loadStudents();
-    loadClasses();
-  }, [loadStudents, loadClasses]);
+    if (currentUser && currentUser.role !== 'student') {
+      loadStudents();
+      loadClasses();
+    }
+  }, [currentUser, loadStudents, loadClasses]);
 
   const handleStudentAdded = async () => {
     loadStudents(); // Reload the list when a new student is added
@@ -105,16 +114,74 @@ const App: React.FC = () => {
     setEditingStudent(null);
   };
 
-  const handleError = (errorMessage: string) => {
+  const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage);
+  }, []);
+
+  const handleLogout = async () => {
+    await AuthService.logout();
+    setCurrentUser(null);
+    setError('');
   };
 
+  const header = (
+    <header className="App-header">
+      <h1>Teaching Assistant React</h1>
+      <p>Managing ESS student information</p>
+      {currentUser && (
+        <div className="user-info" data-testid="user-info">
+          <span>{currentUser.name} ({ROLE_LABELS[currentUser.role]})</span>
+          <button type="button" className="logout-button" onClick={handleLogout} data-testid="logout-button">
+            Log out
+          </button>
+        </div>
+      )}
+    </header>
+  );
+
+  if (!authChecked) {
+    return <div className="App">{header}</div>;
+  }
+
+  if (!currentUser) {
+    return (
+      <div className="App">
+        {header}
+        <main className="App-main">
+          <Login onLogin={setCurrentUser} />
+        </main>
+      </div>
+    );
+  }
+
+  if (currentUser.role === 'student') {
+    return (
+      <div className="App">
+        {header}
+        <main className="App-main">
+          {error && (
+            <div className="error-message">
+              <strong>Error:</strong> {error}
+            </div>
+          )}
+          <MyGrades studentCPF={currentUser.studentCPF ?? ''} onError={handleError} />
+        </main>
+      </div>
+    );
+  }
+
+  if (studentDetailMatch) {
+    return (
+      <div className="App">
+        {header}
+        <StudentDetail />
+      </div>
+    );
+  }
+
   return (
     <div className="App">
-      <header className="App-header">
-        <h1>Teaching Assistant React</h1>
-        <p>Managing ESS student information</p>
-      </header>
+      {header}
 
       <main className="App-main">
         {error && (
@@ -157,11 +224,11 @@ const App: React.FC = () => {
                 <label htmlFor="class-select">Filter by Class:</label>
                 <select
                   id="class-select"
-                  value={selectedClass ? `${selectedClass.topic}-${selectedClass.year}-${selectedClass.semester}` : ''}
+                  value={selectedClass ? selectedClass.id : ''}
                   onChange={(e) => {
                     const classId = e.target.value;
                     if (classId) {
-                      const classObj = classes.find(c => `${c.topic}-${c.year}-${c.semester}` === classId);
+                      const classObj = classes.find(c => c.id === classId);
                       setSelectedClass(classObj || null);
                     } else {
                       setSelectedClass(null);
@@ -171,10 +238,7 @@ const App: React.FC = () => {
                 >
                   <option value="">All Students</option>
                   {classes.map((classObj) => (
-                    <option 
-                      key={`${classObj.topic}-${classObj.year}-${classObj.semester}`}
-                      value={`${classObj.topic}-${classObj.year}-${classObj.semester}`}
-                    >
+                    <option key={classObj.id} value={classObj.id}>
                       {classObj.topic} ({classObj.year}/{classObj.semester})
                     </option>
                   ))}
@@ -190,12 +254,18 @@ const App: React.FC = () => {
                 selectedClass={selectedClass}
               />
 
+              <StudentImport
+                classes={classes}
+                onStudentsImported={handleStudentAdded}
+                onError={handleError}
+              />
+
               <StudentList
-                students={selectedClass ? selectedClass.enrollments.map(e => e.student) : students}
+                classId={selectedClass?.id}
+                refreshKey={studentsVersion}
                 onStudentDeleted={handleStudentDeleted}
                 onEditStudent={handleEditClick}
                 onError={handleError}
-                loading={loading}
               />
             </>
           )}
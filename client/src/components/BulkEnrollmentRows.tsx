@@ -0,0 +1,73 @@
+import React from 'react';
+import { BulkEnrollmentOutcome, BulkEnrollmentRowResult } from '../types/Enrollment';
+import { downloadCSV, toCSV } from '../utils';
+
+interface BulkEnrollmentRowsProps {
+  rows: BulkEnrollmentRowResult[];
+  // In a dry run the outcomes describe what would happen
+  dryRun?: boolean;
+}
+
+const OUTCOME_LABELS: Record<BulkEnrollmentOutcome, string> = {
+  enrolled: 'Matriculado',
+  already_enrolled: 'Já matriculado',
+  unknown_student: 'Aluno não cadastrado',
+  malformed_cpf: 'CPF inválido',
+  blank: 'Linha sem CPF'
+};
+
+const DRY_RUN_OUTCOME_LABELS: Partial<Record<BulkEnrollmentOutcome, string>> = {
+  enrolled: 'Será matriculado'
+};
+
+const REJECTED_OUTCOMES: BulkEnrollmentOutcome[] = ['unknown_student', 'malformed_cpf'];
+
+// Outcome of every row of a bulk enrollment spreadsheet, with the rejected rows downloadable as CSV
+const BulkEnrollmentRows: React.FC<BulkEnrollmentRowsProps> = ({ rows, dryRun = false }) => {
+  const rejectedRows = rows.filter(row => REJECTED_OUTCOMES.includes(row.outcome));
+
+  const outcomeLabel = (outcome: BulkEnrollmentOutcome) =>
+    (dryRun && DRY_RUN_OUTCOME_LABELS[outcome]) || OUTCOME_LABELS[outcome];
+
+  const handleDownload = () => {
+    const csv = toCSV([
+      ['linha', 'valor', 'cpf', 'motivo'],
+      ...rejectedRows.map(row => [row.line, row.raw, row.cpf, OUTCOME_LABELS[row.outcome]])
+    ]);
+    downloadCSV('linhas-rejeitadas.csv', csv);
+  };
+
+  return (
+    <div className="bulk-enrollment-rows" data-testid="bulk-enrollment-rows">
+      <div className="bulk-enrollment-rows-table">
+        <table className="grade-import-table">
+          <thead>
+            <tr>
+              <th>Linha</th>
+              <th>Valor</th>
+              <th>CPF</th>
+              <th>Resultado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.line} className={`bulk-enrollment-${row.outcome}`}>
+                <td>{row.line}</td>
+                <td>{row.raw}</td>
+                <td>{row.cpf}</td>
+                <td>{outcomeLabel(row.outcome)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rejectedRows.length > 0 && (
+        <button type="button" className="download-rejected-btn" onClick={handleDownload}>
+          Baixar linhas rejeitadas (CSV)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BulkEnrollmentRows;
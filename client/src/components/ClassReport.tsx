@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Class } from '../types/Class';
-import { ReportData } from '../types/Report';
+import { ReportData, ReportExportFormat, ReportFilter, ReportQuery, ReportSortKey, reportFilterToQuery } from '../types/Report';
+import { DEFAULT_APPROVAL_CRITERIA } from '../types/ApprovalCriteria';
 import ClassService from '../services/ClassService';
-import { StatusPieChart, EvaluationBarChart } from './charts';
+import { StatusPieChart, GradeDistributionChart, EvaluationBarChart } from './charts';
+import { downloadBlob } from '../utils';
 
 interface ClassReportProps {
   classObj: Class;
@@ -10,64 +12,109 @@ interface ClassReportProps {
   onError: (errorMessage: string) => void;
 }
 
-type FilterOption = 'ALL' | 'APPROVED' | 'BELOW_AVG' | 'BELOW_X';
+// Students shown per page of the results table
+const STUDENTS_PAGE_SIZE = 25;
+
+// Wait before searching while the user is typing
+const SEARCH_DELAY_MS = 300;
 
 // ClassReport component - displays a modal with class report statistics.
 const ClassReport: React.FC<ClassReportProps> = ({ classObj, onClose, onError }) => {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<ReportExportFormat | null>(null);
+
+  const approvalCriteria = classObj.approvalCriteria ?? DEFAULT_APPROVAL_CRITERIA;
+
+  // Filter state; the students are filtered, sorted and paginated by the server
+  const [filterType, setFilterType] = useState<ReportFilter['type']>('ALL');
+  const [customThreshold, setCustomThreshold] = useState<number>(approvalCriteria.directApprovalThreshold);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<ReportSortKey | undefined>(undefined);
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+  const [page, setPage] = useState(1);
 
-  // Filter state
-  const [filterType, setFilterType] = useState<FilterOption>('ALL');
-  const [customThreshold, setCustomThreshold] = useState<number>(7.0);
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
+  // Any change of the query starts again from the first page
   useEffect(() => {
+    setPage(1);
+  }, [filterType, customThreshold, search, sort, order]);
+
+  // Filter and sort of the students, shared by the table and the exported files
+  const studentQuery = useMemo<ReportQuery>(() => ({
+    ...reportFilterToQuery({ type: filterType, threshold: customThreshold }),
+    search: search || undefined,
+    sort,
+    order: sort ? order : undefined
+  }), [filterType, customThreshold, search, sort, order]);
+
+  useEffect(() => {
+    let cancelled = false;
+
     const loadReport = async () => {
-      setIsLoading(true);
       try {
-        const report = await ClassService.getClassReport(classObj.id);
-        setReportData(report);
+        const report = await ClassService.getClassReport(classObj.id, { ...studentQuery, page, pageSize: STUDENTS_PAGE_SIZE });
+        if (!cancelled) {
+          setReportData(report);
+        }
       } catch (error) {
-        onError((error as Error).message);
-        onClose();
+        if (!cancelled) {
+          onError((error as Error).message);
+          onClose();
+        }
       } finally {
-        setIsLoading(false);
+        if (!cancelled) {
+          setIsLoading(false);
+        }
       }
     };
 
     loadReport();
-  }, [classObj.id, onError, onClose]);
-
-  const filteredStudents = useMemo(() => {
-    if (!reportData || !reportData.students) return [];
-
-    return reportData.students.filter(student => {
-      const grade = student.finalGrade ?? 0;
-      const isPending = student.status === 'PENDING';
-
-      switch (filterType) {
-        case 'ALL':
-          return true;
-        
-        case 'APPROVED':
-          return student.status === 'APPROVED' || student.status === 'APPROVED_FINAL';
-        
-        case 'BELOW_AVG':
-          return reportData.studentsAverage !== null && grade < reportData.studentsAverage && !isPending;
-        
-        case 'BELOW_X':
-          if (isPending) return false;
-          return grade < customThreshold;
-          
-        default:
-          return true;
+    return () => {
+      cancelled = true;
+    };
+  }, [classObj.id, studentQuery, page, onError, onClose]);
+
+  // Clicking the sorted column again reverses the order
+  const handleSort = (key: ReportSortKey) => {
+    if (sort === key) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(key);
+      setOrder('asc');
+    }
+  };
+
+  const sortIndicator = (key: ReportSortKey) => (sort === key ? (order === 'asc' ? ' ▲' : ' ▼') : '');
+
+  // CSV and Excel files are downloaded; the HTML version opens in a new tab, ready to print
+  const handleExport = async (format: ReportExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const file = await ClassService.exportClassReport(classObj.id, format, studentQuery);
+      if (format === 'html') {
+        window.open(URL.createObjectURL(file), '_blank');
+      } else {
+        downloadBlob(`report-${classObj.topic}-${classObj.year}-${classObj.semester}.${format}`, file);
       }
-    });
-  }, [reportData, filterType, customThreshold]);
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const students = reportData?.students ?? [];
+  const totalPages = reportData?.totalPages ?? 1;
 
   const getGradeClass = (grade: number | null) => {
     if (grade === null) return '';
-    if (grade >= 7.0) return 'grade-high';
+    if (grade >= approvalCriteria.directApprovalThreshold) return 'grade-high';
     if (grade >= 4.0) return 'grade-medium';
     return 'grade-low';
   };
@@ -160,6 +207,7 @@ return (
                       pendingCount: reportData.pendingCount
                     }}
                   />
+                  <GradeDistributionChart data={reportData.gradeStatistics} />
                   <EvaluationBarChart 
                     data={reportData.evaluationPerformance}
                   />
@@ -207,22 +255,37 @@ return (
                   <h4>Detailed Student Results</h4>
                   
                   <div className="filter-group">
+                    <div className="filter-control">
+                      <input
+                        type="search"
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Search name or CPF"
+                        className="filter-search"
+                        data-testid="report-search"
+                      />
+                    </div>
+
                     <div className="filter-control">
                       <label htmlFor="filterType">Filter:</label>
                       <select
                         id="filterType"
                         value={filterType}
-                        onChange={(e) => setFilterType(e.target.value as FilterOption)}
+                        onChange={(e) => setFilterType(e.target.value as ReportFilter['type'])}
                         className="filter-select"
                       >
                         <option value="ALL">All Students</option>
                         <option value="APPROVED">Approved</option>
-                        <option value="BELOW_AVG">Below Class Average</option>
-                        <option value="BELOW_X">Below specific grade...</option>
+                        <option value="APPROVED_FINAL">Approved (Final)</option>
+                        <option value="FAILED">Failed</option>
+                        <option value="FAILED_BY_ABSENCE">Failed (Absence)</option>
+                        <option value="PENDING">Pending</option>
+                        <option value="BELOW_AVERAGE">Below Class Average</option>
+                        <option value="BELOW_THRESHOLD">Below specific grade...</option>
                       </select>
                     </div>
 
-                    {filterType === 'BELOW_X' && (
+                    {filterType === 'BELOW_THRESHOLD' && (
                       <div className="filter-control fade-in">
                         <input
                           type="number"
@@ -236,7 +299,7 @@ return (
                       </div>
                     )}
 
-                    {filterType === 'BELOW_AVG' && reportData.studentsAverage !== null && (
+                    {filterType === 'BELOW_AVERAGE' && reportData.studentsAverage !== null && (
                       <span className="avg-indicator">
                         Avg: {reportData.studentsAverage.toFixed(2)}
                       </span>
@@ -248,15 +311,15 @@ return (
                   <table className="students-table" data-testid="students-table">
                     <thead>
                       <tr>
-                        <th>Student</th>
-                        <th>CPF</th> 
-                        <th>Final Grade</th>
-                        <th>Status</th>
+                        <th className="sortable-header" onClick={() => handleSort('name')}>Student{sortIndicator('name')}</th>
+                        <th className="sortable-header" onClick={() => handleSort('studentId')}>CPF{sortIndicator('studentId')}</th> 
+                        <th className="sortable-header" onClick={() => handleSort('finalGrade')}>Final Grade{sortIndicator('finalGrade')}</th>
+                        <th className="sortable-header" onClick={() => handleSort('status')}>Status{sortIndicator('status')}</th>
                       </tr>
                     </thead>
                     <tbody data-testid="students-table-body">
-                      {filteredStudents.length > 0 ? (
-                        filteredStudents.map((student) => (
+                      {students.length > 0 ? (
+                        students.map((student) => (
                           <tr key={student.studentId} data-testid={`student-row-${student.studentId}`}>
                             <td data-testid="student-name"><strong>{student.name}</strong></td>
                             
@@ -275,7 +338,7 @@ return (
                       ) : (
                         <tr className="empty-state-row" data-testid="empty-state-row">
                           <td colSpan={4} data-testid="no-students-message">
-                            {filterType === 'ALL' 
+                            {filterType === 'ALL' && !search
                               ? 'No students enrolled in this class.' 
                               : 'No students found matching this filter.'}
                           </td>
@@ -285,8 +348,31 @@ return (
                   </table>
                 </div>
                 
-                <div style={{ marginTop: '10px', fontSize: '0.8rem', color: '#888', textAlign: 'right' }}>
-                  Showing {filteredStudents.length} of {reportData.totalEnrolled} students
+                <div className="students-pagination">
+                  {totalPages > 1 && (
+                    <>
+                      <button
+                        className="pagination-btn"
+                        onClick={() => setPage(page - 1)}
+                        disabled={page <= 1}
+                        data-testid="previous-page-btn"
+                      >
+                        Previous
+                      </button>
+                      <span>Page {page} of {totalPages}</span>
+                      <button
+                        className="pagination-btn"
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= totalPages}
+                        data-testid="next-page-btn"
+                      >
+                        Next
+                      </button>
+                    </>
+                  )}
+                  <span className="pagination-summary">
+                    Showing {students.length} of {reportData.filteredCount ?? students.length} matching students ({reportData.totalEnrolled} enrolled)
+                  </span>
                 </div>
               </div>
 
@@ -305,6 +391,32 @@ return (
         </div>
 
         <div className="report-actions" data-testid="report-actions">
+          <div className="report-export-buttons">
+            <button
+              className="report-export-btn"
+              data-testid="export-report-csv"
+              onClick={() => handleExport('csv')}
+              disabled={!reportData || exportingFormat !== null}
+            >
+              {exportingFormat === 'csv' ? 'Exporting...' : 'Export CSV'}
+            </button>
+            <button
+              className="report-export-btn"
+              data-testid="export-report-xlsx"
+              onClick={() => handleExport('xlsx')}
+              disabled={!reportData || exportingFormat !== null}
+            >
+              {exportingFormat === 'xlsx' ? 'Exporting...' : 'Export Excel'}
+            </button>
+            <button
+              className="report-export-btn"
+              data-testid="export-report-html"
+              onClick={() => handleExport('html')}
+              disabled={!reportData || exportingFormat !== null}
+            >
+              {exportingFormat === 'html' ? 'Opening...' : 'Printable Version'}
+            </button>
+          </div>
           <button 
             className="cancel-btn"
             data-testid="close-report-btn"
@@ -142,8 +142,8 @@ const Classes: React.FC<ClassesProps> = ({
     }
   };
 
-  // Handle bulk import
-  const handleImport = async () => {
+  // Handle bulk import; a dry run only previews the outcome of each row
+  const handleImport = async (dryRun: boolean = false) => {
     if (!selectedFile || !enrollmentPanelClass) {
       return;
     }
@@ -151,16 +151,33 @@ const Classes: React.FC<ClassesProps> = ({
     const classId = enrollmentPanelClass.id;
 
     try {
-      const result = await EnrollmentService.enrollStudentsBulk(classId, selectedFile);
-      
-      // Refresh class data to show newly enrolled students
-      onClassUpdated();
-      
+      const result = await EnrollmentService.enrollStudentsBulk(classId, selectedFile, dryRun);
+      const { enrolled, alreadyEnrolled, unknownStudent, malformedCPF } = result.summary;
+
+      if (!dryRun && enrolled === 0 && alreadyEnrolled === 0) {
+        navigate('/import-error', {
+          state: {
+            message: 'Nenhum aluno da planilha pôde ser matriculado. Veja o motivo de cada linha abaixo.',
+            rows: result.results
+          }
+        });
+        return;
+      }
+
+      if (!dryRun) {
+        // Refresh class data to show newly enrolled students
+        onClassUpdated();
+      }
+
       // Navigate to success page
       navigate('/import-success', { 
         state: { 
           imported: result.importedCount, 
-          rejected: result.rejectedCount 
+          rejected: result.rejectedCount,
+          importedLabel: dryRun ? 'Students to Enroll' : undefined,
+          message: `${dryRun ? 'Pré-visualização: ' : ''}${enrolled} ${dryRun ? 'alunos serão matriculados' : 'alunos matriculados'}, ${alreadyEnrolled} já matriculados, ${unknownStudent} não cadastrados e ${malformedCPF} com CPF inválido`,
+          rows: result.results,
+          dryRun
         } 
       });
     } catch (error) {
@@ -171,10 +188,12 @@ const Classes: React.FC<ClassesProps> = ({
         } 
       });
     } finally {
-      // Clean up
-      setSelectedFile(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      // Clean up (a preview keeps the file so it can be imported next)
+      if (!dryRun) {
+        setSelectedFile(null);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
       }
     }
   };
@@ -510,7 +529,7 @@ const Classes: React.FC<ClassesProps> = ({
               </thead>
               <tbody>
                 {classes.map((classObj) => (
-                  <tr key={getClassId(classObj)}>
+                  <tr key={classObj.id}>
                     <td className="checkbox-col">
                       <input 
                         type="checkbox"
@@ -626,9 +645,17 @@ const Classes: React.FC<ClassesProps> = ({
                     onChange={handleFileChange}
                     className="file-input"
                   />
+                  <button
+                    className="import-btn preview-btn"
+                    onClick={() => handleImport(true)}
+                    disabled={!selectedFile}
+                    title={!selectedFile ? 'Please select a file first' : 'Check each row without enrolling anyone'}
+                  >
+                    Preview
+                  </button>
                   <button
                     className="import-btn"
-                    onClick={handleImport}
+                    onClick={() => handleImport()}
                     disabled={!selectedFile}
                     title={!selectedFile ? 'Please select a file first' : 'Import students from file'}
                   >
@@ -639,7 +666,7 @@ const Classes: React.FC<ClassesProps> = ({
                   <p className="file-selected">Selected: {selectedFile.name}</p>
                 )}
                 <p className="import-hint">
-                  Upload a CSV or Excel file with a column named "cpf" containing student CPFs
+                  Upload a CSV or Excel file with a "cpf" or "matrícula" column; use Preview to check each row before enrolling
                 </p>
               </div>
 
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   BarChart,
   Bar,
@@ -11,8 +11,11 @@ import {
   LineChart,
   Line,
 } from 'recharts';
-import { ReportData } from '../types/Report';
+import { GoalComparison, ReportData } from '../types/Report';
 import { Class } from '../types/Class';
+import ClassService from '../services/ClassService';
+
+const GOAL_CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4'];
 
 interface ComparisonChartsProps {
   selectedClasses: Class[];
@@ -23,10 +26,42 @@ const ComparisonCharts: React.FC<ComparisonChartsProps> = ({
   selectedClasses, 
   comparisonReports 
 }) => {
-  const [activeChart, setActiveChart] = useState<'overview' | 'approval' | 'grades' | 'above'>('overview');
+  const [activeChart, setActiveChart] = useState<'overview' | 'approval' | 'grades' | 'above' | 'goals'>('overview');
+  const [goalComparison, setGoalComparison] = useState<GoalComparison[] | null>(null);
+  const [goalComparisonError, setGoalComparisonError] = useState<string | null>(null);
 
   // Only use classes that have a loaded report
   const validSelected = selectedClasses.filter(c => comparisonReports && comparisonReports[c.id]);
+  const validSelectedIds = validSelected.map(c => c.id).join(',');
+
+  // The per goal matrix is computed by the server, and only loaded once its tab is open
+  useEffect(() => {
+    if (activeChart !== 'goals') {
+      return;
+    }
+
+    let cancelled = false;
+    setGoalComparison(null);
+    setGoalComparisonError(null);
+
+    const classIds = validSelectedIds.split(',').filter(Boolean);
+    if (classIds.length < 2) {
+      setGoalComparisonError('Select at least 2 classes to compare their goals');
+      return;
+    }
+
+    ClassService.compareClasses(classIds)
+      .then(result => {
+        if (!cancelled) setGoalComparison(result.goalComparison);
+      })
+      .catch(error => {
+        if (!cancelled) setGoalComparisonError((error as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeChart, validSelectedIds]);
 
   // Prepare data for overview chart (enrollment and approval rates)
   const overviewData = validSelected.map(classObj => {
@@ -79,6 +114,23 @@ const ComparisonCharts: React.FC<ComparisonChartsProps> = ({
     };
   });
 
+  // Mean grade of each goal, one bar per class
+  const goalsData = (goalComparison ?? []).map(row => {
+    const entry: { [key: string]: string | number | null } = { name: row.goal };
+    validSelected.forEach(classObj => {
+      entry[classObj.id] = row.classes[classObj.id]?.averageGrade ?? null;
+    });
+    return entry;
+  });
+
+  // MA/MPA/MANA counts of a goal in a class, with their share of the evaluated students
+  const distributionText = (performance: GoalComparison['classes'][string]) => {
+    if (!performance || performance.evaluatedStudents === 0) return 'Not evaluated';
+    const share = (count: number) => Math.round((count / performance.evaluatedStudents) * 100);
+    const { MA, MPA, MANA } = performance.gradeDistribution;
+    return `MA ${MA} (${share(MA)}%) · MPA ${MPA} (${share(MPA)}%) · MANA ${MANA} (${share(MANA)}%)`;
+  };
+
   if (validSelected.length === 0) {
     return (
       <div className="comparison-charts-container">
@@ -117,6 +169,12 @@ const ComparisonCharts: React.FC<ComparisonChartsProps> = ({
         >
           Mean Grades
         </button>
+        <button
+          className={`chart-btn ${activeChart === 'goals' ? 'active' : ''}`}
+          onClick={() => setActiveChart('goals')}
+        >
+          Per Goal
+        </button>
       </div>
 
       {/* Overview Chart - Enrollment and Students */}
@@ -230,6 +288,78 @@ const ComparisonCharts: React.FC<ComparisonChartsProps> = ({
         </div>
       )}
 
+      {/* Per Goal Comparison */}
+      {activeChart === 'goals' && (
+        <div className="chart-wrapper" data-testid="goal-comparison">
+          <h4>Performance per Goal</h4>
+          {goalComparisonError && <p className="goal-comparison-message">{goalComparisonError}</p>}
+          {!goalComparisonError && !goalComparison && <p className="goal-comparison-message">Loading goal comparison...</p>}
+          {goalComparison && (
+            <>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={goalsData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis domain={[0, 10]} />
+                  <Tooltip
+                    formatter={(value: any) => {
+                      if (typeof value === 'number') return value.toFixed(2);
+                      return value;
+                    }}
+                  />
+                  <Legend />
+                  {validSelected.map((classObj, index) => (
+                    <Bar
+                      key={classObj.id}
+                      dataKey={classObj.id}
+                      name={`${classObj.topic} (${classObj.year}/${classObj.semester})`}
+                      fill={GOAL_CHART_COLORS[index % GOAL_CHART_COLORS.length]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+
+              <div className="table-container">
+                <table className="goal-comparison-table">
+                  <thead>
+                    <tr>
+                      <th>Goal</th>
+                      {validSelected.map(classObj => (
+                        <th key={classObj.id}>{classObj.topic} ({classObj.year}/{classObj.semester})</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {goalComparison.map(row => (
+                      <tr key={row.goal}>
+                        <td><strong>{row.goal}</strong></td>
+                        {validSelected.map(classObj => {
+                          const performance = row.classes[classObj.id];
+                          return (
+                            <td key={classObj.id}>
+                              {performance === null || performance === undefined ? (
+                                <span className="goal-comparison-missing">Not a goal of this class</span>
+                              ) : (
+                                <>
+                                  <div className="goal-comparison-average">
+                                    {performance.averageGrade !== null ? performance.averageGrade.toFixed(2) : '–'}
+                                  </div>
+                                  <div className="goal-comparison-distribution">{distributionText(performance)}</div>
+                                </>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Chart Legend Info */}
       <div className="chart-info">
         <p>
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { GradeChange } from '../types/Evaluation';
+import EnrollmentService from '../services/EnrollmentService';
+
+interface EvaluationHistoryProps {
+  classId: string;
+  studentCPF: string;
+  studentName: string;
+  goal: string;
+  // Current grade of the cell, so the timeline reloads after each change
+  currentGrade: string;
+  onClose: () => void;
+  onError: (errorMessage: string) => void;
+}
+
+const formatGrade = (grade: string | null) => grade ?? '-';
+
+// Timeline of the grade changes of one cell of the evaluations grid, newest first
+const EvaluationHistory: React.FC<EvaluationHistoryProps> = ({
+  classId,
+  studentCPF,
+  studentName,
+  goal,
+  currentGrade,
+  onClose,
+  onError
+}) => {
+  const [changes, setChanges] = useState<GradeChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const history = await EnrollmentService.getEvaluationHistory(classId, studentCPF, goal);
+        if (!cancelled) {
+          setChanges([...history].reverse());
+        }
+      } catch (error) {
+        if (!cancelled) {
+          onError(`Failed to load grade history: ${(error as Error).message}`);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [classId, studentCPF, goal, currentGrade, onError]);
+
+  return (
+    <div className="evaluation-history" data-testid="evaluation-history">
+      <div className="evaluation-history-header">
+        <h4>History: {studentName} — {goal}</h4>
+        <button type="button" className="evaluation-history-close" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {isLoading && <p className="evaluation-history-empty">Loading history...</p>}
+
+      {!isLoading && changes.length === 0 && (
+        <p className="evaluation-history-empty">No grade changes recorded for this goal.</p>
+      )}
+
+      {!isLoading && changes.length > 0 && (
+        <ol className="evaluation-history-timeline">
+          {changes.map((change, index) => (
+            <li key={`${change.timestamp}-${index}`} className="evaluation-history-entry">
+              <span className="evaluation-history-time">
+                {new Date(change.timestamp).toLocaleString()}
+              </span>
+              <span className="evaluation-history-grades">
+                <span className={change.oldGrade ? `grade-${change.oldGrade.toLowerCase()}` : ''}>
+                  {formatGrade(change.oldGrade)}
+                </span>
+                {' → '}
+                <span className={change.newGrade ? `grade-${change.newGrade.toLowerCase()}` : ''}>
+                  {formatGrade(change.newGrade)}
+                </span>
+              </span>
+              <span className="evaluation-history-actor">{change.actor || 'Unknown user'}</span>
+              {change.reason && <span className="evaluation-history-reason">{change.reason}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationHistory;
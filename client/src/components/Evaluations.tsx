@@ -2,13 +2,34 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Class } from '../types/Class';
 import ClassService from '../services/ClassService';
 import EnrollmentService from '../services/EnrollmentService';
+import { Enrollment } from '../types/Enrollment';
+import { EvaluationChange, Grade } from '../types/Evaluation';
+import { GradebookExportFormat } from '../types/Report';
+import { downloadBlob } from '../utils';
+import { isEligibleForFinalExam } from '../types/ApprovalCriteria';
 
 import { ImportGradeComponent } from './ImportGrade';
+import EvaluationHistory from './EvaluationHistory';
 
 interface EvaluationsProps {
   onError: (errorMessage: string) => void;
 }
 
+const GRADES: Grade[] = ['MANA', 'MPA', 'MA'];
+
+// Key of a grid cell in the map of edits not yet saved; goals may contain any character,
+// so the key is never parsed back (the edit itself keeps the CPF and goal)
+const cellKey = (studentCPF: string, goal: string) => JSON.stringify([studentCPF, goal]);
+
+// Pasted grades: "-" or an empty cell removes the grade, anything else must be a valid grade
+const parsePastedGrade = (value: string): Grade | '' | null => {
+  const grade = value.trim().toUpperCase();
+  if (grade === '' || grade === '-') {
+    return '';
+  }
+  return GRADES.includes(grade as Grade) ? grade as Grade : null;
+};
+
 const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
   const [classes, setClasses] = useState<Class[]>([]);
   const [selectedClassId, setSelectedClassId] = useState<string>(() => {
@@ -17,16 +38,13 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
   });
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-
-  // Predefined evaluation goals
-  const evaluationGoals = [
-    'Requirements',
-    'Configuration Management', 
-    'Project Management',
-    'Design',
-    'Tests',
-    'Refactoring'
-  ];
+  // Grid cell whose grade history is shown
+  const [historyCell, setHistoryCell] = useState<{ studentCPF: string; goal: string } | null>(null);
+  // Grid edits not yet saved, by cell key
+  const [pendingGrades, setPendingGrades] = useState<Record<string, EvaluationChange>>({});
+  // Optional reason recorded in the grade history of the next saved changes
+  const [changeReason, setChangeReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
 
   const loadClasses = useCallback(async () => {
     try {
@@ -48,7 +66,15 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
   // Update selected class when selectedClassId changes
   useEffect(() => {
     if (selectedClassId) {
-      const classObj = classes.find(c => c.id === selectedClassId);
+      // Selections saved before classes had generated ids hold the legacy composite id
+      const aliased = classes.filter(c => c.legacyId === selectedClassId);
+      const classObj = classes.find(c => c.id === selectedClassId)
+        ?? (aliased.length === 1 ? aliased[0] : undefined);
+      if (classObj && classObj.id !== selectedClassId) {
+        localStorage.setItem('evaluations-selected-class', classObj.id);
+        setSelectedClassId(classObj.id);
+        return;
+      }
       setSelectedClass(classObj || null);
     } else {
       setSelectedClass(null);
@@ -56,7 +82,14 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
   }, [selectedClassId, classes]);
 
   const handleClassSelection = (classId: string) => {
+    const pendingCount = Object.keys(pendingGrades).length;
+    if (pendingCount > 0 && !window.confirm(`Discard ${pendingCount} unsaved grade change(s)?`)) {
+      return;
+    }
+
     setSelectedClassId(classId);
+    setHistoryCell(null);
+    setPendingGrades({});
     // Save selected class to localStorage for persistence
     if (classId) {
       localStorage.setItem('evaluations-selected-class', classId);
@@ -65,21 +98,132 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
     }
   };
 
-  const handleEvaluationChange = async (studentCPF: string, goal: string, grade: string) => {
+  const currentGradeOf = (enrollment: Enrollment, goal: string): Grade | '' =>
+    enrollment.evaluations.find(evaluation => evaluation.goal === goal)?.grade ?? '';
+
+  // Selecting a grade only marks the cell as edited; edits are saved per row or all at once
+  const handleEvaluationChange = (enrollment: Enrollment, goal: string, grade: Grade | '') => {
+    const studentCPF = enrollment.student.cpf;
+    const key = cellKey(studentCPF, goal);
+    setPendingGrades(prev => {
+      const next = { ...prev };
+      if (grade === currentGradeOf(enrollment, goal)) {
+        delete next[key];
+      } else {
+        next[key] = { studentCPF, goal, grade };
+      }
+      return next;
+    });
+  };
+
+  // Send the changes in a single batch, which the server applies all or nothing
+  const saveChanges = async (changes: EvaluationChange[]) => {
+    if (!selectedClass || changes.length === 0) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updatedEnrollments = await EnrollmentService.updateEvaluations(selectedClass.id, changes, changeReason.trim());
+      const updatedByCPF = new Map(updatedEnrollments.map(enrollment => [enrollment.student.cpf, enrollment]));
+      setClasses(prev => prev.map(classObj => classObj.id !== selectedClass.id ? classObj : {
+        ...classObj,
+        enrollments: classObj.enrollments.map(enrollment => updatedByCPF.get(enrollment.student.cpf) ?? enrollment)
+      }));
+      setPendingGrades(prev => {
+        const next = { ...prev };
+        changes.forEach(change => delete next[cellKey(change.studentCPF, change.goal)]);
+        return next;
+      });
+      setChangeReason('');
+    } catch (error) {
+      onError(`Failed to update evaluations: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pendingChangesOf = (studentCPF?: string): EvaluationChange[] =>
+    Object.values(pendingGrades)
+      .filter(change => studentCPF === undefined || change.studentCPF === studentCPF);
+
+  // A block copied from a spreadsheet fills the grid from the cell it is pasted on, and is saved right away
+  const handlePaste = (event: React.ClipboardEvent, rowIndex: number, goalIndex: number) => {
+    if (!selectedClass) {
+      return;
+    }
+
+    const text = event.clipboardData.getData('text/plain');
+    const lines = text.replace(/(\r?\n)+$/, '').split(/\r?\n/);
+    event.preventDefault();
+
+    const changes: EvaluationChange[] = [];
+    const invalidValues: string[] = [];
+    lines.forEach((line, lineOffset) => {
+      const enrollment = selectedClass.enrollments[rowIndex + lineOffset];
+      line.split('\t').forEach((value, columnOffset) => {
+        const goal = evaluationGoals[goalIndex + columnOffset];
+        if (!enrollment || !goal) {
+          return; // Outside the grid
+        }
+        const grade = parsePastedGrade(value);
+        if (grade === null) {
+          invalidValues.push(value.trim());
+        } else if (grade !== currentGradeOf(enrollment, goal)) {
+          changes.push({ studentCPF: enrollment.student.cpf, goal, grade });
+        }
+      });
+    });
+
+    if (invalidValues.length > 0) {
+      onError(`Pasted block not saved: invalid grades ${invalidValues.map(value => `"${value}"`).join(', ')}`);
+      return;
+    }
+    saveChanges(changes);
+  };
+
+  // Same columns as the grid, so the file can be edited and imported back
+  const handleExportGradebook = async (format: GradebookExportFormat) => {
+    if (!selectedClass) {
+      return;
+    }
+
+    try {
+      const file = await ClassService.exportGradebook(selectedClass.id, format);
+      downloadBlob(`gradebook-${selectedClass.topic}-${selectedClass.year}-${selectedClass.semester}.${format}`, file);
+    } catch (error) {
+      onError(`Failed to export gradebook: ${(error as Error).message}`);
+    }
+  };
+
+  const handleFinalExamChange = async (studentCPF: string, currentGrade: number | null, value: string) => {
     if (!selectedClass) {
       onError('No class selected');
       return;
     }
 
+    const grade = value.trim() === '' ? null : Number(value);
+    if (grade === currentGrade) {
+      return;
+    }
+
     try {
-      await EnrollmentService.updateEvaluation(selectedClass.id, studentCPF, goal, grade);
-      // Reload classes to get updated enrollment data
+      await EnrollmentService.updateFinalExam(selectedClass.id, studentCPF, grade);
+      // Reload classes to get the recomputed final average
       await loadClasses();
     } catch (error) {
-      onError(`Failed to update evaluation: ${(error as Error).message}`);
+      onError(`Failed to update final exam grade: ${(error as Error).message}`);
     }
   };
 
+  // Grid columns follow the goals of the selected class, in the class order
+  const evaluationGoals = selectedClass?.goals ?? [];
+
+  // The final exam column is only shown when some student can take the final exam
+  const hasFinalExamStudents = !!selectedClass && selectedClass.enrollments.some(enrollment =>
+    isEligibleForFinalExam(enrollment, selectedClass?.approvalCriteria) || (enrollment.notaDaProvaFinal ?? null) !== null
+  );
+
   if (isLoading) {
     return (
       <div className="evaluation-section">
@@ -149,6 +293,50 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
             <ImportGradeComponent classID={selectedClassId} />
           </div>
           <h4>{selectedClass.topic} ({selectedClass.year}/{selectedClass.semester})</h4>
+
+          <div className="evaluation-batch-actions">
+            <span className="evaluation-batch-hint">
+              Edited cells are saved per row or all at once; grades pasted from a spreadsheet are saved right away.
+            </span>
+            <input
+              type="text"
+              className="evaluation-reason-input"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="Reason for the change (optional)"
+              aria-label="Reason for the change"
+              data-testid="evaluation-change-reason"
+            />
+            <button
+              className="evaluation-export-btn"
+              onClick={() => handleExportGradebook('xlsx')}
+              data-testid="export-gradebook-xlsx"
+            >
+              Export Excel
+            </button>
+            <button
+              className="evaluation-export-btn"
+              onClick={() => handleExportGradebook('csv')}
+              data-testid="export-gradebook-csv"
+            >
+              Export CSV
+            </button>
+            <button
+              className="evaluation-discard-btn"
+              onClick={() => setPendingGrades({})}
+              disabled={isSaving || pendingChangesOf().length === 0}
+            >
+              Discard
+            </button>
+            <button
+              className="evaluation-save-btn"
+              onClick={() => saveChanges(pendingChangesOf())}
+              disabled={isSaving || pendingChangesOf().length === 0}
+              data-testid="save-all-evaluations"
+            >
+              Save All ({pendingChangesOf().length})
+            </button>
+          </div>
           
           <div className="evaluation-matrix">
             <table className="evaluation-table">
@@ -158,29 +346,34 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
                   {evaluationGoals.map(goal => (
                     <th key={goal} className="goal-header">{goal}</th>
                   ))}
+                  {hasFinalExamStudents && (
+                    <th className="goal-header final-exam-header">Final Exam</th>
+                  )}
+                  <th className="goal-header"></th>
                 </tr>
               </thead>
               <tbody>
-                {selectedClass.enrollments.map(enrollment => {
+                {selectedClass.enrollments.map((enrollment, rowIndex) => {
                   const student = enrollment.student;
-                  
-                  // Create a map of evaluations for quick lookup
-                  const studentEvaluations = enrollment.evaluations.reduce((acc, evaluation) => {
-                    acc[evaluation.goal] = evaluation.grade;
-                    return acc;
-                  }, {} as {[goal: string]: string});
+                  const rowChanges = pendingChangesOf(student.cpf);
 
                   return (
                     <tr key={student.cpf} className="student-row">
                       <td className="student-name-cell">{student.name}</td>
-                      {evaluationGoals.map(goal => {
-                        const currentGrade = studentEvaluations[goal] || '';
+                      {evaluationGoals.map((goal, goalIndex) => {
+                        const pendingGrade = pendingGrades[cellKey(student.cpf, goal)]?.grade;
+                        const currentGrade = pendingGrade ?? currentGradeOf(enrollment, goal);
                         
                         return (
-                          <td key={goal} className="evaluation-cell">
+                          <td
+                            key={goal}
+                            className={`evaluation-cell ${historyCell?.studentCPF === student.cpf && historyCell?.goal === goal ? 'history-selected' : ''} ${pendingGrade !== undefined ? 'pending-change' : ''}`}
+                            onClick={() => setHistoryCell({ studentCPF: student.cpf, goal })}
+                            onPaste={(e) => handlePaste(e, rowIndex, goalIndex)}
+                          >
                             <select
                               value={currentGrade}
-                              onChange={(e) => handleEvaluationChange(student.cpf, goal, e.target.value)}
+                              onChange={(e) => handleEvaluationChange(enrollment, goal, e.target.value as Grade | '')}
                               className={`evaluation-select ${currentGrade ? `grade-${currentGrade.toLowerCase()}` : ''}`}
                             >
                               <option value="">-</option>
@@ -191,12 +384,60 @@ const Evaluations: React.FC<EvaluationsProps> = ({ onError }) => {
                           </td>
                         );
                       })}
+                      {hasFinalExamStudents && (
+                        <td className="evaluation-cell final-exam-cell">
+                          {isEligibleForFinalExam(enrollment, selectedClass?.approvalCriteria) || (enrollment.notaDaProvaFinal ?? null) !== null ? (
+                            <input
+                              key={`${student.cpf}-${enrollment.notaDaProvaFinal ?? ''}`}
+                              type="number"
+                              min="0"
+                              max="10"
+                              step="0.1"
+                              defaultValue={enrollment.notaDaProvaFinal ?? ''}
+                              onBlur={(e) => handleFinalExamChange(student.cpf, enrollment.notaDaProvaFinal ?? null, e.target.value)}
+                              className="final-exam-input"
+                              data-testid={`final-exam-${student.cpf}`}
+                            />
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                      )}
+                      <td className="evaluation-cell">
+                        <button
+                          className="evaluation-row-save-btn"
+                          onClick={() => saveChanges(rowChanges)}
+                          disabled={isSaving || rowChanges.length === 0}
+                          data-testid={`save-evaluations-${student.cpf}`}
+                        >
+                          Save
+                        </button>
+                      </td>
                     </tr>
                   );
                 })}
               </tbody>
             </table>
           </div>
+
+          {historyCell && (() => {
+            const enrollment = selectedClass.enrollments.find(e => e.student.cpf === historyCell.studentCPF);
+            if (!enrollment) {
+              return null;
+            }
+            const currentGrade = enrollment.evaluations.find(e => e.goal === historyCell.goal)?.grade ?? '';
+            return (
+              <EvaluationHistory
+                classId={selectedClass.id}
+                studentCPF={historyCell.studentCPF}
+                studentName={enrollment.student.name}
+                goal={historyCell.goal}
+                currentGrade={currentGrade}
+                onClose={() => setHistoryCell(null)}
+                onError={onError}
+              />
+            );
+          })()}
         </div>
       )}
     </div>
@@ -1,14 +1,18 @@
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { BulkEnrollmentRowResult } from '../types/Enrollment';
+import BulkEnrollmentRows from './BulkEnrollmentRows';
 
 interface LocationState {
   message: string;
+  // Per-row outcome of a bulk enrollment in which no student could be enrolled
+  rows?: BulkEnrollmentRowResult[];
 }
 
 const ImportError: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { message } = location.state as LocationState;
+  const { message, rows } = location.state as LocationState;
 
   const handleGoBack = () => {
     navigate(-1);
@@ -22,6 +26,7 @@ const ImportError: React.FC = () => {
         <p className="import-error-message">
           {message || 'An error occurred during the import process.'}
         </p>
+        {rows && rows.length > 0 && <BulkEnrollmentRows rows={rows} />}
         <button className="back-btn" onClick={handleGoBack}>
           Tentar Novamente
         </button>
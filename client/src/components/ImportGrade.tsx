@@ -1,10 +1,377 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import EnrollmentService from '../services/EnrollmentService';
+import { GradeImportColumns, GradeImportMapping } from '../types/GradeImport';
 
 interface ImportGradeComponentProps {
   classID: string
 }
 
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+interface SavedMapping {
+  cpfColumn: string;
+  mapping: GradeImportMapping;
+}
+
+const VALID_GRADES = ['MA', 'MPA', 'MANA'];
+const MAPPING_STORAGE_PREFIX = 'gradeImportMapping:';
+// Minimum similarity between a column and a goal name to suggest the mapping
+const SUGGESTION_THRESHOLD = 0.6;
+
+// Lowercase, without accents and punctuation ("Gerência de Config." -> "gerencia de config")
+const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = a[i - 1] === b[j - 1]
+        ? previous
+        : Math.min(previous, distances[j - 1], distances[j]) + 1;
+      previous = current;
+    }
+  }
+  return distances[b.length];
+};
+
+// Similarity between 0 and 1; a name contained in the other (e.g. "Req" and "Requirements") scores high
+const nameSimilarity = (a: string, b: string): number => {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+  if (first.startsWith(second) || second.startsWith(first)) return 0.9;
+  if (first.includes(second) || second.includes(first)) return 0.8;
+  return 1 - levenshtein(first, second) / Math.max(first.length, second.length);
+};
+
+// Suggest one goal per column, best matches first, never reusing a goal
+const suggestMapping = (columns: string[], goals: string[]): GradeImportMapping => {
+  const candidates = columns
+    .flatMap(column => goals.map(goal => ({ column, goal, score: nameSimilarity(column, goal) })))
+    .filter(candidate => candidate.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const mapping: GradeImportMapping = {};
+  const usedGoals = new Set<string>();
+  candidates.forEach(({ column, goal }) => {
+    if (mapping[column] === undefined && !usedGoals.has(goal)) {
+      mapping[column] = goal;
+      usedGoals.add(goal);
+    }
+  });
+  return mapping;
+};
+
+const suggestCpfColumn = (columns: string[]): string =>
+  columns.find(column => /cpf|matricula/.test(normalizeName(column))) ?? '';
+
+const loadSavedMapping = (classID: string): SavedMapping | null => {
+  try {
+    const saved = localStorage.getItem(MAPPING_STORAGE_PREFIX + classID);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+// The last mapping is only reused when the spreadsheet still has every column and the class every goal
+const isSavedMappingApplicable = (saved: SavedMapping | null, data: GradeImportColumns): saved is SavedMapping =>
+  !!saved
+  && data.columns.includes(saved.cpfColumn)
+  && Object.keys(saved.mapping).length > 0
+  && Object.entries(saved.mapping).every(([column, goal]) => data.columns.includes(column) && data.goals.includes(goal));
+
+const isInvalidGrade = (value: string | undefined): boolean =>
+  !!value && value.trim() !== '' && !VALID_GRADES.includes(value.trim().toUpperCase());
+
+// Wizard to import grades from a spreadsheet: upload -> column mapping -> preview -> import
 export const ImportGradeComponent: React.FC<ImportGradeComponentProps> = (
   { classID = "" }
-) => { 
-  return (<h1>Importação de Notas</h1>)
-};
\ No newline at end of file
+) => {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [spreadsheet, setSpreadsheet] = useState<GradeImportColumns | null>(null);
+  const [mapping, setMapping] = useState<GradeImportMapping>({});
+  const [suggested, setSuggested] = useState<GradeImportMapping>({});
+  const [cpfColumn, setCpfColumn] = useState<string>('');
+  const [savedMapping, setSavedMapping] = useState<SavedMapping | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const resetWizard = useCallback(() => {
+    setStep('upload');
+    setSelectedFile(null);
+    setSpreadsheet(null);
+    setMapping({});
+    setSuggested({});
+    setCpfColumn('');
+    setSavedMapping(null);
+    setError('');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, []);
+
+  // Restart the wizard whenever another class is selected
+  useEffect(() => {
+    resetWizard();
+  }, [classID, resetWizard]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFile(event.target.files?.[0] ?? null);
+    setError('');
+  };
+
+  const handleReadColumns = async () => {
+    if (!selectedFile || !classID) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const data = await EnrollmentService.getGradeImportColumns(classID, selectedFile);
+      const saved = loadSavedMapping(classID);
+      const suggestions = suggestMapping(data.columns, data.goals);
+
+      setSpreadsheet(data);
+      setSuggested(suggestions);
+      if (isSavedMappingApplicable(saved, data)) {
+        setSavedMapping(saved);
+        setMapping(saved.mapping);
+        setCpfColumn(saved.cpfColumn);
+      } else {
+        setSavedMapping(null);
+        setMapping(suggestions);
+        setCpfColumn(suggestCpfColumn(data.columns));
+      }
+      setStep('mapping');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMappingChange = (column: string, goal: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (goal) {
+        next[column] = goal;
+      } else {
+        delete next[column];
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async (importMapping: GradeImportMapping, importCpfColumn: string) => {
+    if (!selectedFile || !classID) return;
+
+    setIsLoading(true);
+    try {
+      const result = await EnrollmentService.importGrades(classID, selectedFile, importMapping, importCpfColumn);
+      localStorage.setItem(
+        MAPPING_STORAGE_PREFIX + classID,
+        JSON.stringify({ cpfColumn: importCpfColumn, mapping: importMapping })
+      );
+
+      const { applied, unknownStudent, notEnrolled, invalidGrade } = result.summary;
+      navigate('/import-success', {
+        state: {
+          imported: applied,
+          rejected: unknownStudent + notEnrolled + invalidGrade,
+          importedLabel: 'Linhas Aplicadas',
+          rejectedLabel: 'Linhas Rejeitadas',
+          message: `Importação de notas concluída: ${applied} linhas aplicadas, ${unknownStudent} alunos não encontrados, ${notEnrolled} alunos não matriculados e ${invalidGrade} linhas com notas inválidas`
+        }
+      });
+    } catch (err) {
+      navigate('/import-error', {
+        state: {
+          message: (err as Error).message
+        }
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The CPF column is never imported as a goal, even if it was mapped before being chosen as CPF
+  const mappedColumns = spreadsheet ? spreadsheet.columns.filter(column => column !== cpfColumn && mapping[column]) : [];
+  const effectiveMapping: GradeImportMapping = Object.fromEntries(mappedColumns.map(column => [column, mapping[column]]));
+  const canPreview = !!cpfColumn && mappedColumns.length > 0;
+  const previewRows = spreadsheet?.previewRows ?? [];
+  const invalidPreviewCells = previewRows.reduce(
+    (count, row) => count + mappedColumns.filter(column => isInvalidGrade(row[column])).length,
+    0
+  );
+
+  return (
+    <div className="bulk-import-section grade-import-wizard">
+      <h4>Importação de Notas</h4>
+
+      <ol className="grade-import-steps">
+        <li className={step === 'upload' ? 'active' : ''}>1. Arquivo</li>
+        <li className={step === 'mapping' ? 'active' : ''}>2. Mapeamento</li>
+        <li className={step === 'preview' ? 'active' : ''}>3. Pré-visualização</li>
+      </ol>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {step === 'upload' && (
+        <>
+          <div className="bulk-import-controls">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              className="file-input"
+              disabled={!classID}
+            />
+            <button
+              className="import-btn"
+              onClick={handleReadColumns}
+              disabled={!selectedFile || isLoading}
+            >
+              {isLoading ? 'Lendo...' : 'Continuar'}
+            </button>
+          </div>
+          <p className="import-hint">
+            A planilha deve ter uma coluna de CPF e uma coluna por meta com os conceitos MA, MPA ou MANA
+          </p>
+        </>
+      )}
+
+      {step === 'mapping' && spreadsheet && (
+        <>
+          {savedMapping && (
+            <div className="grade-import-saved">
+              <span>O último mapeamento usado nesta turma se aplica a esta planilha.</span>
+              <button
+                className="import-btn"
+                onClick={() => handleImport(savedMapping.mapping, savedMapping.cpfColumn)}
+                disabled={isLoading}
+              >
+                Importar com o último mapeamento
+              </button>
+            </div>
+          )}
+
+          <div className="grade-import-cpf">
+            <label htmlFor="grade-import-cpf-column">Coluna de CPF:</label>
+            <select
+              id="grade-import-cpf-column"
+              value={cpfColumn}
+              onChange={(e) => setCpfColumn(e.target.value)}
+            >
+              <option value="">Selecione...</option>
+              {spreadsheet.columns.map(column => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
+
+          <table className="grade-import-table">
+            <thead>
+              <tr>
+                <th>Coluna da planilha</th>
+                <th>Meta da turma</th>
+              </tr>
+            </thead>
+            <tbody>
+              {spreadsheet.columns.filter(column => column !== cpfColumn).map(column => (
+                <tr key={column}>
+                  <td>{column}</td>
+                  <td>
+                    <select
+                      value={mapping[column] ?? ''}
+                      onChange={(e) => handleMappingChange(column, e.target.value)}
+                    >
+                      <option value="">— Ignorar —</option>
+                      {spreadsheet.goals.map(goal => (
+                        <option
+                          key={goal}
+                          value={goal}
+                          disabled={Object.entries(mapping).some(([other, mapped]) => other !== column && mapped === goal)}
+                        >
+                          {goal}{suggested[column] === goal ? ' (sugerido)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grade-import-actions">
+            <button className="cancel-btn" onClick={resetWizard}>Voltar</button>
+            <button className="import-btn" onClick={() => setStep('preview')} disabled={!canPreview}>
+              Pré-visualizar
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'preview' && spreadsheet && (
+        <>
+          <p className="import-hint">
+            Primeiras {previewRows.length} linhas como serão importadas.
+            {invalidPreviewCells > 0 && ` ${invalidPreviewCells} células com conceitos inválidos (destacadas) farão a linha ser rejeitada.`}
+          </p>
+
+          <table className="grade-import-table">
+            <thead>
+              <tr>
+                <th>{cpfColumn} (CPF)</th>
+                {mappedColumns.map(column => (
+                  <th key={column}>{column} → {mapping[column]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, index) => (
+                <tr key={index}>
+                  <td>{row[cpfColumn]}</td>
+                  {mappedColumns.map(column => (
+                    <td
+                      key={column}
+                      className={isInvalidGrade(row[column]) ? 'grade-import-invalid-cell' : ''}
+                    >
+                      {row[column]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grade-import-actions">
+            <button className="cancel-btn" onClick={() => setStep('mapping')}>Voltar</button>
+            <button
+              className="import-btn"
+              onClick={() => handleImport(effectiveMapping, cpfColumn)}
+              disabled={isLoading}
+            >
+              {isLoading ? 'Importando...' : 'Importar Notas'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
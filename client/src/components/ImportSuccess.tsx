@@ -1,15 +1,24 @@
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { BulkEnrollmentRowResult } from '../types/Enrollment';
+import BulkEnrollmentRows from './BulkEnrollmentRows';
 
 interface LocationState {
   imported: number;
   rejected: number;
+  // Optional texts so other imports (e.g. grades) can reuse this page
+  importedLabel?: string;
+  rejectedLabel?: string;
+  message?: string;
+  // Per-row outcome of a bulk enrollment, and whether it was only a dry run
+  rows?: BulkEnrollmentRowResult[];
+  dryRun?: boolean;
 }
 
 const ImportSuccess: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { imported, rejected } = location.state as LocationState;
+  const { imported, rejected, importedLabel, rejectedLabel, message, rows, dryRun } = location.state as LocationState;
 
   const handleGoBack = () => {
     navigate(-1);
@@ -19,20 +28,21 @@ const ImportSuccess: React.FC = () => {
     <div className="import-result-container">
       <div className="import-result-card success">
         <div className="import-result-icon">✓</div>
-        <h2>Import Successful!</h2>
+        <h2>{dryRun ? 'Import Preview' : 'Import Successful!'}</h2>
         <div className="import-result-stats">
           <div className="stat-item">
             <span className="stat-number">{imported || 0}</span>
-            <span className="stat-label">Students Imported</span>
+            <span className="stat-label">{importedLabel || 'Students Imported'}</span>
           </div>
           <div className="stat-item">
             <span className="stat-number">{rejected || 0}</span>
-            <span className="stat-label">Students Rejected</span>
+            <span className="stat-label">{rejectedLabel || 'Students Rejected'}</span>
           </div>
         </div>
         <p className="import-result-message">
-          Importação concluída: {imported || 0} alunos foram importados com sucesso e {rejected || 0} foram rejeitados
+          {message || `Importação concluída: ${imported || 0} alunos foram importados com sucesso e ${rejected || 0} foram rejeitados`}
         </p>
+        {rows && rows.length > 0 && <BulkEnrollmentRows rows={rows} dryRun={dryRun} />}
         <button className="back-btn" onClick={handleGoBack}>
           Voltar
         </button>
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { User } from '../types/User';
+import AuthService from '../services/AuthService';
+
+interface LoginProps {
+  onLogin: (user: User) => void;
+}
+
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setIsSubmitting(true);
+      const user = await AuthService.login(username.trim(), password);
+      onLogin(user);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <form onSubmit={handleSubmit} className="student-form login-form" data-testid="login-form">
+        <h2>Log in</h2>
+
+        {error && (
+          <div className="error-message" data-testid="login-error">
+            {error}
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="username">Username</label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            required
+            data-testid="login-username"
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="password">Password</label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            data-testid="login-password"
+          />
+        </div>
+
+        <div className="form-buttons">
+          <button type="submit" disabled={isSubmitting} data-testid="login-button">
+            {isSubmitting ? 'Logging in...' : 'Log in'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { StudentClassSummary, StudentStatus } from '../types/Report';
+import { studentService } from '../services/StudentService';
+
+interface MyGradesProps {
+  studentCPF: string;
+  onError: (errorMessage: string) => void;
+}
+
+export const STATUS_CONFIG: Record<StudentStatus, { label: string; className: string }> = {
+  APPROVED: { label: 'Approved', className: 'status-approved' },
+  APPROVED_FINAL: { label: 'Approved (Final)', className: 'status-approved-final' },
+  FAILED: { label: 'Failed', className: 'status-failed' },
+  FAILED_BY_ABSENCE: { label: 'Failed (Absence)', className: 'status-failed-by-absence' },
+  PENDING: { label: 'Pending', className: 'status-pending' }
+};
+
+const formatNumber = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+// What the approval thresholds mean for the student right now
+const describeSituation = (summary: StudentClassSummary): string => {
+  const { approvalCriteria, finalExam, average, status } = summary;
+
+  switch (status) {
+    case 'APPROVED':
+      return `Your average reached ${approvalCriteria.directApprovalThreshold}, so you are approved without the final exam.`;
+    case 'APPROVED_FINAL':
+      return `You are approved after the final exam (at least ${approvalCriteria.postFinalApprovalThreshold} needed after the final).`;
+    case 'FAILED_BY_ABSENCE':
+      return 'You failed by absence, so the final exam is not available.';
+    case 'FAILED':
+      return finalExam.grade !== null
+        ? `Your average after the final exam is below ${approvalCriteria.postFinalApprovalThreshold}.`
+        : `Your average is below ${approvalCriteria.finalExamEligibilityThreshold}, the minimum to take the final exam.`;
+    case 'PENDING':
+    default:
+      if (average === null) {
+        return 'No goal has been graded yet.';
+      }
+      if (finalExam.eligible && finalExam.requiredGrade !== null) {
+        return finalExam.requiredGrade > 10
+          ? `Your average is below ${approvalCriteria.directApprovalThreshold}, and even a 10 on the final exam would not reach ${approvalCriteria.postFinalApprovalThreshold}.`
+          : `Your average is below ${approvalCriteria.directApprovalThreshold}: you need at least ${formatNumber(finalExam.requiredGrade)} on the final exam to be approved.`;
+      }
+      return `You need an average of ${approvalCriteria.directApprovalThreshold} to be approved directly; between ${approvalCriteria.finalExamEligibilityThreshold} and ${approvalCriteria.directApprovalThreshold} you take the final exam.`;
+  }
+};
+
+// Self-service view of the logged-in student's grades in each class
+const MyGrades: React.FC<MyGradesProps> = ({ studentCPF, onError }) => {
+  const [summaries, setSummaries] = useState<StudentClassSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadGrades = async () => {
+      try {
+        setIsLoading(true);
+        setSummaries(await studentService.getStudentGrades(studentCPF));
+      } catch (error) {
+        onError(`Failed to load your grades: ${(error as Error).message}`);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadGrades();
+  }, [studentCPF, onError]);
+
+  if (isLoading) {
+    return <div className="my-grades-empty">Loading your grades...</div>;
+  }
+
+  if (summaries.length === 0) {
+    return (
+      <div className="my-grades-empty">
+        <h4>No Classes</h4>
+        <p>You are not enrolled in any class yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-grades" data-testid="my-grades">
+      <h3>My Grades</h3>
+      {summaries.map(summary => {
+        const statusConfig = STATUS_CONFIG[summary.status];
+
+        return (
+          <div key={summary.classId} className="my-grades-class" data-testid={`my-grades-${summary.classId}`}>
+            <div className="my-grades-header">
+              <h4>{summary.topic} ({summary.year}/{summary.semester})</h4>
+              <span className={`status-badge ${statusConfig.className}`}>{statusConfig.label}</span>
+            </div>
+
+            <table className="evaluation-table my-grades-table">
+              <thead>
+                <tr>
+                  {summary.goals.map(({ goal }) => (
+                    <th key={goal} className="goal-header">{goal}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {summary.goals.map(({ goal, grade }) => (
+                    <td key={goal} className={`my-grades-cell ${grade ? `grade-${grade.toLowerCase()}` : ''}`}>
+                      {grade ?? '-'}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+
+            <div className="my-grades-averages">
+              <span>Average: <strong>{formatNumber(summary.average)}</strong></span>
+              {summary.finalExam.grade !== null && (
+                <span>Final exam: <strong>{formatNumber(summary.finalExam.grade)}</strong></span>
+              )}
+              {summary.finalGrade !== null && (
+                <span>Final grade: <strong>{formatNumber(summary.finalGrade)}</strong></span>
+              )}
+            </div>
+            <p className="my-grades-situation">{describeSituation(summary)}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MyGrades;
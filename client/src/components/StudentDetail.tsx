@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { StudentHistory } from '../types/Report';
+import { studentService } from '../services/StudentService';
+import { STATUS_CONFIG } from './MyGrades';
+
+const formatNumber = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+// Academic history of one student across every class, reached from the student list (/students/:cpf).
+// App renders it once the user is logged in as staff.
+const StudentDetail: React.FC = () => {
+  const { cpf = '' } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [history, setHistory] = useState<StudentHistory | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    studentService.getStudentHistory(cpf)
+      .then(result => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cpf]);
+
+  // Going back restores the search, sort and page of the student list; a page opened directly
+  // (no previous entry in the app, so the location key is 'default') goes to the list instead
+  const handleGoBack = () => {
+    if (location.key === 'default') {
+      navigate('/');
+    } else {
+      navigate(-1);
+    }
+  };
+
+  return (
+    <main className="App-main student-detail" data-testid="student-detail">
+      <button className="back-btn" onClick={handleGoBack}>
+        ← Back to students
+      </button>
+
+      {error && (
+        <div className="error-message">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {!error && !history && <div className="loading">Loading history...</div>}
+
+      {history && (
+        <>
+          <div className="student-detail-header">
+            <h2>{history.student.name}</h2>
+            <p>{history.student.cpf} · {history.student.email}</p>
+          </div>
+
+          <div className="report-stat-card student-detail-summary" data-testid="student-history-summary">
+            <div className="stat-item">
+              <span className="stat-label">Classes:</span>
+              <span className="stat-value">{history.summary.classesTaken}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Approvals:</span>
+              <span className="stat-value approved">{history.summary.approvals}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Failures:</span>
+              <span className="stat-value not-approved">{history.summary.failures}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">In progress:</span>
+              <span className="stat-value pending">{history.summary.pending}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Overall average:</span>
+              <span className="stat-value">{formatNumber(history.summary.overallAverage)}</span>
+            </div>
+          </div>
+
+          {history.classes.length === 0 ? (
+            <div className="my-grades-empty">
+              <p>This student is not enrolled in any class yet.</p>
+            </div>
+          ) : (
+            history.classes.map(summary => {
+              const statusConfig = STATUS_CONFIG[summary.status];
+
+              return (
+                <div key={summary.classId} className="my-grades-class" data-testid={`student-history-${summary.classId}`}>
+                  <div className="my-grades-header">
+                    <h4>{summary.topic} ({summary.year}/{summary.semester})</h4>
+                    <span className={`status-badge ${statusConfig.className}`}>{statusConfig.label}</span>
+                  </div>
+
+                  <table className="evaluation-table my-grades-table">
+                    <thead>
+                      <tr>
+                        {summary.goals.map(({ goal }) => (
+                          <th key={goal} className="goal-header">{goal}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        {summary.goals.map(({ goal, grade }) => (
+                          <td key={goal} className={`my-grades-cell ${grade ? `grade-${grade.toLowerCase()}` : ''}`}>
+                            {grade ?? '-'}
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+
+                  <div className="my-grades-averages">
+                    <span>Average: <strong>{formatNumber(summary.average)}</strong></span>
+                    {summary.finalExam.grade !== null && (
+                      <span>Final exam: <strong>{formatNumber(summary.finalExam.grade)}</strong></span>
+                    )}
+                    <span>Final grade: <strong>{formatNumber(summary.finalGrade)}</strong></span>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </>
+      )}
+    </main>
+  );
+};
+
+export default StudentDetail;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Student } from '../types/Student';
+import { Student, validateCPF } from '../types/Student';
 import { Class } from '../types/Class';
 import { studentService } from '../services/StudentService';
 import EnrollmentService from '../services/EnrollmentService';
@@ -29,6 +29,10 @@ const StudentForm: React.FC<StudentFormProps> = ({
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Inline CPF feedback while typing (the CPF of an existing student cannot be edited)
+  const cpfError = !editingStudent && formData.cpf ? validateCPF(formData.cpf) : null;
+  const cpfIsComplete = formData.cpf.replace(/\D/g, '').length === 11;
+
   // Update form data when editingStudent changes
   useEffect(() => {
     if (editingStudent) {
@@ -49,6 +53,10 @@ const StudentForm: React.FC<StudentFormProps> = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (cpfError) {
+      onError(cpfError);
+      return;
+    }
     setIsSubmitting(true);
     
     try {
@@ -171,7 +179,19 @@ const StudentForm: React.FC<StudentFormProps> = ({
           placeholder="000.000.000-00"
           maxLength={14}
           disabled={!!editingStudent} // Disable CPF editing for existing students
+          className={cpfError && cpfIsComplete ? 'input-invalid' : cpfIsComplete && !editingStudent ? 'input-valid' : ''}
+          aria-invalid={!!cpfError && cpfIsComplete}
+          aria-describedby="cpf-feedback"
         />
+        {!editingStudent && formData.cpf && (
+          <span
+            id="cpf-feedback"
+            className={`field-feedback ${cpfError ? (cpfIsComplete ? 'field-feedback-error' : '') : 'field-feedback-ok'}`}
+            data-testid="cpf-feedback"
+          >
+            {cpfError ?? 'Valid CPF'}
+          </span>
+        )}
       </div>
 
       <div className="form-group">
@@ -188,7 +208,7 @@ const StudentForm: React.FC<StudentFormProps> = ({
       </div>
 
       <div className="form-buttons">
-        <button type="submit" disabled={isSubmitting} data-testid="submit-student-button">
+        <button type="submit" disabled={isSubmitting || !!cpfError} data-testid="submit-student-button">
           {isSubmitting ? 'Saving...' : (editingStudent ? 'Update Student' : 'Add Student')}
         </button>
         {onCancel && (
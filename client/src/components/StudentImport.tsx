@@ -0,0 +1,151 @@
+import React, { useState, useRef } from 'react';
+import { Class } from '../types/Class';
+import { StudentImportResult, StudentImportRowResult, StudentImportRowStatus } from '../types/StudentImport';
+import { studentService } from '../services/StudentService';
+
+interface StudentImportProps {
+  classes: Class[];
+  onStudentsImported: () => void;
+  onError: (errorMessage: string) => void;
+}
+
+const STATUS_LABELS: Record<StudentImportRowStatus, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  unchanged: 'Already registered',
+  invalid: 'Rejected',
+  duplicate: 'Repeated in file'
+};
+
+const ENROLLMENT_LABELS: Record<NonNullable<StudentImportRowResult['enrollment']>, string> = {
+  enrolled: 'Enrolled',
+  already_enrolled: 'Already enrolled'
+};
+
+// Registers the students of a spreadsheet, optionally enrolling them into a class
+const StudentImport: React.FC<StudentImportProps> = ({ classes, onStudentsImported, onError }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [classId, setClassId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<StudentImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFile(event.target.files?.[0] ?? null);
+    setResult(null);
+  };
+
+  const handleImport = async () => {
+    if (!selectedFile) {
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      const importResult = await studentService.importStudents(selectedFile, {
+        updateExisting,
+        classId: classId || undefined
+      });
+      setResult(importResult);
+      onStudentsImported();
+
+      setSelectedFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bulk-import-section student-import" data-testid="student-import">
+      <h4>Import Students from File:</h4>
+      <div className="bulk-import-controls">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+          onChange={handleFileChange}
+          className="file-input"
+          data-testid="student-import-file"
+        />
+        <button
+          className="import-btn"
+          onClick={handleImport}
+          disabled={!selectedFile || isImporting}
+          title={!selectedFile ? 'Please select a file first' : 'Import students from file'}
+        >
+          {isImporting ? 'Importing...' : 'Import Students'}
+        </button>
+      </div>
+
+      <div className="student-import-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={updateExisting}
+            onChange={(e) => setUpdateExisting(e.target.checked)}
+          />
+          Update name and email of students already registered
+        </label>
+        <label>
+          Enroll into:
+          <select value={classId} onChange={(e) => setClassId(e.target.value)}>
+            <option value="">No class</option>
+            {classes.map(classObj => (
+              <option key={classObj.id} value={classObj.id}>
+                {classObj.topic} ({classObj.year}/{classObj.semester})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="import-hint">
+        Upload a CSV or Excel file with name, CPF and email columns (e.g. "Nome", "CPF", "E-mail")
+      </p>
+
+      {result && (
+        <div className="student-import-result" data-testid="student-import-result">
+          <p>
+            {result.summary.created} created, {result.summary.updated} updated, {result.summary.unchanged} already
+            registered, {result.summary.invalid + result.summary.duplicate} rejected
+            {classId && `, ${result.summary.enrolled} enrolled`}
+          </p>
+          <table className="grade-import-table">
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Name</th>
+                <th>CPF</th>
+                <th>Email</th>
+                <th>Outcome</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.results.map(row => (
+                <tr key={row.line} className={`student-import-${row.status}`}>
+                  <td>{row.line}</td>
+                  <td>{row.name}</td>
+                  <td>{row.cpf}</td>
+                  <td>{row.email}</td>
+                  <td>
+                    {STATUS_LABELS[row.status]}
+                    {row.error && `: ${row.error}`}
+                    {row.enrollment && ` (${ENROLLMENT_LABELS[row.enrollment]})`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentImport;
@@ -1,22 +1,100 @@
-import React from 'react';
-import { Student } from '../types/Student';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Student, StudentPage, StudentSortKey } from '../types/Student';
 import { studentService } from '../services/StudentService';
 
 interface StudentListProps {
-  students: Student[];
+  // Only the students enrolled in this class
+  classId?: string;
+  // Changes whenever the students were modified elsewhere and the list must be reloaded
+  refreshKey: number;
   onStudentDeleted: () => void;
   onEditStudent: (student: Student) => void;
   onError: (errorMessage: string) => void;
-  loading: boolean;
 }
 
-const StudentList: React.FC<StudentListProps> = ({ 
-  students, 
-  onStudentDeleted, 
-  onEditStudent, 
-  onError, 
-  loading 
+const STUDENTS_PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300;
+
+const isSortKey = (value: string | null): value is StudentSortKey => value === 'name' || value === 'cpf';
+
+// Searchable, sortable and paginated table of the registered students. The query lives in
+// the URL (?search=&sort=&order=&page=) so that a filtered view can be shared as a link.
+const StudentList: React.FC<StudentListProps> = ({
+  classId,
+  refreshKey,
+  onStudentDeleted,
+  onEditStudent,
+  onError
 }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('search') ?? '';
+  const sortParam = searchParams.get('sort');
+  const sort = isSortKey(sortParam) ? sortParam : undefined;
+  const order = searchParams.get('order') === 'desc' ? 'desc' : 'asc';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const [searchInput, setSearchInput] = useState(search);
+  const [studentPage, setStudentPage] = useState<StudentPage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Updates the URL query; empty values are dropped and any change other than the page goes back to the first page
+  const updateQuery = useCallback((changes: Record<string, string | undefined>) => {
+    setSearchParams(current => {
+      const params = new URLSearchParams(current);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      if (!('page' in changes)) {
+        params.delete('page');
+      }
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    if (searchInput.trim() === search) {
+      return;
+    }
+    const timeout = setTimeout(() => updateQuery({ search: searchInput.trim() }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, search, updateQuery]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStudents = async () => {
+      try {
+        setLoading(true);
+        const result = await studentService.searchStudents({ search, sort, order, classId, page }, STUDENTS_PAGE_SIZE);
+        if (!cancelled) {
+          setStudentPage(result);
+          // Deleting the last students of the last page leaves the query past the end
+          if (result.items.length === 0 && result.page > result.totalPages) {
+            updateQuery({ page: String(result.totalPages) });
+          }
+        }
+      } catch (error) {
+        if (!cancelled) {
+          onError('Failed to load students. Please try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadStudents();
+    return () => {
+      cancelled = true;
+    };
+  }, [search, sort, order, classId, page, refreshKey, onError, updateQuery]);
+
   const handleDelete = async (student: Student) => {
     if (window.confirm(`Are you sure you want to delete ${student.name}?`)) {
       try {
@@ -32,10 +110,37 @@ const StudentList: React.FC<StudentListProps> = ({
     onEditStudent(student);
   };
 
-  if (loading) {
+  // Clicking the sorted column again reverses the order
+  const handleSort = (key: StudentSortKey) => {
+    if (sort === key) {
+      updateQuery({ order: order === 'asc' ? 'desc' : undefined });
+    } else {
+      updateQuery({ sort: key, order: undefined });
+    }
+  };
+
+  const sortIndicator = (key: StudentSortKey) => (sort === key ? (order === 'asc' ? ' ▲' : ' ▼') : '');
+
+  const students = studentPage?.items ?? [];
+  const totalItems = studentPage?.totalItems ?? 0;
+  const totalPages = studentPage?.totalPages ?? 1;
+
+  const searchBox = (
+    <div className="student-search">
+      <input
+        type="search"
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        placeholder="Search name, email or CPF"
+        data-testid="student-search"
+      />
+    </div>
+  );
+
+  if (loading && !studentPage) {
     return (
       <div className="students-list">
-        <h2>Students ({students.length})</h2>
+        <h2>Students</h2>
         <div className="loading">Loading students...</div>
       </div>
     );
@@ -45,8 +150,11 @@ const StudentList: React.FC<StudentListProps> = ({
     return (
       <div className="students-list">
         <h2>Students (0)</h2>
+        {searchBox}
         <div className="no-students">
-          No students registered yet. Add your first student using the form above.
+          {search
+            ? 'No students match this search.'
+            : 'No students registered yet. Add your first student using the form above.'}
         </div>
       </div>
     );
@@ -54,13 +162,14 @@ const StudentList: React.FC<StudentListProps> = ({
 
   return (
     <div className="students-list">
-      <h2>Students ({students.length})</h2>
+      <h2>Students ({totalItems})</h2>
+      {searchBox}
       <div className="table-container">
         <table>
           <thead>
             <tr>
-              <th>Name</th>
-              <th>CPF</th>
+              <th className="sortable-header" onClick={() => handleSort('name')}>Name{sortIndicator('name')}</th>
+              <th className="sortable-header" onClick={() => handleSort('cpf')}>CPF{sortIndicator('cpf')}</th>
               <th>Email</th>
               <th>Actions</th>
             </tr>
@@ -68,7 +177,15 @@ const StudentList: React.FC<StudentListProps> = ({
           <tbody>
             {students.map((student) => (
               <tr key={student.cpf} data-testid={`student-row-${student.cpf}`}>
-                <td data-testid="student-name">{student.name}</td>
+                <td data-testid="student-name">
+                  <Link
+                    to={`/students/${student.cpf.replace(/\D/g, '')}`}
+                    className="student-name-link"
+                    title="Academic history"
+                  >
+                    {student.name}
+                  </Link>
+                </td>
                 <td data-testid="student-cpf">{student.cpf}</td>
                 <td data-testid="student-email">{student.email}</td>
                 <td>
@@ -94,8 +211,27 @@ const StudentList: React.FC<StudentListProps> = ({
           </tbody>
         </table>
       </div>
+      {totalPages > 1 && (
+        <div className="students-pagination">
+          <button
+            className="pagination-btn"
+            onClick={() => updateQuery({ page: String(page - 1) })}
+            disabled={page <= 1}
+          >
+            Previous
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            className="pagination-btn"
+            onClick={() => updateQuery({ page: String(page + 1) })}
+            disabled={page >= totalPages}
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
 };
 
-export default StudentList;
\ No newline at end of file
+export default StudentList;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { render, screen, fireEvent, cleanup } from '@testing-library/react';
 import '@testing-library/jest-dom';
+import { DEFAULT_APPROVAL_CRITERIA } from '../../types/ApprovalCriteria';
 
 // Mock URL.createObjectURL to avoid jsdom issues  
 global.URL.createObjectURL = jest.fn(() => 'blob:mock-url');
@@ -23,10 +24,13 @@ import { DEFAULT_ESPECIFICACAO_DO_CALCULO_DE_MEDIA } from '../../types/Especific
 
 const makeClass = (i: number): Class => ({
   id: `C${i}`,
+  legacyId: `Topic ${i}-2023-1`,
   topic: `Topic ${i}`,
   year: 2023,
   semester: 1,
   especificacaoDoCalculoDaMedia: DEFAULT_ESPECIFICACAO_DO_CALCULO_DE_MEDIA,
+  goals: [],
+  approvalCriteria: DEFAULT_APPROVAL_CRITERIA,
   enrollments: []
 });
 
@@ -0,0 +1,112 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { GradeStatistics } from '../../types/Report';
+
+interface GradeDistributionChartProps {
+  data: GradeStatistics;
+}
+
+// --- Constants ---
+const BAR_COLOR = '#4a90d9';
+const MAX_GRADE = 10;
+const BOX_PLOT_WIDTH = 300;
+const BOX_PLOT_HEIGHT = 60;
+const BOX_PLOT_PADDING = 12;
+
+const formatGrade = (value: number | null) => (value !== null ? value.toFixed(2) : '–');
+
+// --- Sub-components ---
+
+// Horizontal box plot over the 0-10 scale: whiskers at min/max, box from the first to the third quartile
+const BoxPlot: React.FC<{ data: GradeStatistics }> = ({ data }) => {
+  const { min, firstQuartile, median, thirdQuartile, max } = data;
+  if (min === null || firstQuartile === null || median === null || thirdQuartile === null || max === null) {
+    return null;
+  }
+
+  const x = (grade: number) => BOX_PLOT_PADDING + (grade / MAX_GRADE) * (BOX_PLOT_WIDTH - 2 * BOX_PLOT_PADDING);
+  const middle = BOX_PLOT_HEIGHT / 2 - 6;
+
+  return (
+    <svg
+      className="box-plot"
+      viewBox={`0 0 ${BOX_PLOT_WIDTH} ${BOX_PLOT_HEIGHT}`}
+      role="img"
+      aria-label={`Box plot: minimum ${min}, first quartile ${firstQuartile}, median ${median}, third quartile ${thirdQuartile}, maximum ${max}`}
+      data-testid="grade-box-plot"
+    >
+      <line x1={x(min)} x2={x(firstQuartile)} y1={middle} y2={middle} stroke="#666" />
+      <line x1={x(thirdQuartile)} x2={x(max)} y1={middle} y2={middle} stroke="#666" />
+      <line x1={x(min)} x2={x(min)} y1={middle - 8} y2={middle + 8} stroke="#666" />
+      <line x1={x(max)} x2={x(max)} y1={middle - 8} y2={middle + 8} stroke="#666" />
+      <rect
+        x={x(firstQuartile)}
+        y={middle - 12}
+        width={Math.max(1, x(thirdQuartile) - x(firstQuartile))}
+        height={24}
+        fill="#dbeafe"
+        stroke={BAR_COLOR}
+      />
+      <line x1={x(median)} x2={x(median)} y1={middle - 12} y2={middle + 12} stroke="#1e3a8a" strokeWidth={2} />
+      {[0, 2, 4, 6, 8, 10].map(grade => (
+        <text key={grade} x={x(grade)} y={BOX_PLOT_HEIGHT - 2} fontSize={10} textAnchor="middle" fill="#666">
+          {grade}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+// --- Main Component ---
+
+/**
+ * GradeDistributionChart - Displays the histogram, box plot and summary statistics of the final grades.
+ */
+const GradeDistributionChart: React.FC<GradeDistributionChartProps> = ({ data }) => {
+  const chartData = data.histogram.map(bucket => ({
+    range: `${bucket.from}–${bucket.to}`,
+    count: bucket.count
+  }));
+
+  return (
+    <div className="chart-container" data-testid="grade-distribution-chart">
+      <h4>Final Grade Distribution</h4>
+      {data.count === 0 ? (
+        <p className="no-evaluations">Ainda não há notas finais para gerar o gráfico.</p>
+      ) : (
+        <>
+          <div className="grade-histogram">
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="range" fontSize={11} />
+                <YAxis allowDecimals={false} />
+                <Tooltip formatter={(value: number) => [`${value} student(s)`, '']} />
+                <Bar dataKey="count" fill={BAR_COLOR} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <BoxPlot data={data} />
+          <div className="grade-statistics" data-testid="grade-statistics">
+            <span>Median: <strong>{formatGrade(data.median)}</strong></span>
+            <span>Std. dev.: <strong>{formatGrade(data.standardDeviation)}</strong></span>
+            <span>Min: <strong>{formatGrade(data.min)}</strong></span>
+            <span>Q1: <strong>{formatGrade(data.firstQuartile)}</strong></span>
+            <span>Q3: <strong>{formatGrade(data.thirdQuartile)}</strong></span>
+            <span>Max: <strong>{formatGrade(data.max)}</strong></span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GradeDistributionChart;
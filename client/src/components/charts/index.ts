@@ -1,2 +1,3 @@
 export { default as StatusPieChart } from './StatusPieChart';
 export { default as EvaluationBarChart } from './EvaluationBarChart';
+export { default as GradeDistributionChart } from './GradeDistributionChart';
@@ -5,9 +5,9 @@ Feature: Report Filters via GUI
     Given a class exists with name "Math" for GUI testing
     And the following students have evaluations for the GUI test:
       | name  | cpf         | gradeType |
-      | Maria | 11122233344 | MA        |
-      | John  | 22233344455 | MANA      |
-      | Ana   | 33344455566 | MPA       |
+      | Maria | 11122233396 | MA        |
+      | John  | 22233344405 | MANA      |
+      | Ana   | 33344455508 | MPA       |
 
   @gui
   Scenario: Professor filters students below class average
@@ -11,8 +11,8 @@ Feature: Report Filters
   Scenario: Filter students below a specific threshold (Custom Filter)
     Given the following students have evaluations in this class:
       | name   | cpf         | gradeType |
-      | Pedro  | 55557777555 | MANA      |
-      | Ana    | 66668888666 | MPA       |
+      | Pedro  | 55557777520 | MANA      |
+      | Ana    | 66668888631 | MPA       |
     When I request the class report
     And I apply the "BELOW_THRESHOLD" filter with value 6.0
     Then the filtered list should contain exactly 1 student
@@ -21,9 +21,9 @@ Feature: Report Filters
   Scenario: Filter students below class average
     Given the following students have evaluations in this class:
       | name    | cpf         | gradeType |
-      | Marcos  | 11133344455 | MANA      |
-      | Maria   | 77788833399 | MANA      |
-      | Eduarda | 00033344455 | MA        |
+      | Marcos  | 11133344445 | MANA      |
+      | Maria   | 77788833339 | MANA      |
+      | Eduarda | 00033344493 | MA        |
     When I request the class report
     And I apply the "BELOW_AVG" filter on the report data
     Then the filtered list should contain exactly 2 students
@@ -16,6 +16,7 @@ root.render(
         <Route path="/" element={<App />} />
         <Route path="/import-success" element={<ImportSuccess />} />
         <Route path="/import-error" element={<ImportError />} />
+        <Route path="/students/:cpf" element={<App />} />
       </Routes>
     </BrowserRouter>
   </React.StrictMode>
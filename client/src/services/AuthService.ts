@@ -0,0 +1,62 @@
+import { LoginResponse, User } from '../types/User';
+import { apiFetch, clearAuthToken, getAuthToken, setAuthToken } from './apiFetch';
+
+const API_BASE_URL = 'http://localhost:3005';
+
+class AuthService {
+  static async login(username: string, password: string): Promise<User> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to log in');
+      }
+
+      const data: LoginResponse = await response.json();
+      setAuthToken(data.token);
+      return data.user;
+    } catch (error) {
+      console.error('Error logging in:', error);
+      throw error;
+    }
+  }
+
+  static async logout(): Promise<void> {
+    try {
+      await apiFetch(`${API_BASE_URL}/api/auth/logout`, { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    } finally {
+      clearAuthToken();
+    }
+  }
+
+  // User of the stored session, or null when nobody is logged in
+  static async getCurrentUser(): Promise<User | null> {
+    if (!getAuthToken()) {
+      return null;
+    }
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/auth/me`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return response.json();
+    } catch (error) {
+      console.error('Error fetching current user:', error);
+      throw error;
+    }
+  }
+}
+
+export default AuthService;
@@ -1,12 +1,29 @@
 import { Class } from '../types/Class';
-import { ReportData } from '../types/Report';
+import { ClassComparisonResult, GradebookExportFormat, ReportData, ReportExportFormat, ReportQuery } from '../types/Report';
+import { EspecificacaoDoCalculoDaMedia } from '../types/EspecificacaoDoCalculoDaMedia';
+import { ApprovalCriteria } from '../types/ApprovalCriteria';
+import { apiFetch } from './apiFetch';
 
 const API_BASE_URL = 'http://localhost:3005';
 
+// Query string of the report students query (empty when nothing is set)
+const reportQueryString = (query: ReportQuery = {}): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.statuses && query.statuses.length > 0) params.set('status', query.statuses.join(','));
+  if (query.belowAverage) params.set('belowAverage', 'true');
+  if (query.threshold !== undefined) params.set('threshold', String(query.threshold));
+  if (query.search) params.set('search', query.search);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.page !== undefined) params.set('page', String(query.page));
+  if (query.pageSize !== undefined) params.set('pageSize', String(query.pageSize));
+  return params;
+};
+
 class ClassService {
   static async getAllClasses(): Promise<Class[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes`);
+      const response = await apiFetch(`${API_BASE_URL}/api/classes`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch classes');
@@ -20,9 +37,9 @@ class ClassService {
     }
   }
 
-  static async addClass(classData: Omit<Class, 'id' | 'enrollments'>): Promise<Class> {
+  static async addClass(classData: Omit<Class, 'id' | 'legacyId' | 'goals' | 'approvalCriteria' | 'enrollments'>): Promise<Class> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -42,9 +59,9 @@ class ClassService {
     }
   }
 
-  static async updateClass(classId: string, classData: Omit<Class, 'id' | 'enrollments'>): Promise<Class> {
+  static async updateClass(classId: string, classData: Omit<Class, 'id' | 'legacyId' | 'goals' | 'approvalCriteria' | 'enrollments'>): Promise<Class> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -66,7 +83,7 @@ class ClassService {
 
   static async deleteClass(classId: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}`, {
         method: 'DELETE',
       });
       
@@ -80,9 +97,10 @@ class ClassService {
     }
   }
 
-  static async getClassReport(classId: string): Promise<ReportData> {
+  static async getClassReport(classId: string, query?: ReportQuery): Promise<ReportData> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/report`);
+      const params = reportQueryString(query).toString();
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/report${params ? `?${params}` : ''}`);
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -96,6 +114,140 @@ class ClassService {
     }
   }
 
+  // Reports of the classes side by side, with the performance in each goal compared across them
+  static async compareClasses(classIds: string[]): Promise<ClassComparisonResult> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/compare-classes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ classIds }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to compare classes');
+      }
+
+      return response.json();
+    } catch (error) {
+      console.error('Error comparing classes:', error);
+      throw error;
+    }
+  }
+
+  // The report as a file (CSV, Excel workbook or printable HTML page), with the students matching the query
+  static async exportClassReport(classId: string, format: ReportExportFormat, query?: ReportQuery): Promise<Blob> {
+    try {
+      const params = reportQueryString(query);
+      params.set('format', format);
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/report?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export class report');
+      }
+
+      return response.blob();
+    } catch (error) {
+      console.error('Error exporting class report:', error);
+      throw error;
+    }
+  }
+
+  static async exportGradebook(classId: string, format: GradebookExportFormat): Promise<Blob> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/gradebook.${format}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export gradebook');
+      }
+
+      return response.blob();
+    } catch (error) {
+      console.error('Error exporting gradebook:', error);
+      throw error;
+    }
+  }
+
+  static async getEspecificacao(classId: string): Promise<EspecificacaoDoCalculoDaMedia> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/especificacao`);
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch grading specification');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error fetching grading specification:', error);
+      throw error;
+    }
+  }
+
+  static async updateEspecificacao(classId: string, especificacao: EspecificacaoDoCalculoDaMedia): Promise<EspecificacaoDoCalculoDaMedia> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/especificacao`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(especificacao),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update grading specification');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error updating grading specification:', error);
+      throw error;
+    }
+  }
+
+  static async getApprovalCriteria(classId: string): Promise<ApprovalCriteria> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/approval-criteria`);
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch approval criteria');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error fetching approval criteria:', error);
+      throw error;
+    }
+  }
+
+  static async updateApprovalCriteria(classId: string, criteria: Partial<ApprovalCriteria>): Promise<ApprovalCriteria> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/approval-criteria`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(criteria),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update approval criteria');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error updating approval criteria:', error);
+      throw error;
+    }
+  }
+
 }
 
 // Utility: Fetch multiple class reports and handle errors for comparison scenarios
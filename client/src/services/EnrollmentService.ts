@@ -1,11 +1,14 @@
-import { Enrollment } from '../types/Enrollment';
+import { BulkEnrollmentResult, Enrollment } from '../types/Enrollment';
+import { EvaluationChange, GradeChange } from '../types/Evaluation';
+import { GradeImportColumns, GradeImportMapping, GradeImportResult } from '../types/GradeImport';
+import { apiFetch } from './apiFetch';
 
 const API_BASE_URL = 'http://localhost:3005';
 
 class EnrollmentService {
   static async enrollStudent(classId: string, studentCPF: string): Promise<Enrollment> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/enroll`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enroll`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -27,7 +30,7 @@ class EnrollmentService {
 
   static async unenrollStudent(classId: string, studentCPF: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/enroll/${studentCPF}`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enroll/${studentCPF}`, {
         method: 'DELETE',
       });
       
@@ -41,14 +44,16 @@ class EnrollmentService {
     }
   }
 
-  static async enrollStudentsBulk(classId: string, file: File): Promise<{ importedCount: number, rejectedCount: number }> {
+  // In a dry run the server only reports what would happen to each row
+  static async enrollStudentsBulk(classId: string, file: File, dryRun: boolean = false): Promise<BulkEnrollmentResult> {
     try {
       // Create FormData and append the file
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
 
       // Make POST request to bulk enrollment endpoint
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/enroll-bulk`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enroll-bulk`, {
         method: 'POST',
         body: formData,
         // Note: Do NOT set Content-Type header - browser will set it automatically with boundary
@@ -60,7 +65,7 @@ class EnrollmentService {
         throw new Error(errorData.error || 'Failed to enroll students in bulk');
       }
       
-      // Return success response with counters
+      // Return the counters and the outcome of every row
       return response.json();
     } catch (error) {
       console.error('Error enrolling students in bulk:', error);
@@ -70,7 +75,7 @@ class EnrollmentService {
 
   static async getClassEnrollments(classId: string): Promise<Enrollment[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/enrollments`);
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enrollments`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch enrollments');
@@ -86,7 +91,7 @@ class EnrollmentService {
 
   static async updateEvaluation(classId: string, studentCPF: string, goal: string, grade: string): Promise<Enrollment> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/classes/${classId}/enrollments/${studentCPF}/evaluation`, {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enrollments/${studentCPF}/evaluation`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -105,6 +110,120 @@ class EnrollmentService {
       throw error;
     }
   }
+
+  static async updateFinalExam(classId: string, studentCPF: string, grade: number | null): Promise<Enrollment> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enrollments/${studentCPF}/final-exam`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ grade }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update final exam grade');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error updating final exam grade:', error);
+      throw error;
+    }
+  }
+
+  // Apply several grade changes at once; if any is invalid the server applies none of them
+  // The optional reason is recorded in the grade history of every change
+  static async updateEvaluations(classId: string, changes: EvaluationChange[], reason?: string): Promise<Enrollment[]> {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/evaluations`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ changes, reason: reason || undefined }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const details = (errorData.invalidChanges ?? [])
+          .map((invalid: { index: number; error: string }) =>
+            `${changes[invalid.index]?.studentCPF} / ${changes[invalid.index]?.goal}: ${invalid.error}`);
+        throw new Error([errorData.error || 'Failed to update evaluations', ...details].join('; '));
+      }
+
+      return response.json();
+    } catch (error) {
+      console.error('Error updating evaluations:', error);
+      throw error;
+    }
+  }
+
+  static async getEvaluationHistory(classId: string, studentCPF: string, goal?: string): Promise<GradeChange[]> {
+    try {
+      const query = goal ? `?goal=${encodeURIComponent(goal)}` : '';
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/${classId}/enrollments/${studentCPF}/history${query}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch grade history');
+      }
+
+      return response.json();
+    } catch (error) {
+      console.error('Error fetching grade history:', error);
+      throw error;
+    }
+  }
+
+  // First phase of the grade import: read the spreadsheet header and the class goals
+  static async getGradeImportColumns(classId: string, file: File): Promise<GradeImportColumns> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/gradeImport/${classId}`, {
+        method: 'POST',
+        body: formData,
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to read spreadsheet columns');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error reading spreadsheet columns:', error);
+      throw error;
+    }
+  }
+
+  // Second phase of the grade import: apply the grades of the mapped columns
+  static async importGrades(classId: string, file: File, mapping: GradeImportMapping, cpfColumn: string): Promise<GradeImportResult> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mapping', JSON.stringify(mapping));
+      formData.append('cpfColumn', cpfColumn);
+
+      const response = await apiFetch(`${API_BASE_URL}/api/classes/gradeImport/${classId}`, {
+        method: 'POST',
+        body: formData,
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to import grades');
+      }
+      
+      return response.json();
+    } catch (error) {
+      console.error('Error importing grades:', error);
+      throw error;
+    }
+  }
 }
 
-export default EnrollmentService;
\ No newline at end of file
+export default EnrollmentService;
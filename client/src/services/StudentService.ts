@@ -1,4 +1,7 @@
-import { Student, CreateStudentRequest, UpdateStudentRequest } from '../types/Student';
+import { Student, CreateStudentRequest, UpdateStudentRequest, StudentQuery, StudentPage } from '../types/Student';
+import { StudentClassSummary, StudentHistory } from '../types/Report';
+import { StudentImportOptions, StudentImportResult } from '../types/StudentImport';
+import { apiFetch } from './apiFetch';
 
 export class StudentService {
   private readonly baseUrl = 'http://localhost:3005/api/students';
@@ -6,7 +9,7 @@ export class StudentService {
   // Get all students
   async getAllStudents(): Promise<Student[]> {
     try {
-      const response = await fetch(this.baseUrl);
+      const response = await apiFetch(this.baseUrl);
       if (!response.ok) {
         throw new Error(`Failed to fetch students: ${response.statusText}`);
       }
@@ -17,10 +20,32 @@ export class StudentService {
     }
   }
 
+  // Get one page of the students matching the query
+  async searchStudents(query: StudentQuery, pageSize: number): Promise<StudentPage> {
+    try {
+      const params = new URLSearchParams({ pageSize: String(pageSize) });
+      if (query.search) params.set('search', query.search);
+      if (query.sort) params.set('sort', query.sort);
+      if (query.order) params.set('order', query.order);
+      if (query.classId) params.set('classId', query.classId);
+      if (query.page !== undefined) params.set('page', String(query.page));
+
+      const response = await apiFetch(`${this.baseUrl}?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to fetch students: ${response.statusText}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching students:', error);
+      throw error;
+    }
+  }
+
   // Get student by CPF
   async getStudentByCPF(cpf: string): Promise<Student> {
     try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`);
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch student: ${response.statusText}`);
       }
@@ -34,7 +59,7 @@ export class StudentService {
   // Create a new student
   async createStudent(student: CreateStudentRequest): Promise<Student> {
     try {
-      const response = await fetch(this.baseUrl, {
+      const response = await apiFetch(this.baseUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -57,7 +82,7 @@ export class StudentService {
   // Update student by CPF
   async updateStudent(cpf: string, updates: UpdateStudentRequest): Promise<Student> {
     try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`, {
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -77,10 +102,37 @@ export class StudentService {
     }
   }
 
+  // Register the students of a spreadsheet (.xlsx or .csv), optionally enrolling them into a class
+  async importStudents(file: File, options: StudentImportOptions): Promise<StudentImportResult> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('updateExisting', String(options.updateExisting));
+      if (options.classId) {
+        formData.append('classId', options.classId);
+      }
+
+      const response = await apiFetch(`${this.baseUrl}/import`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to import students: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error importing students:', error);
+      throw error;
+    }
+  }
+
   // Delete student by CPF
   async deleteStudent(cpf: string): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`, {
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}`, {
         method: 'DELETE',
       });
 
@@ -97,7 +149,7 @@ export class StudentService {
   // Update evaluation for a specific student and goal
   async updateEvaluation(cpf: string, goal: string, grade: string): Promise<Student> {
     try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(cpf)}/evaluation`, {
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}/evaluation`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -116,6 +168,40 @@ export class StudentService {
       throw error;
     }
   }
+
+  // Get the grades, average and status of a student in each class they're enrolled in
+  async getStudentGrades(cpf: string): Promise<StudentClassSummary[]> {
+    try {
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}/grades`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to fetch grades: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching grades:', error);
+      throw error;
+    }
+  }
+
+  // Get every class of a student, oldest first, with their approvals, failures and overall average
+  async getStudentHistory(cpf: string): Promise<StudentHistory> {
+    try {
+      const response = await apiFetch(`${this.baseUrl}/${encodeURIComponent(cpf)}/history`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to fetch history: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching history:', error);
+      throw error;
+    }
+  }
 }
 
 // Export a singleton instance
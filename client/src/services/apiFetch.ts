@@ -0,0 +1,41 @@
+const TOKEN_STORAGE_KEY = 'auth-token';
+
+type SessionEndedListener = () => void;
+const sessionEndedListeners = new Set<SessionEndedListener>();
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string): void => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+};
+
+export const clearAuthToken = (): void => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+// Register a callback for when the server rejects the stored token (expired session,
+// logged out elsewhere); returns a function that removes it
+export const onSessionEnded = (listener: SessionEndedListener): (() => void) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+// fetch that sends the session token and ends the local session when the server answers 401
+export const apiFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+
+  if (response.status === 401 && token) {
+    clearAuthToken();
+    sessionEndedListeners.forEach(listener => listener());
+  }
+
+  return response;
+};
@@ -2,6 +2,7 @@ import { Given, When, Then, Before, After, setDefaultTimeout } from '@cucumber/c
 import { Page } from 'puppeteer';
 import expect from 'expect';
 import { getPage } from '../shared-browser';
+import { apiFetch, logInPage } from '../support/api';
 
 setDefaultTimeout(60 * 1000);
 
@@ -16,6 +17,7 @@ let createdStudentCPFs: string[] = [];
 
 Before({ tags: '@gui-report' }, async function () {
   page = await getPage();
+  await logInPage(page);
   currentClassId = null;
   createdStudentCPFs = [];
 });
@@ -35,7 +37,7 @@ async function cleanup(): Promise<void> {
   
   for (const cpf of createdStudentCPFs) {
     try {
-      const response = await fetch(`${SERVER_URL}/api/students/${cpf}`, { method: 'DELETE' });
+      const response = await apiFetch(`${SERVER_URL}/api/students/${cpf}`, { method: 'DELETE' });
       if (!response.ok) {
         cleanupErrors.push(`Failed to delete student ${cpf}: ${response.status}`);
       }
@@ -47,7 +49,7 @@ async function cleanup(): Promise<void> {
 
   if (currentClassId) {
     try {
-      const response = await fetch(`${SERVER_URL}/api/classes/${currentClassId}`, { method: 'DELETE' });
+      const response = await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}`, { method: 'DELETE' });
       if (!response.ok) {
         cleanupErrors.push(`Failed to delete class ${currentClassId}: ${response.status}`);
       }
@@ -64,7 +66,7 @@ async function cleanup(): Promise<void> {
 
 async function createClassViaAPI(topic: string): Promise<string> {
   const uniqueTopic = `${topic} ${Date.now()}`;
-  const response = await fetch(`${SERVER_URL}/api/classes`, {
+  const response = await apiFetch(`${SERVER_URL}/api/classes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ topic: uniqueTopic, semester: 1, year: 2025 })
@@ -77,7 +79,7 @@ async function createClassViaAPI(topic: string): Promise<string> {
 
 async function createStudentViaAPI(name: string, cpf: string): Promise<void> {
   const email = `${name.toLowerCase().replace(/\s+/g, '.')}@test.com`;
-  await fetch(`${SERVER_URL}/api/students`, {
+  await apiFetch(`${SERVER_URL}/api/students`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ name, cpf, email })
@@ -87,7 +89,7 @@ async function createStudentViaAPI(name: string, cpf: string): Promise<void> {
 
 async function enrollStudentViaAPI(cpf: string): Promise<void> {
   if (!currentClassId) throw new Error('No class ID');
-  await fetch(`${SERVER_URL}/api/classes/${currentClassId}/enroll`, {
+  await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}/enroll`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ studentCPF: cpf })
@@ -96,7 +98,7 @@ async function enrollStudentViaAPI(cpf: string): Promise<void> {
 
 async function addGradeViaAPI(cpf: string, goal: string, grade: string): Promise<void> {
   if (!currentClassId) throw new Error('No class ID');
-  await fetch(`${SERVER_URL}/api/classes/${currentClassId}/enrollments/${cpf}/evaluation`, {
+  await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}/enrollments/${cpf}/evaluation`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ goal, grade })
@@ -215,8 +217,8 @@ Given('a class exists with {string} students', async function (count: string) {
 
 Given('a class exists with a student who has {string}', async function (_condition: string) {
   await createClassViaAPI('No Evaluations Test Class');
-  await createStudentViaAPI('Unevaluated Student', '44444444401');
-  await enrollStudentViaAPI('44444444401');
+  await createStudentViaAPI('Unevaluated Student', '44444440104');
+  await enrollStudentViaAPI('44444440104');
 });
 
 Given('a class exists with:', async function (dataTable: any) {
@@ -247,30 +249,30 @@ Given('a class exists with:', async function (dataTable: any) {
 
 Given('a class exists where the {string} goal has an average of {string}', async function (goal: string, _average: string) {
   await createClassViaAPI('Bar Chart Test Class');
-  await createStudentViaAPI('Bar Test Student', '66666660001');
-  await enrollStudentViaAPI('66666660001');
-  await addGradeViaAPI('66666660001', goal, 'MA');
+  await createStudentViaAPI('Bar Test Student', '66666660030');
+  await enrollStudentViaAPI('66666660030');
+  await addGradeViaAPI('66666660030', goal, 'MA');
 });
 
 Given('a class exists with students', async function () {
   await createClassViaAPI('Students Test Class');
-  await createStudentViaAPI('Test Student', '77777770001');
-  await enrollStudentViaAPI('77777770001');
+  await createStudentViaAPI('Test Student', '77777770098');
+  await enrollStudentViaAPI('77777770098');
 });
 
 Given('a class exists with students of mixed statuses', async function () {
   await createClassViaAPI('Mixed Status Test Class');
 
-  await createStudentViaAPI('Green Student', '33333330001');
-  await enrollStudentViaAPI('33333330001');
-  await addAllGradesForStatus('33333330001', 'MA');
+  await createStudentViaAPI('Green Student', '33333300168');
+  await enrollStudentViaAPI('33333300168');
+  await addAllGradesForStatus('33333300168', 'MA');
 
-  await createStudentViaAPI('Red Student', '33333330002');
-  await enrollStudentViaAPI('33333330002');
-  await addAllGradesForStatus('33333330002', 'MANA');
+  await createStudentViaAPI('Red Student', '33333300249');
+  await enrollStudentViaAPI('33333300249');
+  await addAllGradesForStatus('33333300249', 'MANA');
 
-  await createStudentViaAPI('Yellow Student', '33333330003');
-  await enrollStudentViaAPI('33333330003');
+  await createStudentViaAPI('Yellow Student', '33333300320');
+  await enrollStudentViaAPI('33333300320');
 });
 
 Given('I am on the Classes page', async function () {
@@ -2,6 +2,7 @@ import { Given, When, Then, Before, After, DataTable, setDefaultTimeout } from '
 import { Page } from 'puppeteer';
 import expect from 'expect';
 import { getPage } from './shared-browser';
+import { apiFetch, logInPage } from './support/api';
 
 setDefaultTimeout(60 * 1000);
 
@@ -20,6 +21,7 @@ Before({ tags: '@gui-report' }, async function () {
   createdCpfs = [];
   currentClassName = '';
   page = await getPage();
+  await logInPage(page);
 });
 
 After({ tags: '@gui-report' }, async function () {
@@ -28,7 +30,7 @@ After({ tags: '@gui-report' }, async function () {
     
     for (const cpf of createdCpfs) {
       try {
-        const response = await fetch(`${SERVER_URL}/api/students/${cpf}`, { method: 'DELETE' });
+        const response = await apiFetch(`${SERVER_URL}/api/students/${cpf}`, { method: 'DELETE' });
         if (!response.ok) {
           cleanupErrors.push(`Failed to delete student ${cpf}: ${response.status}`);
         }
@@ -39,7 +41,7 @@ After({ tags: '@gui-report' }, async function () {
     
     if (currentClassId) {
       try {
-        const response = await fetch(`${SERVER_URL}/api/classes/${currentClassId}`, { method: 'DELETE' });
+        const response = await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}`, { method: 'DELETE' });
         if (!response.ok) {
           cleanupErrors.push(`Failed to delete class ${currentClassId}: ${response.status}`);
         }
@@ -87,7 +89,7 @@ Given('a class exists with name {string} for GUI testing', async function (class
   const uniqueTopic = `${className} ${Date.now()}`;
   currentClassName = uniqueTopic;
   
-  const response = await fetch(`${SERVER_URL}/api/classes`, {
+  const response = await apiFetch(`${SERVER_URL}/api/classes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -108,22 +110,22 @@ Given('the following students have evaluations for the GUI test:', async functio
   const rows = dataTable.hashes();
 
   for (const row of rows) {
-    await fetch(`${SERVER_URL}/api/students/${row.cpf}`, { method: 'DELETE' }).catch(() => {});
+    await apiFetch(`${SERVER_URL}/api/students/${row.cpf}`, { method: 'DELETE' }).catch(() => {});
 
-    await fetch(`${SERVER_URL}/api/students`, {
+    await apiFetch(`${SERVER_URL}/api/students`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ name: row.name, cpf: row.cpf, email: `${row.name}@test.com` })
     });
     createdCpfs.push(row.cpf);
 
-    await fetch(`${SERVER_URL}/api/classes/${currentClassId}/enroll`, {
+    await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}/enroll`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ studentCPF: row.cpf })
     });
 
-    const evalRes = await fetch(`${SERVER_URL}/api/classes/${currentClassId}/enrollments/${row.cpf}/evaluation`, {
+    const evalRes = await apiFetch(`${SERVER_URL}/api/classes/${currentClassId}/enrollments/${row.cpf}/evaluation`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ goal: 'Filter Test', grade: row.gradeType })
@@ -183,8 +185,8 @@ When('I click on the report button for the class {string}', async function (_cla
 When('I select {string} in the filter dropdown', async function (optionText: string) {
   const valueMap: Record<string, string> = {
     'Approved': 'APPROVED',
-    'Below Class Average': 'BELOW_AVG',
-    'Below specific grade...': 'BELOW_X'
+    'Below Class Average': 'BELOW_AVERAGE',
+    'Below specific grade...': 'BELOW_THRESHOLD'
   };
   const value = valueMap[optionText] || 'ALL';
 
@@ -1,5 +1,6 @@
 import { Given, When, Then, After, DataTable, setDefaultTimeout } from '@cucumber/cucumber';
 import expect from 'expect';
+import { apiFetch } from './support/api';
 
 setDefaultTimeout(30 * 1000);
 
@@ -13,14 +14,14 @@ let createdCpfs: string[] = [];
 After({ tags: '@server' }, async function () {
   if (currentClassId) {
     try {
-      await fetch(`${serverUrl}/api/classes/${currentClassId}`, { method: 'DELETE' });
+      await apiFetch(`${serverUrl}/api/classes/${currentClassId}`, { method: 'DELETE' });
     } catch (e) {}
   }
   
   if (createdCpfs.length > 0) {
     for (const cpf of createdCpfs) {
       try {
-        await fetch(`${serverUrl}/api/students/${cpf}`, { method: 'DELETE' });
+        await apiFetch(`${serverUrl}/api/students/${cpf}`, { method: 'DELETE' });
       } catch (e) {}
     }
     createdCpfs = [];
@@ -28,7 +29,7 @@ After({ tags: '@server' }, async function () {
 });
 
 Given('a class exists with name {string}', async function (className: string) {
-  const response = await fetch(`${serverUrl}/api/classes`, {
+  const response = await apiFetch(`${serverUrl}/api/classes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -56,9 +57,9 @@ Given('the following students have evaluations in this class:', async function (
   const rows = dataTable.hashes();
 
   for (const row of rows) {
-    await fetch(`${serverUrl}/api/students/${row.cpf}`, { method: 'DELETE' }).catch(() => {});
+    await apiFetch(`${serverUrl}/api/students/${row.cpf}`, { method: 'DELETE' }).catch(() => {});
 
-    const studentRes = await fetch(`${serverUrl}/api/students`, {
+    const studentRes = await apiFetch(`${serverUrl}/api/students`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
@@ -73,7 +74,7 @@ Given('the following students have evaluations in this class:', async function (
     }
     createdCpfs.push(row.cpf);
 
-    const enrollRes = await fetch(`${serverUrl}/api/classes/${currentClassId}/enroll`, {
+    const enrollRes = await apiFetch(`${serverUrl}/api/classes/${currentClassId}/enroll`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ studentCPF: row.cpf })
@@ -85,7 +86,7 @@ Given('the following students have evaluations in this class:', async function (
 
     const evalUrl = `${serverUrl}/api/classes/${currentClassId}/enrollments/${row.cpf}/evaluation`;
     
-    const evalRes = await fetch(evalUrl, {
+    const evalRes = await apiFetch(evalUrl, {
       method: 'PUT', 
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -103,7 +104,7 @@ Given('the following students have evaluations in this class:', async function (
 When('I request the class report', async function () {
   if (!currentClassId) throw new Error("ID da turma não definido.");
 
-  const response = await fetch(`${serverUrl}/api/classes/${currentClassId}/report`);
+  const response = await apiFetch(`${serverUrl}/api/classes/${currentClassId}/report`);
   
   if (!response.ok) {
     throw new Error(`Falha ao buscar relatório. Status: ${response.status}`);
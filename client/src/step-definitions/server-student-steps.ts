@@ -1,5 +1,6 @@
 import { Given, When, Then, After, DataTable, setDefaultTimeout } from '@cucumber/cucumber';
 import expect from 'expect';
+import { apiFetch } from './support/api';
 
 // Set default timeout for all steps
 setDefaultTimeout(30 * 1000); // 30 seconds
@@ -16,7 +17,7 @@ After({ tags: '@server' }, async function () {
   if (testStudentCPF) {
     try {
       // testStudentCPF is already formatted, use it directly
-      await fetch(`${serverUrl}/api/students/${testStudentCPF}`, {
+      await apiFetch(`${serverUrl}/api/students/${testStudentCPF}`, {
         method: 'DELETE'
       });
       console.log(`Server cleanup: Removed test student with CPF: ${testStudentCPF}`);
@@ -29,7 +30,7 @@ After({ tags: '@server' }, async function () {
 
 Given('the server API is available', async function () {
   try {
-    const response = await fetch(`${serverUrl}/api/students`);
+    const response = await apiFetch(`${serverUrl}/api/students`);
     expect(response.status).toBe(200);
   } catch (error) {
     throw new Error('Server is not available. Make sure the backend server is running on port 3005');
@@ -41,7 +42,7 @@ Given('there is no student with CPF {string} in the server', async function (cpf
   
   // Try to delete the student if it exists (cleanup before test)
   try {
-    await fetch(`${serverUrl}/api/students/${cpf}`, {
+    await apiFetch(`${serverUrl}/api/students/${cpf}`, {
       method: 'DELETE'
     });
     console.log(`Server setup: Removed any existing student with CPF: ${cpf}`);
@@ -51,7 +52,7 @@ Given('there is no student with CPF {string} in the server', async function (cpf
   
   // Verify student doesn't exist
   try {
-    const response = await fetch(`${serverUrl}/api/students/${cpf}`);
+    const response = await apiFetch(`${serverUrl}/api/students/${cpf}`);
     if (response.status === 200) {
       throw new Error(`Student with CPF ${cpf} already exists in the system`);
     }
@@ -73,7 +74,7 @@ When('I submit a request to create student with:', async function (dataTable: Da
   console.log(`Server test: Creating student with data:`, requestBody);
   
   try {
-    lastResponse = await fetch(`${serverUrl}/api/students`, {
+    lastResponse = await apiFetch(`${serverUrl}/api/students`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -94,7 +95,7 @@ Then('the server should have stored the student with:', async function (dataTabl
   const expectedData = dataTable.rowsHash();
   
   // Fetch the student from the server to verify storage
-  const response = await fetch(`${serverUrl}/api/students/${expectedData.cpf}`);
+  const response = await apiFetch(`${serverUrl}/api/students/${expectedData.cpf}`);
   expect(response.status).toBe(200);
   
   const storedStudent = await response.json();
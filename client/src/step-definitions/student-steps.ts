@@ -1,6 +1,7 @@
 import { Given, When, Then, Before, After, DataTable, setDefaultTimeout } from '@cucumber/cucumber';
 import { Browser, Page, launch } from 'puppeteer';
 import expect from 'expect';
+import { apiFetch, logInPage } from './support/api';
 
 // Set default timeout for all steps
 setDefaultTimeout(30 * 1000); // 30 seconds
@@ -28,6 +29,7 @@ Before({ tags: '@gui' }, async function () {
     slowMo: 50 // Slow down actions for visibility
   });
   page = await browser.newPage();
+  await logInPage(page);
   await page.setViewport({ width: 1280, height: 720 });
 });
 
@@ -84,7 +86,7 @@ Given('the student management system is running', async function () {
 
 Given('the server is available', async function () {
   try {
-    const response = await fetch(`${serverUrl}/api/students`);
+    const response = await apiFetch(`${serverUrl}/api/students`);
     expect(response.status).toBe(200);
   } catch (error) {
     throw new Error('Server is not available. Make sure the backend server is running on port 3005');
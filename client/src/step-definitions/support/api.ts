@@ -0,0 +1,59 @@
+/**
+ * Authenticated access for the step definitions
+ *
+ * Every API route requires a logged-in user, so the scenarios log in once as the
+ * server's professor account (ADMIN_USERNAME / ADMIN_PASSWORD, the same variables
+ * the server reads) and send its token on every request.
+ */
+
+import { Page } from 'puppeteer';
+
+const SERVER_URL = 'http://localhost:3005';
+// Key under which the client keeps the session token (see services/apiFetch.ts)
+const TOKEN_STORAGE_KEY = 'auth-token';
+
+let token: string | null = null;
+const loggedInPages = new WeakSet<Page>();
+
+async function getToken(): Promise<string> {
+  if (token) {
+    return token;
+  }
+
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    throw new Error('Set ADMIN_PASSWORD (and ADMIN_USERNAME if it is not "admin") to the credentials the server was started with');
+  }
+
+  const response = await fetch(`${SERVER_URL}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: process.env.ADMIN_USERNAME || 'admin', password })
+  });
+  if (!response.ok) {
+    throw new Error(`Login failed: ${response.status}`);
+  }
+
+  token = (await response.json()).token as string;
+  return token;
+}
+
+// fetch with the Authorization header of the logged-in professor
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${await getToken()}`);
+  return fetch(url, { ...init, headers });
+}
+
+// Stores the token in the page before any of its documents load, so the app starts logged in
+export async function logInPage(page: Page): Promise<void> {
+  if (loggedInPages.has(page)) {
+    return;
+  }
+
+  const sessionToken = await getToken();
+  await page.evaluateOnNewDocument((key: string, value: string) => {
+    localStorage.setItem(key, value);
+  }, TOKEN_STORAGE_KEY, sessionToken);
+  loggedInPages.add(page);
+}
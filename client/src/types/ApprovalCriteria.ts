@@ -0,0 +1,25 @@
+import { Enrollment } from './Enrollment';
+
+export interface ApprovalCriteria {
+  directApprovalThreshold: number;
+  finalExamEligibilityThreshold: number;
+  postFinalApprovalThreshold: number;
+}
+
+// Mirrors DEFAULT_APPROVAL_THRESHOLDS on the server, used when a class has no criteria of its own
+export const DEFAULT_APPROVAL_CRITERIA: ApprovalCriteria = {
+  directApprovalThreshold: 7.0,
+  finalExamEligibilityThreshold: 3.0,
+  postFinalApprovalThreshold: 5.0
+};
+
+// A student may take the final exam when the pre-final average is in the final exam range
+export const isEligibleForFinalExam = (
+  enrollment: Enrollment,
+  criteria: ApprovalCriteria = DEFAULT_APPROVAL_CRITERIA
+): boolean => {
+  if (enrollment.reprovadoPorFalta) return false;
+  if (enrollment.mediaPreFinal === null || enrollment.mediaPreFinal === undefined) return false;
+  return enrollment.mediaPreFinal >= criteria.finalExamEligibilityThreshold
+    && enrollment.mediaPreFinal < criteria.directApprovalThreshold;
+};
@@ -1,15 +1,25 @@
 import { EspecificacaoDoCalculoDaMedia } from './EspecificacaoDoCalculoDaMedia';
 import { Enrollment } from './Enrollment';
+import { ApprovalCriteria } from './ApprovalCriteria';
 
 export interface Class {
+  // Stable generated id; the legacy composite id is still accepted by the server as an alias
   id: string;
+  legacyId: string;
   topic: string;
   semester: number;
   year: number;
   especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia;
+  goals: string[];
+  approvalCriteria: ApprovalCriteria;
   enrollments: Enrollment[];
 }
 
+export interface Goal {
+  name: string;
+  weight: number;
+}
+
 export interface CreateClassRequest {
   topic: string;
   semester: number;
@@ -23,7 +33,7 @@ export interface UpdateClassRequest {
   year?: number;
 }
 
-// Helper function to generate class ID
+// Helper function to generate the legacy composite class ID (topic-year-semester)
 export const getClassId = (classObj: { topic: string; year: number; semester: number }): string => {
   return `${classObj.topic}-${classObj.year}-${classObj.semester}`;
 };
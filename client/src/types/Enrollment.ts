@@ -4,8 +4,9 @@ import { Evaluation } from './Evaluation';
 export interface Enrollment {
   student: Student;
   evaluations: Evaluation[];
-  mediaPreFinal?: number;
-  mediaPosFinal?: number;
+  mediaPreFinal?: number | null;
+  mediaPosFinal?: number | null;
+  notaDaProvaFinal?: number | null;
   reprovadoPorFalta?: boolean;
 }
 
@@ -22,4 +23,28 @@ export interface UpdateEnrollmentRequest {
   mediaPreFinal?: number;
   mediaPosFinal?: number;
   reprovadoPorFalta?: boolean;
-}
\ No newline at end of file
+}
+export type BulkEnrollmentOutcome = 'enrolled' | 'already_enrolled' | 'unknown_student' | 'malformed_cpf' | 'blank';
+
+export interface BulkEnrollmentRowResult {
+  line: number;
+  // Cell as written in the spreadsheet, and the CPF digits extracted from it
+  raw: string;
+  cpf: string;
+  outcome: BulkEnrollmentOutcome;
+}
+
+// Response of the bulk enrollment; in a dry run nothing was enrolled
+export interface BulkEnrollmentResult {
+  dryRun: boolean;
+  importedCount: number;
+  rejectedCount: number;
+  summary: {
+    enrolled: number;
+    alreadyEnrolled: number;
+    unknownStudent: number;
+    malformedCPF: number;
+    blank: number;
+  };
+  results: BulkEnrollmentRowResult[];
+}
@@ -1,25 +1,34 @@
 export type Grade = 'MANA' | 'MPA' | 'MA';
 type Meta = string;
 
+// Pesos da fórmula da média pós-final (média pré-final x nota da prova final)
+export interface PesosDaMediaPosFinal {
+    mediaPreFinal: number;
+    provaFinal: number;
+}
+
+// Formato JSON usado pela API (objetos simples, não Maps, para sobreviver ao JSON.stringify)
 export interface EspecificacaoDoCalculoDaMedia {
-    pesosDosConceitos: Map<Grade, number>;
-    pesosDasMetas: Map<Meta, number>;
+    pesosDosConceitos: Record<Grade, number>;
+    pesosDasMetas: Record<Meta, number>;
+    pesosDaMediaPosFinal?: PesosDaMediaPosFinal;
 }
 
 // TODO: Verificar após a integração com 'Criação e Manuntenção de Metas' 
 // se ainda é necessário definir um valor default para pesosDasMetas
 export const DEFAULT_ESPECIFICACAO_DO_CALCULO_DE_MEDIA: EspecificacaoDoCalculoDaMedia = {
-    pesosDosConceitos: new Map<Grade, number>([
-        ['MA', 10],
-        ['MPA', 7],
-        ['MANA', 4],
-    ]),
-    pesosDasMetas: new Map<Meta, number>([ 
-        ['Requirements', 1],
-        ['Configuration Management', 1], 
-        ['Project Management', 1],
-        ['Design', 1],
-        ['Tests', 1],
-        ['Refactoring', 1]
-    ]),
+    pesosDosConceitos: {
+        MA: 10,
+        MPA: 7,
+        MANA: 0,
+    },
+    pesosDasMetas: {
+        'Requirements': 1,
+        'Configuration Management': 1,
+        'Project Management': 1,
+        'Design': 1,
+        'Tests': 1,
+        'Refactoring': 1,
+    },
+    pesosDaMediaPosFinal: { mediaPreFinal: 1, provaFinal: 1 },
 };
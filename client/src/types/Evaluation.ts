@@ -5,6 +5,24 @@ export interface Evaluation {
   grade: Grade;
 }
 
+// One entry of the grade change history of an enrollment
+// (oldGrade null: first grade of the goal; newGrade null: grade removed)
+export interface GradeChange {
+  goal: string;
+  oldGrade: Grade | null;
+  newGrade: Grade | null;
+  timestamp: string;
+  actor: string | null;
+  reason: string | null;
+}
+
+// One cell of a batch grade update (empty grade removes the evaluation)
+export interface EvaluationChange {
+  studentCPF: string;
+  goal: string;
+  grade: Grade | '';
+}
+
 // Predefined evaluation goals
 export const EVALUATION_GOALS = [
   'Requirements',
@@ -0,0 +1,32 @@
+import { Grade } from './Evaluation';
+
+// Spreadsheet column -> class goal
+export type GradeImportMapping = Record<string, string>;
+
+// Response of the first phase of the grade import (header only)
+export interface GradeImportColumns {
+  columns: string[];
+  goals: string[];
+  previewRows: Record<string, string>[];
+}
+
+export type GradeImportRowStatus = 'applied' | 'unknown_student' | 'not_enrolled' | 'invalid_grade';
+
+export interface GradeImportRowResult {
+  line: number;
+  cpf: string;
+  status: GradeImportRowStatus;
+  grades?: { goal: string; grade: Grade }[];
+  invalidCells?: { column: string; value: string }[];
+}
+
+// Response of the second phase of the grade import
+export interface GradeImportResult {
+  summary: {
+    applied: number;
+    unknownStudent: number;
+    notEnrolled: number;
+    invalidGrade: number;
+  };
+  results: GradeImportRowResult[];
+}
@@ -1,3 +1,7 @@
+import { Grade } from './Evaluation';
+import { ApprovalCriteria } from './ApprovalCriteria';
+import { Student } from './Student';
+
 export type StudentStatus = 
   | 'APPROVED'
   | 'APPROVED_FINAL'
@@ -16,6 +20,26 @@ export interface EvaluationPerformance {
   evaluatedStudents: number;
 }
 
+// Final grades from `from` (inclusive) to `to` (exclusive, except for the last bucket, which includes 10)
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Descriptive statistics of the final grades of the students that are not pending (null without grades)
+export interface GradeStatistics {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  min: number | null;
+  max: number | null;
+  firstQuartile: number | null;
+  thirdQuartile: number | null;
+  histogram: HistogramBucket[];
+}
+
 export interface StatusCounts {
   approvedCount: number;
   approvedFinalCount: number;
@@ -29,6 +53,37 @@ export interface ReportFilter {
   threshold?: number; 
 }
 
+export type ReportSortKey = 'name' | 'studentId' | 'finalGrade' | 'status';
+
+// Query of the report students, applied by the server (totals and charts always cover the whole class)
+export interface ReportQuery {
+  statuses?: StudentStatus[];
+  belowAverage?: boolean;
+  threshold?: number;
+  // Part of the name or of the CPF
+  search?: string;
+  sort?: ReportSortKey;
+  order?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+// Query parameters of a report filter
+export const reportFilterToQuery = (filter: ReportFilter): ReportQuery => {
+  switch (filter.type) {
+    case 'ALL':
+      return {};
+    case 'APPROVED':
+      return { statuses: ['APPROVED', 'APPROVED_FINAL'] };
+    case 'BELOW_AVERAGE':
+      return { belowAverage: true };
+    case 'BELOW_THRESHOLD':
+      return filter.threshold !== undefined ? { threshold: filter.threshold } : {};
+    default:
+      return { statuses: [filter.type] };
+  }
+};
+
 export interface StudentEntry {
   studentId: string;
   name: string;
@@ -36,6 +91,43 @@ export interface StudentEntry {
   status: StudentStatus;
 }
 
+export interface FinalExamOutlook {
+  eligible: boolean;
+  grade: number | null;
+  // Final exam grade needed to reach the post-final approval threshold
+  requiredGrade: number | null;
+}
+
+// Report entry of a single student in one class (GET /api/students/:cpf/grades)
+export interface StudentClassSummary extends StudentEntry {
+  classId: string;
+  topic: string;
+  semester: number;
+  year: number;
+  goals: { goal: string; grade: Grade | null }[];
+  average: number | null;
+  approvalCriteria: ApprovalCriteria;
+  finalExam: FinalExamOutlook;
+}
+
+export interface StudentHistorySummary {
+  classesTaken: number;
+  // Approved directly or after the final exam
+  approvals: number;
+  // Failed by grade or by absence
+  failures: number;
+  pending: number;
+  // Mean of the final grades of the classes that are not pending
+  overallAverage: number | null;
+}
+
+// Trajectory of a student: every class they're enrolled in, oldest first
+export interface StudentHistory {
+  student: Student;
+  classes: StudentClassSummary[];
+  summary: StudentHistorySummary;
+}
+
 export interface ReportData {
   classId: string;
   topic: string;
@@ -43,6 +135,7 @@ export interface ReportData {
   year: number;
   totalEnrolled: number;
   studentsAverage: number | null;
+  gradeStatistics: GradeStatistics;
   approvedCount: number;
   approvedFinalCount: number;
   notApprovedCount: number;
@@ -51,4 +144,27 @@ export interface ReportData {
   evaluationPerformance: EvaluationPerformance[];
   students: StudentEntry[]; 
   generatedAt: Date;
-}
\ No newline at end of file
+  // Students matching the query and the page of them returned in students
+  filteredCount?: number;
+  page?: number;
+  pageSize?: number;
+  totalPages?: number;
+}
+
+// Performance of one goal in each compared class, keyed by class id (null when the class doesn't have the goal)
+export interface GoalComparison {
+  goal: string;
+  classes: { [classId: string]: EvaluationPerformance | null };
+}
+
+export interface ClassComparisonResult {
+  classIds: string[];
+  comparisonData: { [classId: string]: ReportData };
+  goalComparison: GoalComparison[];
+}
+
+// File formats the class report can be exported to
+export type ReportExportFormat = 'csv' | 'xlsx' | 'html';
+
+// File formats of the gradebook (every student's goal grades, averages and status)
+export type GradebookExportFormat = 'xlsx' | 'csv';
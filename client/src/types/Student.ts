@@ -13,4 +13,51 @@ export interface CreateStudentRequest {
 export interface UpdateStudentRequest {
   name?: string;
   email?: string;
-}
\ No newline at end of file
+}
+
+export type StudentSortKey = 'name' | 'cpf';
+
+// Query of the student registry, applied by the server
+export interface StudentQuery {
+  // Part of the name, email or CPF
+  search?: string;
+  sort?: StudentSortKey;
+  order?: 'asc' | 'desc';
+  // Only the students enrolled in this class
+  classId?: string;
+  page?: number;
+}
+
+export interface StudentPage {
+  items: Student[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+// Mirrors the server check (models/CPF.ts): 11 digits whose last two are the official
+// verification digits, and not all digits equal. Returns the problem, or null if the CPF is valid.
+export const validateCPF = (cpf: string): string | null => {
+  const digits = cpf.replace(/\D/g, '');
+  if (digits.length !== 11) {
+    return 'CPF must have 11 digits';
+  }
+  if (/^(\d)\1{10}$/.test(digits)) {
+    return 'Invalid CPF check digits';
+  }
+
+  const numbers = digits.split('').map(Number);
+  const checkDigit = (length: number): number => {
+    const sum = numbers
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+
+  if (checkDigit(9) !== numbers[9] || checkDigit(10) !== numbers[10]) {
+    return 'Invalid CPF check digits';
+  }
+  return null;
+};
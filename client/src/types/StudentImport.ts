@@ -0,0 +1,30 @@
+export type StudentImportRowStatus = 'created' | 'updated' | 'unchanged' | 'invalid' | 'duplicate';
+
+export interface StudentImportRowResult {
+  line: number;
+  name: string;
+  cpf: string;
+  email: string;
+  status: StudentImportRowStatus;
+  error?: string;
+  enrollment?: 'enrolled' | 'already_enrolled';
+}
+
+export interface StudentImportOptions {
+  // Overwrite name and email of students already registered
+  updateExisting: boolean;
+  // Class to enroll the imported students into
+  classId?: string;
+}
+
+export interface StudentImportResult {
+  summary: {
+    created: number;
+    updated: number;
+    unchanged: number;
+    invalid: number;
+    duplicate: number;
+    enrolled: number;
+  };
+  results: StudentImportRowResult[];
+}
@@ -0,0 +1,21 @@
+export type UserRole = 'professor' | 'teaching_assistant' | 'student';
+
+export interface User {
+  username: string;
+  name: string;
+  role: UserRole;
+  // CPF of the linked student (student accounts only)
+  studentCPF: string | null;
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  professor: 'Professor',
+  teaching_assistant: 'Teaching Assistant',
+  student: 'Student'
+};
@@ -0,0 +1,26 @@
+import { downloadBlob } from './downloadUtils';
+
+/**
+ * Builds CSV text from rows of cells, quoting cells that contain separators, quotes or line breaks.
+ *
+ * @param rows - Rows of cells, the first one usually being the header
+ * @returns CSV text
+ */
+export const toCSV = (rows: (string | number)[][]): string => {
+  const escapeCell = (cell: string | number) => {
+    const text = String(cell);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escapeCell).join(',')).join('\n');
+};
+
+/**
+ * Makes the browser download the given CSV text as a file.
+ *
+ * @param fileName - Name of the downloaded file
+ * @param csv - CSV text
+ */
+export const downloadCSV = (fileName: string, csv: string): void => {
+  // The BOM makes spreadsheet programs read accented characters as UTF-8
+  downloadBlob(fileName, new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+};
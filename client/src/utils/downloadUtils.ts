@@ -0,0 +1,14 @@
+/**
+ * Makes the browser download the given content as a file.
+ *
+ * @param fileName - Name of the downloaded file
+ * @param blob - File content
+ */
+export const downloadBlob = (fileName: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1 +1,3 @@
 export * from './textUtils';
+export * from './csvUtils';
+export * from './downloadUtils';
@@ -13,6 +13,7 @@ Before(() => {
     classes: [],
     comparisonResponse: null
   };
+  cy.login();
 });
 
 After(() => {
@@ -37,7 +38,18 @@ Given('both classes exist in the system', () => {
 
 Given('both classes have enrolled students', () => {
   // create two students per class and enroll them using server endpoints
-  const generateCPF = () => Math.floor(10000000000 + Math.random() * 90000000000).toString();
+  // random CPF whose two check digits pass the server validation
+  const generateCPF = () => {
+    const digits = Array.from({ length: 9 }, () => Math.floor(Math.random() * 10));
+    const checkDigit = () => {
+      const sum = digits.reduce((total, digit, index) => total + digit * (digits.length + 1 - index), 0);
+      const remainder = (sum * 10) % 11;
+      return remainder === 10 ? 0 : remainder;
+    };
+    digits.push(checkDigit());
+    digits.push(checkDigit());
+    return digits.join('');
+  };
 
   testContext.classes.forEach((className) => {
     const classId = testContext.classesInfo && testContext.classesInfo[className];
@@ -17,7 +17,7 @@ const CLIENT_BASE_URL = 'http://localhost:3004';
 
 /**
  * Before hook - runs before each scenario
- * Initializes test context
+ * Initializes test context and logs in for the API calls and page visits
  */
 Before(function () {
   testContext = {
@@ -26,6 +26,7 @@ Before(function () {
     createdClassId: null,
     createdStudentCPFs: []
   };
+  cy.login();
 });
 
 /**
@@ -39,7 +40,7 @@ After(function () {
   // Store context locally before reset
   const classId = testContext.createdClassId;
   const studentCPFs = [...testContext.createdStudentCPFs];
-  const allTestCPFs = ['11111122222', '33333444444', '09876543212'];
+  const allTestCPFs = ['11111122237', '33333444402', '09876543229'];
   const currentYear = new Date().getFullYear();
   const testClassIds = [
     `Class A-${currentYear}-1`,
@@ -114,7 +115,7 @@ After(function () {
 
 /**
  * Given: User is logged in and on the Classes page
- * Note: Since there's no authentication system yet, we just visit the base URL
+ * The Before hook logged in, so the app opens with the professor's session
  */
 Given('I am logged in as a teacher and on the "Classes" page', function () {
   cy.visit(CLIENT_BASE_URL);
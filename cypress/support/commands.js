@@ -5,6 +5,62 @@
 // API Base URL
 const API_BASE_URL = 'http://localhost:3005';
 
+// Key under which the client keeps the session token (see client/src/services/apiFetch.ts)
+const TOKEN_STORAGE_KEY = 'auth-token';
+
+// Token of the logged-in professor, sent on every API request and given to every visited page
+let authToken = null;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Turns the cy.request(url), (url, body), (method, url) and (method, url, body) forms into options
+const toRequestOptions = (args) => {
+  if (typeof args[0] === 'object') {
+    return { ...args[0] };
+  }
+  if (args.length === 1) {
+    return { url: args[0] };
+  }
+  if (args.length === 2) {
+    return HTTP_METHODS.includes(String(args[0]).toUpperCase())
+      ? { method: args[0], url: args[1] }
+      : { url: args[0], body: args[1] };
+  }
+  return { method: args[0], url: args[1], body: args[2] };
+};
+
+// Custom command to log in as the server's professor account
+// (ADMIN_USERNAME / ADMIN_PASSWORD, passed to Cypress as CYPRESS_ADMIN_USERNAME / CYPRESS_ADMIN_PASSWORD)
+Cypress.Commands.add('login', () => {
+  authToken = null;
+  return cy.request({
+    method: 'POST',
+    url: `${API_BASE_URL}/api/auth/login`,
+    body: {
+      username: Cypress.env('ADMIN_USERNAME') || 'admin',
+      password: Cypress.env('ADMIN_PASSWORD')
+    }
+  }).then((response) => {
+    authToken = response.body.token;
+  });
+});
+
+// Every API request carries the token once logged in
+Cypress.Commands.overwrite('request', (originalFn, ...args) => {
+  const options = toRequestOptions(args);
+  if (authToken && String(options.url).startsWith(API_BASE_URL)) {
+    options.headers = { ...options.headers, Authorization: `Bearer ${authToken}` };
+  }
+  return originalFn(options);
+});
+
+// The client reads the token from localStorage, so store it before the app loads
+Cypress.on('window:before:load', (win) => {
+  if (authToken) {
+    win.localStorage.setItem(TOKEN_STORAGE_KEY, authToken);
+  }
+});
+
 // Custom command to clean up test data via API
 Cypress.Commands.add('cleanupTestData', (classId, studentIds) => {
   // Delete students
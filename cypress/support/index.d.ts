@@ -2,11 +2,18 @@
 
 declare namespace Cypress {
   interface Chainable {
+    /**
+     * Custom command to log in as the server's professor account
+     * The token is then sent on every API request and stored in every visited page
+     * @example cy.login()
+     */
+    login(): Chainable<void>;
+
     /**
      * Custom command to clean up test data via API
      * @param classId - The ID of the class to delete
      * @param studentIds - Array of student CPFs to delete
-     * @example cy.cleanupTestData('class-123', ['11111122222', '33333444444'])
+     * @example cy.cleanupTestData('class-123', ['11111122237', '33333444402'])
      */
     cleanupTestData(classId: string | null, studentIds: string[]): Chainable<void>;
 
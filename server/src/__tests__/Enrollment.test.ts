@@ -0,0 +1,184 @@
+import { Student } from '../models/Student';
+import { Enrollment } from '../models/Enrollment';
+import { Class } from '../models/Class';
+import { EspecificacaoDoCalculoDaMedia, DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA } from '../models/EspecificacaoDoCalculoDaMedia';
+
+describe('Enrollment Class', () => {
+  const student = new Student('João Silva', '529.982.247-25', 'joao@email.com');
+
+  describe('calculateMediaPreFinal', () => {
+    test('should compute the weighted average using the default specification', () => {
+      const enrollment = new Enrollment(student);
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+      enrollment.addOrUpdateEvaluation('Design', 'MPA');
+      enrollment.addOrUpdateEvaluation('Tests', 'MANA');
+
+      // (10 + 7 + 0) / 6 goals
+      expect(enrollment.calculateMediaPreFinal()).toBeCloseTo(17 / 6, 5);
+    });
+
+    test('should use the specification of the owning class', () => {
+      const especificacao = new EspecificacaoDoCalculoDaMedia(
+        new Map([['MA', 10], ['MPA', 5], ['MANA', 0]]),
+        new Map([['Requirements', 3], ['Design', 1]])
+      );
+      const classObj = new Class('ESS', 1, 2025, especificacao);
+      const enrollment = classObj.addEnrollment(student);
+
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+      enrollment.addOrUpdateEvaluation('Design', 'MPA');
+
+      // (3 * 10 + 1 * 5) / 4
+      expect(enrollment.calculateMediaPreFinal()).toBeCloseTo(8.75, 5);
+      expect(enrollment.getEspecificacaoDoCalculoDaMedia()).toBe(especificacao);
+    });
+
+    test('should ignore goals that are not part of the specification', () => {
+      const enrollment = new Enrollment(student);
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+      enrollment.addOrUpdateEvaluation('Unknown Goal', 'MA');
+
+      expect(enrollment.calculateMediaPreFinal()).toBeCloseTo(10 / 6, 5);
+    });
+  });
+
+  describe('automatic recomputation', () => {
+    test('should have no pre-final average before any evaluation', () => {
+      const enrollment = new Enrollment(student);
+
+      expect(enrollment.getMediaPreFinal()).toBeNull();
+    });
+
+    test('should recompute the pre-final average when evaluations are added or updated', () => {
+      const enrollment = new Enrollment(student);
+
+      enrollment.addOrUpdateEvaluation('Requirements', 'MPA');
+      expect(enrollment.getMediaPreFinal()).toBeCloseTo(7 / 6, 5);
+
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+      expect(enrollment.getMediaPreFinal()).toBeCloseTo(10 / 6, 5);
+    });
+
+    test('should recompute the pre-final average when an evaluation is removed', () => {
+      const enrollment = new Enrollment(student);
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+      enrollment.addOrUpdateEvaluation('Design', 'MA');
+
+      enrollment.removeEvaluation('Design');
+      expect(enrollment.getMediaPreFinal()).toBeCloseTo(10 / 6, 5);
+
+      enrollment.removeEvaluation('Requirements');
+      expect(enrollment.getMediaPreFinal()).toBeNull();
+    });
+
+    test('should replace stale stored averages when attached to a class', () => {
+      const enrollment = Enrollment.fromJSON({
+        student: student.toJSON(),
+        evaluations: [{ goal: 'Requirements', grade: 'MA' }],
+        mediaPreFinal: 9.5
+      }, student);
+
+      new Class('ESS', 1, 2025, DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA, [enrollment]);
+
+      expect(enrollment.getMediaPreFinal()).toBeCloseTo(10 / 6, 5);
+    });
+  });
+
+  describe('final exam', () => {
+    const enrollmentWithAverage = (goalsWithMA: number): Enrollment => {
+      const enrollment = new Enrollment(student);
+      ['Requirements', 'Configuration Management', 'Project Management', 'Design', 'Tests', 'Refactoring']
+        .slice(0, goalsWithMA)
+        .forEach(goal => enrollment.addOrUpdateEvaluation(goal, 'MA'));
+      return enrollment;
+    };
+
+    test('should have no post-final average without a final exam grade', () => {
+      const enrollment = enrollmentWithAverage(3);
+
+      expect(enrollment.getMediaPosFinal()).toBeNull();
+      expect(enrollment.calculateMediaPosFinal()).toBeCloseTo(5, 5);
+    });
+
+    test('should compute the post-final average as the arithmetic mean by default', () => {
+      const enrollment = enrollmentWithAverage(3);
+
+      enrollment.setNotaDaProvaFinal(8);
+
+      expect(enrollment.getNotaDaProvaFinal()).toBe(8);
+      expect(enrollment.getMediaPosFinal()).toBeCloseTo(6.5, 5);
+    });
+
+    test('should use the post-final weights of the class specification', () => {
+      const especificacao = new EspecificacaoDoCalculoDaMedia(
+        new Map([['MA', 10], ['MPA', 7], ['MANA', 0]]),
+        new Map([['Requirements', 1], ['Design', 1]]),
+        { mediaPreFinal: 2, provaFinal: 3 }
+      );
+      const enrollment = new Class('ESS', 1, 2025, especificacao).addEnrollment(student);
+      enrollment.addOrUpdateEvaluation('Requirements', 'MA');
+
+      enrollment.setNotaDaProvaFinal(10);
+
+      // pre-final 5; (2 * 5 + 3 * 10) / 5
+      expect(enrollment.getMediaPosFinal()).toBeCloseTo(8, 5);
+    });
+
+    test('should use the default for each post-final weight missing from stored data', () => {
+      const stored = {
+        pesosDosConceitos: { MA: 10, MPA: 7, MANA: 0 },
+        pesosDasMetas: { Requirements: 1, Design: 1 },
+        pesosDaMediaPosFinal: { provaFinal: 3 }
+      };
+
+      expect(EspecificacaoDoCalculoDaMedia.fromJSON(stored).getPesosDaMediaPosFinal()).toEqual({ mediaPreFinal: 1, provaFinal: 3 });
+      expect(() => EspecificacaoDoCalculoDaMedia.fromJSON({ ...stored, pesosDaMediaPosFinal: { mediaPreFinal: 'one' } }))
+        .toThrow('Os pesos da média pós-final (mediaPreFinal, provaFinal) devem ser números não negativos.');
+    });
+
+    test('should recompute the post-final average when evaluations change', () => {
+      const enrollment = enrollmentWithAverage(3);
+      enrollment.setNotaDaProvaFinal(8);
+
+      enrollment.addOrUpdateEvaluation('Tests', 'MPA');
+
+      // pre-final (30 + 7) / 6
+      expect(enrollment.getMediaPosFinal()).toBeCloseTo((37 / 6 + 8) / 2, 5);
+    });
+
+    test('should clear the post-final average when the final exam grade is removed', () => {
+      const enrollment = enrollmentWithAverage(3);
+      enrollment.setNotaDaProvaFinal(8);
+
+      enrollment.setNotaDaProvaFinal(null);
+
+      expect(enrollment.getMediaPosFinal()).toBeNull();
+    });
+  });
+
+  describe('grade change history', () => {
+    test('should record every change with the previous grade', () => {
+      const enrollment = new Enrollment(student);
+
+      enrollment.changeEvaluation('Design', 'MPA', 'prof');
+      enrollment.changeEvaluation('Design', 'MA', 'prof', 'Revisão da prova');
+      enrollment.changeEvaluation('Design', null);
+
+      expect(enrollment.getHistory().map(change => change.toJSON())).toEqual([
+        expect.objectContaining({ goal: 'Design', oldGrade: null, newGrade: 'MPA', actor: 'prof', reason: null }),
+        expect.objectContaining({ goal: 'Design', oldGrade: 'MPA', newGrade: 'MA', actor: 'prof', reason: 'Revisão da prova' }),
+        expect.objectContaining({ goal: 'Design', oldGrade: 'MA', newGrade: null, actor: null, reason: null })
+      ]);
+      expect(enrollment.getEvaluationForGoal('Design')).toBeUndefined();
+    });
+
+    test('should not record a change when the grade stays the same', () => {
+      const enrollment = new Enrollment(student);
+      enrollment.changeEvaluation('Design', 'MA');
+
+      expect(enrollment.changeEvaluation('Design', 'MA')).toBeNull();
+      expect(enrollment.changeEvaluation('Tests', null)).toBeNull();
+      expect(enrollment.getHistory()).toHaveLength(1);
+    });
+  });
+});
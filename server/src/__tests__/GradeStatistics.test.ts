@@ -0,0 +1,69 @@
+import { describeGrades, parseHistogramBuckets } from '../models/GradeStatistics';
+
+describe('Grade Statistics', () => {
+  describe('describeGrades', () => {
+    test('should compute the descriptive statistics of the grades', () => {
+      const statistics = describeGrades([7, 2, 10, 5, 6]);
+
+      expect(statistics).toMatchObject({
+        count: 5,
+        mean: 6,
+        median: 6,
+        min: 2,
+        max: 10,
+        firstQuartile: 5,
+        thirdQuartile: 7
+      });
+      // sqrt(((7-6)² + (2-6)² + (10-6)² + (5-6)² + (6-6)²) / 5)
+      expect(statistics.standardDeviation).toBeCloseTo(Math.sqrt(34 / 5), 2);
+    });
+
+    test('should interpolate the median and quartiles between grades', () => {
+      const statistics = describeGrades([1, 2, 3, 4]);
+
+      expect(statistics.median).toBe(2.5);
+      expect(statistics.firstQuartile).toBe(1.75);
+      expect(statistics.thirdQuartile).toBe(3.25);
+    });
+
+    test('should count the grades in buckets of the same width, 10 falling in the last one', () => {
+      const statistics = describeGrades([0, 2.4, 2.5, 7.5, 9.99, 10], 4);
+
+      expect(statistics.histogram).toEqual([
+        { from: 0, to: 2.5, count: 2 },
+        { from: 2.5, to: 5, count: 1 },
+        { from: 5, to: 7.5, count: 0 },
+        { from: 7.5, to: 10, count: 3 }
+      ]);
+    });
+
+    test('should leave the statistics empty without grades', () => {
+      const statistics = describeGrades([], 2);
+
+      expect(statistics).toEqual({
+        count: 0,
+        mean: null,
+        median: null,
+        standardDeviation: null,
+        min: null,
+        max: null,
+        firstQuartile: null,
+        thirdQuartile: null,
+        histogram: [{ from: 0, to: 5, count: 0 }, { from: 5, to: 10, count: 0 }]
+      });
+    });
+  });
+
+  describe('parseHistogramBuckets', () => {
+    test('should default to 10 buckets', () => {
+      expect(parseHistogramBuckets(undefined)).toBe(10);
+      expect(parseHistogramBuckets('4')).toBe(4);
+    });
+
+    test('should reject invalid bucket counts', () => {
+      expect(() => parseHistogramBuckets('0')).toThrow('Buckets must be an integer between 1 and 20');
+      expect(() => parseHistogramBuckets('2.5')).toThrow('Buckets must be an integer between 1 and 20');
+      expect(() => parseHistogramBuckets('21')).toThrow('Buckets must be an integer between 1 and 20');
+    });
+  });
+});
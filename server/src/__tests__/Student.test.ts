@@ -3,10 +3,10 @@ import { Student } from '../models/Student';
 describe('Student Class', () => {
   describe('Constructor and Basic Functionality', () => {
     test('should create a student with valid data', () => {
-      const student = new Student('João Silva', '123.456.789-01', 'joao@email.com');
+      const student = new Student('João Silva', '123.456.789-09', 'joao@email.com');
       
       expect(student.name).toBe('João Silva');
-      expect(student.getCPF()).toBe('12345678901'); // Should store clean CPF
+      expect(student.getCPF()).toBe('12345678909'); // Should store clean CPF
       expect(student.email).toBe('joao@email.com');
     });
 
@@ -18,25 +18,25 @@ describe('Student Class', () => {
     });
 
     test('should accept CPF with different formatting styles', () => {
-      const student1 = new Student('Test User', '123.456.789-01', 'test@email.com');
-      const student2 = new Student('Test User', '123456789-01', 'test@email.com');
-      const student3 = new Student('Test User', '123.456.78901', 'test@email.com');
-      const student4 = new Student('Test User', '12345678901', 'test@email.com');
+      const student1 = new Student('Test User', '123.456.789-09', 'test@email.com');
+      const student2 = new Student('Test User', '123456789-09', 'test@email.com');
+      const student3 = new Student('Test User', '123.456.78909', 'test@email.com');
+      const student4 = new Student('Test User', '12345678909', 'test@email.com');
       
       // All should result in the same clean CPF
-      expect(student1.getCPF()).toBe('12345678901');
-      expect(student2.getCPF()).toBe('12345678901');
-      expect(student3.getCPF()).toBe('12345678901');
-      expect(student4.getCPF()).toBe('12345678901');
+      expect(student1.getCPF()).toBe('12345678909');
+      expect(student2.getCPF()).toBe('12345678909');
+      expect(student3.getCPF()).toBe('12345678909');
+      expect(student4.getCPF()).toBe('12345678909');
     });
   });
 
   describe('validateCPF method', () => {
     test('should accept valid CPF with 11 digits', () => {
       // These should not throw errors
-      expect(() => new Student('Valid User', '12345678901', 'valid@email.com')).not.toThrow();
-      expect(() => new Student('Valid User', '111.222.333-44', 'valid@email.com')).not.toThrow();
-      expect(() => new Student('Valid User', '000.000.000-00', 'valid@email.com')).not.toThrow();
+      expect(() => new Student('Valid User', '12345678909', 'valid@email.com')).not.toThrow();
+      expect(() => new Student('Valid User', '111.222.333-96', 'valid@email.com')).not.toThrow();
+      expect(() => new Student('Valid User', '111.444.777-35', 'valid@email.com')).not.toThrow();
     });
 
     test('should reject CPF with less than 11 digits', () => {
@@ -72,6 +72,30 @@ describe('Student Class', () => {
         .toThrow('Invalid CPF format');
     });
 
+    test('should reject CPF with wrong check digits', () => {
+      expect(() => new Student('Invalid User', '123.456.789-01', 'test@email.com'))
+        .toThrow('Invalid CPF check digits');
+
+      expect(() => new Student('Invalid User', '111.111.111-12', 'test@email.com'))
+        .toThrow('Invalid CPF check digits');
+    });
+
+    test('should reject CPF with all digits equal', () => {
+      // These pass the check digit calculation but are not valid CPFs
+      ['000.000.000-00', '11111111111', '99999999999'].forEach(cpf => {
+        expect(() => new Student('Invalid User', cpf, 'test@email.com'))
+          .toThrow('Invalid CPF check digits');
+      });
+    });
+
+    test('should keep stored students whose CPF fails the check digits when asked to', () => {
+      const student = new Student('Legacy User', '123.456.789-01', 'legacy@email.com', false);
+
+      expect(student.getCPF()).toBe('12345678901');
+      expect(student.hasValidCPF()).toBe(false);
+      expect(new Student('Valid User', '12345678909', 'valid@email.com').hasValidCPF()).toBe(true);
+    });
+
     test('should reject empty or null CPF', () => {
       expect(() => new Student('Invalid User', '', 'test@email.com'))
         .toThrow('Invalid CPF format');
@@ -95,7 +119,7 @@ describe('Student Class', () => {
       ];
 
       validEmails.forEach(email => {
-        expect(() => new Student('Valid User', '12345678901', email)).not.toThrow();
+        expect(() => new Student('Valid User', '12345678909', email)).not.toThrow();
       });
     });
 
@@ -110,7 +134,7 @@ describe('Student Class', () => {
       ];
 
       emailsWithDots.forEach(email => {
-        expect(() => new Student('Valid User', '12345678901', email)).not.toThrow();
+        expect(() => new Student('Valid User', '12345678909', email)).not.toThrow();
       });
     });
 
@@ -124,7 +148,7 @@ describe('Student Class', () => {
       ];
 
       specialEmails.forEach(email => {
-        expect(() => new Student('Valid User', '12345678901', email)).not.toThrow();
+        expect(() => new Student('Valid User', '12345678909', email)).not.toThrow();
       });
     });
 
@@ -152,7 +176,7 @@ describe('Student Class', () => {
 
       invalidEmails.forEach(email => {
         expect(() => {
-          new Student('Invalid User', '12345678901', email);
+          new Student('Invalid User', '12345678909', email);
         }).toThrow('Invalid email format');
       });
     });
@@ -169,7 +193,7 @@ describe('Student Class', () => {
 
       invalidDomainEmails.forEach(email => {
         expect(() => {
-          new Student('Invalid User', '12345678901', email);
+          new Student('Invalid User', '12345678909', email);
         }).toThrow('Invalid email format');
       });
     });
@@ -177,16 +201,16 @@ describe('Student Class', () => {
 
   describe('getFormattedCPF method', () => {
     test('should format CPF correctly for display', () => {
-      const student = new Student('Test User', '12345678901', 'test@email.com');
-      expect(student.getFormattedCPF()).toBe('123.456.789-01');
+      const student = new Student('Test User', '12345678909', 'test@email.com');
+      expect(student.getFormattedCPF()).toBe('123.456.789-09');
     });
 
     test('should format different CPFs correctly', () => {
       const testCases = [
-        { input: '11122233344', expected: '111.222.333-44' },
+        { input: '11122233396', expected: '111.222.333-96' },
         { input: '98765432100', expected: '987.654.321-00' },
-        { input: '00000000000', expected: '000.000.000-00' },
-        { input: '12345678901', expected: '123.456.789-01' }
+        { input: '52998224725', expected: '529.982.247-25' },
+        { input: '12345678909', expected: '123.456.789-09' }
       ];
 
       testCases.forEach(({ input, expected }) => {
@@ -198,8 +222,8 @@ describe('Student Class', () => {
 
   describe('getCPF method', () => {
     test('should return clean CPF without formatting', () => {
-      const student = new Student('Test User', '123.456.789-01', 'test@email.com');
-      expect(student.getCPF()).toBe('12345678901');
+      const student = new Student('Test User', '123.456.789-09', 'test@email.com');
+      expect(student.getCPF()).toBe('12345678909');
       expect(student.getCPF()).not.toContain('.');
       expect(student.getCPF()).not.toContain('-');
     });
@@ -207,12 +231,12 @@ describe('Student Class', () => {
 
   describe('toJSON method', () => {
     test('should return properly formatted JSON object', () => {
-      const student = new Student('João Silva', '12345678901', 'joao@email.com');
+      const student = new Student('João Silva', '12345678909', 'joao@email.com');
       const json = student.toJSON();
 
       expect(json).toEqual({
         name: 'João Silva',
-        cpf: '123.456.789-01',  // Should be formatted
+        cpf: '123.456.789-09',  // Should be formatted
         email: 'joao@email.com'
       });
     });
@@ -229,16 +253,16 @@ describe('Student Class', () => {
   describe('Edge Cases and Error Handling', () => {
     test('should handle various CPF input formats consistently', () => {
       const formats = [
-        '123.456.789-01',
-        '123456789-01',
-        '123.456.78901',
-        '12345678901'
+        '123.456.789-09',
+        '123456789-09',
+        '123.456.78909',
+        '12345678909'
       ];
 
       formats.forEach(format => {
         const student = new Student('Test User', format, 'test@email.com');
-        expect(student.getCPF()).toBe('12345678901');
-        expect(student.getFormattedCPF()).toBe('123.456.789-01');
+        expect(student.getCPF()).toBe('12345678909');
+        expect(student.getFormattedCPF()).toBe('123.456.789-09');
       });
     });
 
@@ -248,7 +272,7 @@ describe('Student Class', () => {
         .toThrow(); // Should throw on first validation error (CPF)
 
       // Valid CPF, invalid email
-      expect(() => new Student('Test User', '12345678901', 'invalid-email'))
+      expect(() => new Student('Test User', '12345678909', 'invalid-email'))
         .toThrow('Invalid email format');
 
       // Invalid CPF, valid email
@@ -258,11 +282,11 @@ describe('Student Class', () => {
 
     test('should handle whitespace in inputs', () => {
       // CPF with spaces (should be cleaned and fail validation due to length)
-      expect(() => new Student('Test User', ' 123 456 789 01 ', 'test@email.com'))
+      expect(() => new Student('Test User', ' 123 456 789 09 ', 'test@email.com'))
         .toThrow('Invalid CPF format');
 
       // Email with spaces (should fail validation)
-      expect(() => new Student('Test User', '12345678901', ' test@email.com '))
+      expect(() => new Student('Test User', '12345678909', ' test@email.com '))
         .toThrow('Invalid email format');
     });
   });
@@ -1,5 +1,43 @@
 import request from 'supertest';
-import { app, studentSet, classes } from '../server';
+import * as XLSX from 'xlsx';
+import { app, studentSet, classes, users, setStorageRepository } from '../server';
+import { StorageRepository } from '../storage';
+import { User, UserRole } from '../models/User';
+import { hashPassword } from '../auth';
+
+const PASSWORD = 'correct-horse';
+
+// Creates the account on first use and logs in, returning the bearer token
+const loginAs = async (username: string, role: UserRole, studentCPF: string | null = null): Promise<string> => {
+  if (!users.findUserByUsername(username)) {
+    users.addUser(new User(username, username, role, hashPassword(PASSWORD), studentCPF));
+  }
+  const response = await request(app).post('/api/auth/login').send({ username, password: PASSWORD });
+  return response.body.token;
+};
+
+// Requests sent with the given session token
+const authenticated = (token: () => string) => ({
+  get: (url: string) => request(app).get(url).set('Authorization', `Bearer ${token()}`),
+  post: (url: string) => request(app).post(url).set('Authorization', `Bearer ${token()}`),
+  put: (url: string) => request(app).put(url).set('Authorization', `Bearer ${token()}`),
+  delete: (url: string) => request(app).delete(url).set('Authorization', `Bearer ${token()}`)
+});
+
+// Every route requires a logged-in user: the tests run as a professor unless stated otherwise
+let professorToken = '';
+const api = authenticated(() => professorToken);
+
+beforeAll(async () => {
+  professorToken = await loginAs('professor', 'professor');
+});
+
+// Keeps binary responses (e.g. .xlsx files) as a Buffer in response.body
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
 
 describe('Server API - Student Endpoints', () => {
   // Clean up data before each test to ensure isolation
@@ -28,15 +66,15 @@ describe('Server API - Student Endpoints', () => {
     describe('Valid student data', () => {
       test('should accept various valid CPF formats', async () => {
         const validCPFFormats = [
-          { cpf: '12345678901', expected: '123.456.789-01' },      // Clean format
-          { cpf: '123.456.789-02', expected: '123.456.789-02' },   // Formatted with dots/hyphens
-          { cpf: '123456789-03', expected: '123.456.789-03' },     // Partial formatting
-          { cpf: '123.456.78904', expected: '123.456.789-04' },    // Mixed formatting
-          { cpf: '123-456-789-05', expected: '123.456.789-05' }    // All hyphens (gets cleaned)
+          { cpf: '12345678909', expected: '123.456.789-09' },      // Clean format
+          { cpf: '123.456.780-62', expected: '123.456.780-62' },   // Formatted with dots/hyphens
+          { cpf: '123456781-43', expected: '123.456.781-43' },     // Partial formatting
+          { cpf: '123.456.78224', expected: '123.456.782-24' },    // Mixed formatting
+          { cpf: '123-456-783-05', expected: '123.456.783-05' }    // All hyphens (gets cleaned)
         ];
 
         for (const { cpf, expected } of validCPFFormats) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: `Test User ${cpf}`,
@@ -54,18 +92,18 @@ describe('Server API - Student Endpoints', () => {
       test('should create student with valid data (formatted CPF)', async () => {
         const studentData = {
           name: 'João Silva',
-          cpf: '123.456.789-01',
+          cpf: '123.456.789-09',
           email: 'joao@email.com'
         };
 
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send(studentData)
           .expect(201);
 
         expect(response.body).toEqual({
           name: 'João Silva',
-          cpf: '123.456.789-01',
+          cpf: '123.456.789-09',
           email: 'joao@email.com'
         });
       });
@@ -77,7 +115,7 @@ describe('Server API - Student Endpoints', () => {
           email: 'maria@email.com'
         };
 
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send(studentData)
           .expect(201);
@@ -92,11 +130,11 @@ describe('Server API - Student Endpoints', () => {
       test('should accept email with dots before @', async () => {
         const studentData = {
           name: 'Pedro Borba',
-          cpf: '11122233344',
+          cpf: '11122233396',
           email: 'p.b@ufpe.br'
         };
 
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send(studentData)
           .expect(201);
@@ -106,14 +144,14 @@ describe('Server API - Student Endpoints', () => {
 
       test('should accept various valid email formats', async () => {
         const validEmailCases = [
-          { name: 'User One', cpf: '11111111111', email: 'user@domain.com' },
-          { name: 'User Two', cpf: '22222222222', email: 'first.last@company.org' },
-          { name: 'User Three', cpf: '33333333333', email: 'user+tag@domain.co.uk' },
-          { name: 'User Four', cpf: '44444444444', email: 'test123@sub.domain.com' }
+          { name: 'User One', cpf: '22233344405', email: 'user@domain.com' },
+          { name: 'User Two', cpf: '33344455508', email: 'first.last@company.org' },
+          { name: 'User Three', cpf: '44455566619', email: 'user+tag@domain.co.uk' },
+          { name: 'User Four', cpf: '12345678496', email: 'test123@sub.domain.com' }
         ];
 
         for (const studentData of validEmailCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send(studentData)
             .expect(201);
@@ -133,7 +171,7 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const cpf of invalidCPFCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
@@ -154,7 +192,7 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const cpf of invalidCPFCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
@@ -167,6 +205,29 @@ describe('Server API - Student Endpoints', () => {
         }
       });
 
+      test('should reject CPF with wrong check digits or all digits equal', async () => {
+        const invalidCPFCases = [
+          '111.111.111-12',   // Typo in the check digits
+          '123.456.789-01',   // Wrong check digits
+          '000.000.000-00',   // All digits equal
+          '99999999999'
+        ];
+
+        for (const cpf of invalidCPFCases) {
+          const response = await api
+            .post('/api/students')
+            .send({
+              name: 'Test User',
+              cpf: cpf,
+              email: 'test@email.com'
+            })
+            .expect(400);
+
+          expect(response.body.error).toBe('Invalid CPF check digits');
+        }
+        expect(studentSet.getCount()).toBe(0);
+      });
+
       test('should reject CPF with non-numeric characters', async () => {
         const invalidCPFCases = [
           '1234567890a',      // Letter at end
@@ -174,11 +235,11 @@ describe('Server API - Student Endpoints', () => {
           '123.456.abc-01',   // Letters in middle
           '123 456 789 01',   // Spaces instead of formatting
           '123/456/789/01'    // Wrong separators (/ not cleaned)
-          // Note: '123-456-789-01' is valid because hyphens get cleaned by cleanCPF
+          // Note: '123-456-789-09' is valid because hyphens get cleaned by cleanCPF
         ];
 
         for (const cpf of invalidCPFCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
@@ -200,7 +261,7 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const cpf of invalidCPFCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
@@ -226,11 +287,11 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const email of invalidEmailCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
-              cpf: '12345678901',
+              cpf: '12345678909',
               email: email
             })
             .expect(400);
@@ -246,11 +307,11 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const email of invalidEmailCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
-              cpf: '12345678901',
+              cpf: '12345678909',
               email: email
             })
             .expect(400);
@@ -269,11 +330,11 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const email of invalidEmailCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
-              cpf: '12345678901',
+              cpf: '12345678909',
               email: email
             })
             .expect(400);
@@ -291,11 +352,11 @@ describe('Server API - Student Endpoints', () => {
         ];
 
         for (const email of invalidEmailCases) {
-          const response = await request(app)
+          const response = await api
             .post('/api/students')
             .send({
               name: 'Test User',
-              cpf: '12345678901',
+              cpf: '12345678909',
               email: email
             })
             .expect(400);
@@ -307,10 +368,10 @@ describe('Server API - Student Endpoints', () => {
 
     describe('Missing required fields', () => {
       test('should reject request missing name', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send({
-            cpf: '12345678901',
+            cpf: '12345678909',
             email: 'test@email.com'
           })
           .expect(400);
@@ -319,7 +380,7 @@ describe('Server API - Student Endpoints', () => {
       });
 
       test('should reject request missing CPF', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send({
             name: 'Test User',
@@ -331,11 +392,11 @@ describe('Server API - Student Endpoints', () => {
       });
 
       test('should reject request missing email', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send({
             name: 'Test User',
-            cpf: '12345678901'
+            cpf: '12345678909'
           })
           .expect(400);
 
@@ -343,7 +404,7 @@ describe('Server API - Student Endpoints', () => {
       });
 
       test('should reject completely empty request body', async () => {
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send({})
           .expect(400);
@@ -356,12 +417,12 @@ describe('Server API - Student Endpoints', () => {
       test('should prevent creating student with duplicate CPF', async () => {
         const studentData = {
           name: 'First Student',
-          cpf: '12345678901',
+          cpf: '12345678909',
           email: 'first@email.com'
         };
 
         // Create first student successfully
-        await request(app)
+        await api
           .post('/api/students')
           .send(studentData)
           .expect(201);
@@ -369,11 +430,11 @@ describe('Server API - Student Endpoints', () => {
         // Attempt to create second student with same CPF should fail
         const duplicateData = {
           name: 'Second Student',
-          cpf: '12345678901',  // Same CPF
+          cpf: '12345678909',  // Same CPF
           email: 'second@email.com'
         };
 
-        const response = await request(app)
+        const response = await api
           .post('/api/students')
           .send(duplicateData)
           .expect(400);
@@ -386,18 +447,18 @@ describe('Server API - Student Endpoints', () => {
   describe('PUT /api/students/:cpf - Student Update', () => {
     test('should update existing student with valid data', async () => {
       // First create a student
-      await request(app)
+      await api
         .post('/api/students')
         .send({
           name: 'Original Name',
-          cpf: '12345678901',
+          cpf: '12345678909',
           email: 'original@email.com'
         })
         .expect(201);
 
       // Then update the student
-      const response = await request(app)
-        .put('/api/students/12345678901')
+      const response = await api
+        .put('/api/students/12345678909')
         .send({
           name: 'Updated Name',
           email: 'updated@email.com'
@@ -406,25 +467,25 @@ describe('Server API - Student Endpoints', () => {
 
       expect(response.body).toEqual({
         name: 'Updated Name',
-        cpf: '123.456.789-01',
+        cpf: '123.456.789-09',
         email: 'updated@email.com'
       });
     });
 
     test('should reject update with invalid email', async () => {
       // First create a student
-      await request(app)
+      await api
         .post('/api/students')
         .send({
           name: 'Test Student',
-          cpf: '12345678901',
+          cpf: '12345678909',
           email: 'test@email.com'
         })
         .expect(201);
 
       // Attempt to update with invalid email
-      const response = await request(app)
-        .put('/api/students/12345678901')
+      const response = await api
+        .put('/api/students/12345678909')
         .send({
           name: 'Updated Name',
           email: 'invalid-email'
@@ -435,8 +496,8 @@ describe('Server API - Student Endpoints', () => {
     });
 
     test('should reject update missing required fields', async () => {
-      const response = await request(app)
-        .put('/api/students/12345678901')
+      const response = await api
+        .put('/api/students/12345678909')
         .send({
           name: 'Updated Name'
           // Missing email
@@ -449,12 +510,12 @@ describe('Server API - Student Endpoints', () => {
 
   describe('Content-Type validation', () => {
     test('should handle JSON content properly', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/students')
         .set('Content-Type', 'application/json')
         .send(JSON.stringify({
           name: 'JSON Test',
-          cpf: '12345678901',
+          cpf: '12345678909',
           email: 'json@test.com'
         }))
         .expect(201);
@@ -463,7 +524,7 @@ describe('Server API - Student Endpoints', () => {
     });
 
     test('should reject malformed JSON', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/students')
         .set('Content-Type', 'application/json')
         .send('{ invalid json }')
@@ -472,4 +533,1792 @@ describe('Server API - Student Endpoints', () => {
       // Express will handle malformed JSON before our handler
     });
   });
-});
\ No newline at end of file
+});
+describe('Server API - Enrollment Evaluation Endpoints', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  describe('GET /api/classes/:classId/enrollments/:studentCPF/evaluation', () => {
+    test('should return null averages when no evaluation was recorded', async () => {
+      const response = await api
+        .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .expect(200);
+
+      expect(response.body.average).toBeNull();
+    });
+
+    test('should return the average recomputed after evaluation updates', async () => {
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal: 'Requirements', grade: 'MA' })
+        .expect(200);
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal: 'Design', grade: 'MPA' })
+        .expect(200);
+
+      let response = await api
+        .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .expect(200);
+      expect(response.body.average).toBeCloseTo(17 / 6, 5);
+
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal: 'Design', grade: '' })
+        .expect(200);
+
+      response = await api
+        .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .expect(200);
+      expect(response.body.average).toBeCloseTo(10 / 6, 5);
+    });
+  });
+
+  describe('GET /api/classes/:classId/enrollments/:studentCPF/history', () => {
+    const evaluationUrl = `/api/classes/${classId}/enrollments/${studentCPF}/evaluation`;
+    const historyUrl = `/api/classes/${classId}/enrollments/${studentCPF}/history`;
+
+    test('should record each grade change with the logged-in user and the reason', async () => {
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: 'MPA' }).expect(200);
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: 'MA', reason: 'Revisão' }).expect(200);
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: '' }).expect(200);
+
+      const response = await api.get(historyUrl).expect(200);
+
+      expect(response.body).toEqual([
+        expect.objectContaining({ goal: 'Design', oldGrade: null, newGrade: 'MPA', actor: 'professor', reason: null }),
+        expect.objectContaining({ goal: 'Design', oldGrade: 'MPA', newGrade: 'MA', actor: 'professor', reason: 'Revisão' }),
+        expect.objectContaining({ goal: 'Design', oldGrade: 'MA', newGrade: null, actor: 'professor', reason: null })
+      ]);
+      expect(Number.isNaN(Date.parse(response.body[0].timestamp))).toBe(false);
+    });
+
+    test('should not record saving the same grade again', async () => {
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: 'MA' }).expect(200);
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: 'MA' }).expect(200);
+
+      const response = await api.get(historyUrl).expect(200);
+      expect(response.body).toHaveLength(1);
+    });
+
+    test('should filter the history by goal', async () => {
+      await api.put(evaluationUrl).send({ goal: 'Design', grade: 'MA' }).expect(200);
+      await api.put(evaluationUrl).send({ goal: 'Requirements', grade: 'MANA' }).expect(200);
+
+      const response = await api.get(`${historyUrl}?goal=Requirements`).expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].goal).toBe('Requirements');
+    });
+
+    test('should return 404 for a student not enrolled in the class', async () => {
+      const response = await api
+        .get(`/api/classes/${classId}/enrollments/11144477735/history`)
+        .expect(404);
+
+      expect(response.body.error).toBe('Student not enrolled in this class');
+    });
+  });
+
+  describe('PUT /api/classes/:classId/evaluations', () => {
+    const otherStudentCPF = '11144477735';
+    const batchUrl = `/api/classes/${classId}/evaluations`;
+
+    beforeEach(async () => {
+      await api.post('/api/students').send({ name: 'Maria Souza', cpf: otherStudentCPF, email: 'maria@email.com' });
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: otherStudentCPF });
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal: 'Design', grade: 'MPA' });
+    });
+
+    const gradesOf = (cpf: string) => classes.findClassById(classId)!.findEnrollmentByStudentCPF(cpf)!.getEvaluations()
+      .map(evaluation => [evaluation.getGoal(), evaluation.getGrade()]);
+
+    test('should apply every change and return the updated enrollments', async () => {
+      const response = await api
+        .put(batchUrl)
+        .send({
+          changes: [
+            { studentCPF, goal: 'Requirements', grade: 'MA' },
+            { studentCPF, goal: 'Design', grade: '' },
+            { studentCPF: '111.444.777-35', goal: 'Requirements', grade: 'MANA' }
+          ]
+        })
+        .expect(200);
+
+      expect(response.body.map((enrollment: any) => enrollment.student.cpf)).toEqual(['529.982.247-25', '111.444.777-35']);
+      expect(response.body[0].evaluations).toEqual([{ goal: 'Requirements', grade: 'MA' }]);
+      expect(gradesOf(studentCPF)).toEqual([['Requirements', 'MA']]);
+      expect(gradesOf(otherStudentCPF)).toEqual([['Requirements', 'MANA']]);
+    });
+
+    test('should not apply any change when one of them is invalid', async () => {
+      const response = await api
+        .put(batchUrl)
+        .send({
+          changes: [
+            { studentCPF, goal: 'Requirements', grade: 'MA' },
+            { studentCPF: otherStudentCPF, goal: 'Requirements', grade: 'A+' },
+            { studentCPF: '39053344705', goal: 'Requirements', grade: 'MA' },
+            { studentCPF, goal: 'Unknown Goal', grade: 'MA' }
+          ]
+        })
+        .expect(400);
+
+      expect(response.body.invalidChanges).toEqual([
+        { index: 1, error: 'Invalid grade. Must be MANA, MPA, or MA' },
+        { index: 2, error: 'Student not enrolled in this class' },
+        { index: 3, error: 'Goal is not part of this class' }
+      ]);
+      expect(gradesOf(studentCPF)).toEqual([['Design', 'MPA']]);
+      expect(gradesOf(otherStudentCPF)).toEqual([]);
+    });
+
+    test('should record each change in the grade history', async () => {
+      await api
+        .put(batchUrl)
+        .send({ changes: [{ studentCPF, goal: 'Design', grade: 'MA' }], reason: 'Revisão' })
+        .expect(200);
+
+      const response = await api
+        .get(`/api/classes/${classId}/enrollments/${studentCPF}/history?goal=Design`)
+        .expect(200);
+
+      expect(response.body.map((change: any) => [change.oldGrade, change.newGrade, change.reason])).toEqual([
+        [null, 'MPA', null],
+        ['MPA', 'MA', 'Revisão']
+      ]);
+    });
+
+    test('should reject an empty batch', async () => {
+      await api.put(batchUrl).send({ changes: [] }).expect(400);
+    });
+
+    test('should return 404 for an unknown class', async () => {
+      await api
+        .put('/api/classes/Unknown-2025-1/evaluations')
+        .send({ changes: [{ studentCPF, goal: 'Design', grade: 'MA' }] })
+        .expect(404);
+    });
+  });
+
+  describe('PUT /api/classes/:classId/enrollments/:studentCPF/final-exam', () => {
+    const setGrades = async (goals: string[]) => {
+      for (const goal of goals) {
+        await api
+          .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+          .send({ goal, grade: 'MA' })
+          .expect(200);
+      }
+    };
+
+    test('should record the final exam grade and compute the post-final average', async () => {
+      await setGrades(['Requirements', 'Design', 'Tests']); // pre-final 5.0
+
+      const response = await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 7 })
+        .expect(200);
+
+      expect(response.body.notaDaProvaFinal).toBe(7);
+      expect(response.body.mediaPosFinal).toBeCloseTo(6, 5);
+
+      const evaluation = await api
+        .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .expect(200);
+      expect(evaluation.body.final_exam_grade).toBe(7);
+      expect(evaluation.body.final_average).toBeCloseTo(6, 5);
+    });
+
+    test('should reject the final exam grade for a student approved directly', async () => {
+      await setGrades(['Requirements', 'Configuration Management', 'Project Management', 'Design', 'Tests']);
+
+      const response = await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 7 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Student is not eligible for the final exam');
+    });
+
+    test('should reject the final exam grade for a student below the eligibility threshold', async () => {
+      await setGrades(['Requirements']); // pre-final 1.67
+
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 7 })
+        .expect(400);
+    });
+
+    test('should reject grades outside the 0-10 range', async () => {
+      await setGrades(['Requirements', 'Design', 'Tests']);
+
+      const response = await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 11 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid final exam grade. Must be a number between 0 and 10');
+    });
+
+    test('should remove the final exam grade when an empty grade is sent', async () => {
+      await setGrades(['Requirements', 'Design', 'Tests']);
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 7 })
+        .expect(200);
+
+      const response = await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: null })
+        .expect(200);
+
+      expect(response.body.notaDaProvaFinal).toBeNull();
+      expect(response.body.mediaPosFinal).toBeNull();
+    });
+
+    test('should fail a student whose post-final average is 0', async () => {
+      await api
+        .put(`/api/classes/${classId}/approval-criteria`)
+        .send({ finalExamEligibilityThreshold: 0 })
+        .expect(200);
+      await setGrades(['Requirements']);
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal: 'Requirements', grade: 'MANA' })
+        .expect(200);
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 0 })
+        .expect(200);
+
+      const report = await api.get(`/api/classes/${classId}/report`).expect(200);
+      expect(report.body.students[0].status).toBe('FAILED');
+      expect(report.body.students[0].finalGrade).toBe(0);
+    });
+
+    test('should ignore the final exam grade once the goals approve the student directly', async () => {
+      await setGrades(['Requirements', 'Design', 'Tests']); // pre-final 5.0
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+        .send({ grade: 2 })
+        .expect(200);
+
+      await setGrades(['Configuration Management', 'Project Management']); // pre-final 8.33
+
+      const report = await api.get(`/api/classes/${classId}/report`).expect(200);
+      expect(report.body.students[0].status).toBe('APPROVED');
+      expect(report.body.students[0].finalGrade).toBeCloseTo(8.33, 2);
+    });
+  });
+});
+
+describe('Server API - Attendance Endpoints', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  const addSession = async (date: string): Promise<string> => {
+    const response = await api
+      .post(`/api/classes/${classId}/sessions`)
+      .send({ date, topic: `Lecture ${date}` })
+      .expect(201);
+    return response.body.id;
+  };
+
+  const recordAttendance = (sessionId: string, status: string) =>
+    api
+      .put(`/api/classes/${classId}/sessions/${sessionId}/attendance`)
+      .send({ records: [{ studentCPF: '529.982.247-25', status }] });
+
+  test('should create lecture sessions and list them by date', async () => {
+    await addSession('2025-03-12');
+    await addSession('2025-03-10');
+
+    const response = await api.get(`/api/classes/${classId}/sessions`).expect(200);
+
+    expect(response.body.map((session: any) => session.date)).toEqual(['2025-03-10', '2025-03-12']);
+  });
+
+  test('should reject sessions with an invalid date', async () => {
+    const response = await api
+      .post(`/api/classes/${classId}/sessions`)
+      .send({ date: '10/03/2025', topic: 'Intro' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Invalid session date. Use the YYYY-MM-DD format');
+  });
+
+  test('should flag reprovadoPorFalta when absences exceed the maximum percentage', async () => {
+    const sessions = [];
+    for (const date of ['2025-03-10', '2025-03-12', '2025-03-14', '2025-03-17']) {
+      sessions.push(await addSession(date));
+    }
+
+    await recordAttendance(sessions[0], 'ABSENT').expect(200);
+    let summary = await api.get(`/api/classes/${classId}/attendance`).expect(200);
+    expect(summary.body.students[0].absencePercentage).toBe(25);
+    expect(summary.body.students[0].reprovadoPorFalta).toBe(false);
+
+    await recordAttendance(sessions[1], 'ABSENT').expect(200);
+    summary = await api.get(`/api/classes/${classId}/attendance`).expect(200);
+    expect(summary.body.students[0].reprovadoPorFalta).toBe(true);
+
+    const report = await api.get(`/api/classes/${classId}/report`).expect(200);
+    expect(report.body.failedByAbsenceCount).toBe(1);
+  });
+
+  test('should not count justified absences', async () => {
+    const sessionId = await addSession('2025-03-10');
+
+    await recordAttendance(sessionId, 'JUSTIFIED').expect(200);
+
+    const summary = await api.get(`/api/classes/${classId}/attendance`).expect(200);
+    expect(summary.body.students[0].justified).toBe(1);
+    expect(summary.body.students[0].reprovadoPorFalta).toBe(false);
+  });
+
+  test('should re-evaluate absences when the attendance policy changes', async () => {
+    const sessionId = await addSession('2025-03-10');
+    await addSession('2025-03-12');
+    await recordAttendance(sessionId, 'ABSENT').expect(200);
+
+    await api
+      .put(`/api/classes/${classId}/attendance-policy`)
+      .send({ maxAbsencePercentage: 60 })
+      .expect(200);
+
+    const summary = await api.get(`/api/classes/${classId}/attendance`).expect(200);
+    expect(summary.body.maxAbsencePercentage).toBe(60);
+    expect(summary.body.students[0].reprovadoPorFalta).toBe(false);
+  });
+
+  test('should reject the whole batch when a record is invalid', async () => {
+    const sessionId = await addSession('2025-03-10');
+
+    const response = await api
+      .put(`/api/classes/${classId}/sessions/${sessionId}/attendance`)
+      .send({ records: [
+        { studentCPF: studentCPF, status: 'ABSENT' },
+        { studentCPF: '11144477735', status: 'ABSENT' }
+      ] })
+      .expect(400);
+
+    expect(response.body.error).toBe('Student 11144477735 is not enrolled in this class');
+
+    const sessions = await api.get(`/api/classes/${classId}/sessions`).expect(200);
+    expect(sessions.body[0].attendance).toEqual([]);
+  });
+
+  test('should return 404 for an unknown session', async () => {
+    await recordAttendance('unknown-session', 'PRESENT').expect(404);
+  });
+});
+
+describe('Server API - Goal Endpoints', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const goalsUrl = `/api/classes/${classId}/goals`;
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  test('should start a class with the default goals', async () => {
+    const response = await api.get(goalsUrl).expect(200);
+
+    expect(response.body.map((goal: any) => goal.name)).toEqual([
+      'Requirements', 'Configuration Management', 'Project Management', 'Design', 'Tests', 'Refactoring'
+    ]);
+    expect(response.body.every((goal: any) => goal.weight === 1)).toBe(true);
+  });
+
+  test('should add a goal with a weight and use it in the average', async () => {
+    await api.post(goalsUrl).send({ name: 'Deploy', weight: 4 }).expect(201);
+    await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Deploy', grade: 'MA' })
+      .expect(200);
+
+    const evaluation = await api
+      .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .expect(200);
+    expect(evaluation.body.average).toBeCloseTo(4, 5); // 4 * 10 / 10
+
+    const classesResponse = await api.get('/api/classes').expect(200);
+    expect(classesResponse.body[0].goals).toContain('Deploy');
+  });
+
+  test('should reject duplicated goals', async () => {
+    const response = await api.post(goalsUrl).send({ name: 'Design' }).expect(400);
+
+    expect(response.body.error).toBe('Goal already exists in this class');
+  });
+
+  test('should rename a goal inside existing evaluations', async () => {
+    await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Tests', grade: 'MPA' })
+      .expect(200);
+
+    const response = await api
+      .put(`${goalsUrl}/Tests`)
+      .send({ name: 'Software Testing' })
+      .expect(200);
+
+    expect(response.body[4]).toEqual({ name: 'Software Testing', weight: 1 });
+    const enrollments = await api.get(`/api/classes/${classId}/enrollments`).expect(200);
+    expect(enrollments.body[0].evaluations).toEqual([{ goal: 'Software Testing', grade: 'MPA' }]);
+
+    const history = await api.get(`/api/classes/${classId}/enrollments/${studentCPF}/history`).expect(200);
+    const reason = 'Goal "Tests" renamed to "Software Testing"';
+    expect(history.body.slice(1)).toEqual([
+      expect.objectContaining({ goal: 'Tests', oldGrade: 'MPA', newGrade: null, actor: 'professor', reason }),
+      expect.objectContaining({ goal: 'Software Testing', oldGrade: null, newGrade: 'MPA', actor: 'professor', reason })
+    ]);
+  });
+
+  test('should reorder the goals of a class', async () => {
+    const order = ['Refactoring', 'Tests', 'Design', 'Project Management', 'Configuration Management', 'Requirements'];
+
+    const response = await api.put(goalsUrl).send({ goals: order }).expect(200);
+
+    expect(response.body.map((goal: any) => goal.name)).toEqual(order);
+  });
+
+  test('should reject an order that does not list every goal', async () => {
+    await api.put(goalsUrl).send({ goals: ['Design', 'Tests'] }).expect(400);
+  });
+
+  test('should delete a goal and its evaluations', async () => {
+    await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Design', grade: 'MA' })
+      .expect(200);
+
+    await api.delete(`${goalsUrl}/Design`).expect(204);
+
+    const goals = await api.get(goalsUrl).expect(200);
+    expect(goals.body.map((goal: any) => goal.name)).not.toContain('Design');
+    const enrollments = await api.get(`/api/classes/${classId}/enrollments`).expect(200);
+    expect(enrollments.body[0].evaluations).toEqual([]);
+
+    const history = await api.get(`/api/classes/${classId}/enrollments/${studentCPF}/history?goal=Design`).expect(200);
+    expect(history.body[1]).toEqual(
+      expect.objectContaining({ goal: 'Design', oldGrade: 'MA', newGrade: null, actor: 'professor', reason: 'Goal "Design" removed' })
+    );
+  });
+
+  test('should return 404 for unknown goals', async () => {
+    await api.delete(`${goalsUrl}/Unknown`).expect(404);
+  });
+
+  test('should reject grades for goals that are not part of the class', async () => {
+    const response = await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Unknown', grade: 'MA' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Goal is not part of this class');
+  });
+});
+
+describe('Server API - Grading Specification Endpoints', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const especificacaoUrl = `/api/classes/${classId}/especificacao`;
+
+  const especificacao = (pesosDasMetas: Record<string, number>) => ({
+    pesosDosConceitos: { MA: 10, MPA: 5, MANA: 0 },
+    pesosDasMetas,
+    pesosDaMediaPosFinal: { mediaPreFinal: 1, provaFinal: 1 }
+  });
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  test('should return the default specification of a new class', async () => {
+    const response = await api.get(especificacaoUrl).expect(200);
+
+    expect(response.body.pesosDosConceitos).toEqual({ MA: 10, MPA: 7, MANA: 0 });
+    expect(Object.keys(response.body.pesosDasMetas)).toHaveLength(6);
+  });
+
+  test('should create a class with the specification sent in the request', async () => {
+    const response = await api
+      .post('/api/classes')
+      .send({ topic: 'ADS', semester: 2, year: 2025, especificacaoDoCalculoDaMedia: especificacao({ Design: 2, Tests: 1 }) })
+      .expect(201);
+
+    expect(response.body.goals).toEqual(['Design', 'Tests']);
+    expect(response.body.especificacaoDoCalculoDaMedia.pesosDosConceitos.MPA).toBe(5);
+  });
+
+  test('should replace the specification and recompute the averages', async () => {
+    await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Design', grade: 'MPA' })
+      .expect(200);
+
+    await api
+      .put(especificacaoUrl)
+      .send(especificacao({ Design: 1, Tests: 1 }))
+      .expect(200);
+
+    const evaluation = await api
+      .get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .expect(200);
+    expect(evaluation.body.average).toBeCloseTo(2.5, 5); // 5 / 2
+  });
+
+  test('should reject a specification that does not cover graded goals', async () => {
+    await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Refactoring', grade: 'MA' })
+      .expect(200);
+
+    const response = await api
+      .put(especificacaoUrl)
+      .send(especificacao({ Design: 1 }))
+      .expect(400);
+
+    expect(response.body.error).toBe('Specification does not cover goals already graded: Refactoring');
+  });
+
+  test('should reject invalid concept weights', async () => {
+    const invalidConcepts = [
+      { MA: 10, MPA: 7 },                 // missing MANA
+      { MA: 11, MPA: 7, MANA: 0 },        // out of range
+      { MA: 5, MPA: 7, MANA: 0 },         // MPA above MA
+      { MA: 10, MPA: 7, MANA: 0, X: 1 }   // unknown concept
+    ];
+
+    for (const pesosDosConceitos of invalidConcepts) {
+      await api
+        .put(especificacaoUrl)
+        .send({ pesosDosConceitos, pesosDasMetas: { Design: 1 } })
+        .expect(400);
+    }
+  });
+
+  test('should reject invalid goal weights', async () => {
+    const invalidGoals = [{}, { Design: -1 }, { Design: 0 }, { Design: 'one' }];
+
+    for (const pesosDasMetas of invalidGoals) {
+      await api
+        .put(especificacaoUrl)
+        .send({ pesosDosConceitos: { MA: 10, MPA: 7, MANA: 0 }, pesosDasMetas })
+        .expect(400);
+    }
+  });
+});
+
+describe('Server API - Approval Criteria Endpoints', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const criteriaUrl = `/api/classes/${classId}/approval-criteria`;
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+
+    // (10 * 4) / 6 goals = 6.67
+    for (const goal of ['Requirements', 'Configuration Management', 'Project Management', 'Design']) {
+      await api
+        .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+        .send({ goal, grade: 'MA' });
+    }
+  });
+
+  test('should return the default criteria of a new class', async () => {
+    const response = await api.get(criteriaUrl).expect(200);
+
+    expect(response.body).toEqual({
+      directApprovalThreshold: 7,
+      finalExamEligibilityThreshold: 3,
+      postFinalApprovalThreshold: 5
+    });
+  });
+
+  test('should update only the thresholds sent in the request', async () => {
+    const response = await api
+      .put(criteriaUrl)
+      .send({ directApprovalThreshold: 6 })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      directApprovalThreshold: 6,
+      finalExamEligibilityThreshold: 3,
+      postFinalApprovalThreshold: 5
+    });
+  });
+
+  test('should use the class criteria in the report', async () => {
+    let report = await api.get(`/api/classes/${classId}/report`).expect(200);
+    expect(report.body.students[0].status).toBe('PENDING');
+
+    await api.put(criteriaUrl).send({ directApprovalThreshold: 6 }).expect(200);
+
+    report = await api.get(`/api/classes/${classId}/report`).expect(200);
+    expect(report.body.students[0].status).toBe('APPROVED');
+    expect(report.body.approvedCount).toBe(1);
+  });
+
+  test('should use the class criteria for final exam eligibility', async () => {
+    await api.put(criteriaUrl).send({ directApprovalThreshold: 6 }).expect(200);
+
+    const response = await api
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`)
+      .send({ grade: 8 })
+      .expect(400);
+
+    expect(response.body.error).toBe('Student is not eligible for the final exam');
+  });
+
+  test('should reject invalid thresholds', async () => {
+    await api.put(criteriaUrl).send({ directApprovalThreshold: 11 }).expect(400);
+    await api.put(criteriaUrl).send({ postFinalApprovalThreshold: 'five' }).expect(400);
+
+    const response = await api
+      .put(criteriaUrl)
+      .send({ directApprovalThreshold: 5, finalExamEligibilityThreshold: 6 })
+      .expect(400);
+    expect(response.body.error).toBe('finalExamEligibilityThreshold cannot be greater than directApprovalThreshold');
+  });
+
+  test('should return 404 for a class that does not exist', async () => {
+    await api.get('/api/classes/NOPE-2025-1/approval-criteria').expect(404);
+  });
+});
+
+describe('Server API - Grade Import Endpoint', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const otherStudentCPF = '11144477735';
+  const importUrl = `/api/classes/gradeImport/${classId}`;
+  const csv = [
+    'Aluno,CPF,Req,Design',
+    `João Silva,529.982.247-25,MA,mpa`,
+    `Maria Souza,${otherStudentCPF},MA,MA`,
+    'Desconhecido,39053344705,MA,MA',
+    `João Silva,${studentCPF},XX,MA`,
+    ',,,'
+  ].join('\n');
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: otherStudentCPF, email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  test('should return the spreadsheet columns and the class goals in the first phase', async () => {
+    const response = await api
+      .post(importUrl)
+      .attach('file', Buffer.from(csv), 'grades.csv')
+      .expect(200);
+
+    expect(response.body.columns).toEqual(['Aluno', 'CPF', 'Req', 'Design']);
+    expect(response.body.goals).toContain('Requirements');
+    expect(response.body.previewRows).toHaveLength(4);
+    expect(response.body.previewRows[0]).toEqual({ Aluno: 'João Silva', CPF: '529.982.247-25', Req: 'MA', Design: 'mpa' });
+  });
+
+  test('should apply the mapped grades and report the outcome of every row', async () => {
+    const response = await api
+      .post(importUrl)
+      .field('mapping', JSON.stringify({ Req: 'Requirements', Design: 'Design' }))
+      .field('cpfColumn', 'CPF')
+      .attach('file', Buffer.from(csv), 'grades.csv')
+      .expect(200);
+
+    expect(response.body.summary).toEqual({ applied: 1, unknownStudent: 1, notEnrolled: 1, invalidGrade: 1 });
+    expect(response.body.results.map((result: any) => [result.line, result.status])).toEqual([
+      [2, 'applied'],
+      [3, 'not_enrolled'],
+      [4, 'unknown_student'],
+      [5, 'invalid_grade']
+    ]);
+    expect(response.body.results[3].invalidCells).toEqual([{ column: 'Req', value: 'XX' }]);
+
+    const enrollments = await api.get(`/api/classes/${classId}/enrollments`).expect(200);
+    expect(enrollments.body[0].evaluations).toEqual(expect.arrayContaining([
+      { goal: 'Requirements', grade: 'MA' },
+      { goal: 'Design', grade: 'MPA' }
+    ]));
+  });
+
+  test('should reject a mapping to goals that are not part of the class', async () => {
+    const response = await api
+      .post(importUrl)
+      .field('mapping', JSON.stringify({ Req: 'Unknown Goal' }))
+      .field('cpfColumn', 'CPF')
+      .attach('file', Buffer.from(csv), 'grades.csv')
+      .expect(400);
+
+    expect(response.body.error).toBe('Metas não pertencem à turma: Unknown Goal');
+  });
+
+  test('should reject a CPF column that is not in the spreadsheet', async () => {
+    await api
+      .post(importUrl)
+      .field('mapping', JSON.stringify({ Req: 'Requirements' }))
+      .field('cpfColumn', 'Matricula')
+      .attach('file', Buffer.from(csv), 'grades.csv')
+      .expect(400);
+  });
+
+  test('should require a file', async () => {
+    await api.post(importUrl).expect(400);
+  });
+});
+
+describe('Server API - Student Import Endpoint', () => {
+  const classId = 'ESS-2025-1';
+  const importUrl = '/api/students/import';
+  const csv = [
+    'Nome Completo,Matrícula,E-mail',
+    'João Silva,529.982.247-25,joao.novo@email.com',
+    'Maria Souza,11144477735,maria@email.com',
+    'Pedro Lima,39053344705,pedro@email.com',
+    'Ana Costa,12345678900,ana@email.com',
+    'Pedro Lima,390.533.447-05,pedro@email.com',
+    ',,'
+  ].join('\n');
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: '52998224725', email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '11144477735' });
+  });
+
+  test('should create new students and report the outcome of every row', async () => {
+    const response = await api
+      .post(importUrl)
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(200);
+
+    expect(response.body.summary).toEqual({ created: 1, updated: 0, unchanged: 2, invalid: 1, duplicate: 1, enrolled: 0 });
+    expect(response.body.results.map((result: any) => [result.line, result.cpf, result.status])).toEqual([
+      [2, '52998224725', 'unchanged'],
+      [3, '11144477735', 'unchanged'],
+      [4, '39053344705', 'created'],
+      [5, '12345678900', 'invalid'],
+      [6, '39053344705', 'duplicate']
+    ]);
+    expect(response.body.results[3].error).toBe('Invalid CPF check digits');
+    expect(studentSet.findStudentByCPF('39053344705')?.email).toBe('pedro@email.com');
+    expect(studentSet.findStudentByCPF('52998224725')?.email).toBe('joao@email.com');
+  });
+
+  test('should update existing students when requested', async () => {
+    const response = await api
+      .post(importUrl)
+      .field('updateExisting', 'true')
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(200);
+
+    expect(response.body.results[0].status).toBe('updated');
+    expect(response.body.results[1].status).toBe('unchanged');
+    expect(studentSet.findStudentByCPF('52998224725')?.email).toBe('joao.novo@email.com');
+  });
+
+  test('should enroll the imported students into the chosen class', async () => {
+    const response = await api
+      .post(importUrl)
+      .field('classId', classId)
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(200);
+
+    expect(response.body.summary.enrolled).toBe(2);
+    expect(response.body.results.map((result: any) => result.enrollment)).toEqual([
+      'enrolled', 'already_enrolled', 'enrolled', undefined, undefined
+    ]);
+    const enrolledCPFs = classes.findClassById(classId)!.getEnrollments().map(enrollment => enrollment.getStudent().getCPF());
+    expect(enrolledCPFs.sort()).toEqual(['11144477735', '39053344705', '52998224725']);
+  });
+
+  test('should reject an unknown class', async () => {
+    const response = await api
+      .post(importUrl)
+      .field('classId', 'Unknown-2025-1')
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(404);
+
+    expect(response.body.error).toBe('Turma não encontrada');
+  });
+
+  test('should reject spreadsheets without the required columns', async () => {
+    const response = await api
+      .post(importUrl)
+      .attach('file', Buffer.from('Aluno,CPF\nPedro Lima,39053344705'), 'students.csv')
+      .expect(400);
+
+    expect(response.body.error).toBe('Colunas obrigatórias não encontradas na planilha: e-mail');
+    expect(studentSet.findStudentByCPF('39053344705')).toBeUndefined();
+  });
+
+  test('should require a file', async () => {
+    await api.post(importUrl).expect(400);
+  });
+});
+
+describe('Server API - Bulk Enrollment Endpoint', () => {
+  const classId = 'ESS-2025-1';
+  const enrollUrl = `/api/classes/${classId}/enroll-bulk`;
+  const csv = [
+    'Aluno,Matrícula',
+    'João Silva,529.982.247-25',
+    'Maria Souza,11144477735',
+    'Desconhecido,39053344705',
+    'Digitado errado,12345678900',
+    'Curto,1234',
+    'Sem CPF,',
+    'João Silva,52998224725'
+  ].join('\n');
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: '52998224725', email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '11144477735' });
+  });
+
+  const enrolledCPFs = () => classes.findClassById(classId)!.getEnrollments().map(enrollment => enrollment.getStudent().getCPF()).sort();
+
+  test('should enroll the students and report the outcome of every row', async () => {
+    const response = await api
+      .post(enrollUrl)
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(200);
+
+    expect(response.body.dryRun).toBe(false);
+    expect(response.body.importedCount).toBe(1);
+    expect(response.body.rejectedCount).toBe(3);
+    expect(response.body.summary).toEqual({ enrolled: 1, alreadyEnrolled: 2, unknownStudent: 1, malformedCPF: 2, blank: 1 });
+    expect(response.body.results).toEqual([
+      { line: 2, raw: '529.982.247-25', cpf: '52998224725', outcome: 'enrolled' },
+      { line: 3, raw: '11144477735', cpf: '11144477735', outcome: 'already_enrolled' },
+      { line: 4, raw: '39053344705', cpf: '39053344705', outcome: 'unknown_student' },
+      { line: 5, raw: '12345678900', cpf: '12345678900', outcome: 'malformed_cpf' },
+      { line: 6, raw: '1234', cpf: '1234', outcome: 'malformed_cpf' },
+      { line: 7, raw: '', cpf: '', outcome: 'blank' },
+      { line: 8, raw: '52998224725', cpf: '52998224725', outcome: 'already_enrolled' }
+    ]);
+    expect(enrolledCPFs()).toEqual(['11144477735', '52998224725']);
+  });
+
+  test('should report the same outcomes without enrolling anyone in a dry run', async () => {
+    const response = await api
+      .post(enrollUrl)
+      .field('dryRun', 'true')
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(200);
+
+    expect(response.body.dryRun).toBe(true);
+    expect(response.body.results.map((result: any) => result.outcome)).toEqual([
+      'enrolled', 'already_enrolled', 'unknown_student', 'malformed_cpf', 'malformed_cpf', 'blank', 'already_enrolled'
+    ]);
+    expect(enrolledCPFs()).toEqual(['11144477735']);
+  });
+
+  test('should reject spreadsheets without a CPF column', async () => {
+    const response = await api
+      .post(enrollUrl)
+      .attach('file', Buffer.from('Aluno,Email\nJoão Silva,joao@email.com'), 'students.csv')
+      .expect(400);
+
+    expect(response.body.error).toBe('A planilha não possui uma coluna de CPF ou matrícula.');
+  });
+
+  test('should reject an unknown class', async () => {
+    await api
+      .post('/api/classes/Unknown-2025-1/enroll-bulk')
+      .attach('file', Buffer.from(csv), 'students.csv')
+      .expect(404);
+  });
+});
+
+describe('Server API - Class Identifiers', () => {
+  let classId: string;
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    const response = await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    classId = response.body.id;
+  });
+
+  test('should generate an opaque id for a new class', () => {
+    expect(classId).toBeDefined();
+    expect(classId).not.toBe('ESS-2025-1');
+  });
+
+  test('should keep the id when the topic changes', async () => {
+    const response = await api
+      .put(`/api/classes/${classId}`)
+      .send({ topic: 'Engenharia de Software', semester: 1, year: 2025 })
+      .expect(200);
+
+    expect(response.body.id).toBe(classId);
+    await api.get(`/api/classes/${classId}/report`).expect(200);
+  });
+
+  test('should accept the legacy composite id as an alias', async () => {
+    const report = await api.get('/api/classes/ESS-2025-1/report').expect(200);
+    expect(report.body.classId).toBe(classId);
+
+    await api
+      .put('/api/classes/ESS-2025-1')
+      .send({ topic: 'ESS-Avançado', semester: 1, year: 2025 })
+      .expect(200);
+
+    // Only the original composite id is an alias, not the one computed from the new topic
+    await api.get('/api/classes/ESS-2025-1/goals').expect(200);
+    await api.get('/api/classes/ESS-Avançado-2025-1/goals').expect(404);
+  });
+
+  test('should reject a legacy composite id shared by more than one class', async () => {
+    await api
+      .put(`/api/classes/${classId}`)
+      .send({ topic: 'ESS-Avançado', semester: 1, year: 2025 })
+      .expect(200);
+    const response = await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 }).expect(201);
+
+    await api.get('/api/classes/ESS-2025-1/goals').expect(404);
+    await api.get(`/api/classes/${classId}/goals`).expect(200);
+    await api.get(`/api/classes/${response.body.id}/goals`).expect(200);
+  });
+
+  test('should reject an update that duplicates another class', async () => {
+    await api.post('/api/classes').send({ topic: 'ADS', semester: 1, year: 2025 }).expect(201);
+
+    const response = await api
+      .put(`/api/classes/${classId}`)
+      .send({ topic: 'ADS', semester: 1, year: 2025 })
+      .expect(400);
+
+    expect(response.body.error).toBe('Class with same topic, year, and semester already exists');
+  });
+
+  test('should delete a class by its legacy composite id', async () => {
+    await api.delete('/api/classes/ESS-2025-1').expect(204);
+    await api.get(`/api/classes/${classId}/report`).expect(404);
+  });
+});
+
+describe('Server API - Authentication and Access Control', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const otherCPF = '11144477735';
+
+  let assistantToken = '';
+  let studentToken = '';
+  const assistant = authenticated(() => assistantToken);
+  const student = authenticated(() => studentToken);
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(s => studentSet.removeStudent(s.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: otherCPF, email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: otherCPF });
+
+    assistantToken = await loginAs('monitor', 'teaching_assistant');
+    studentToken = await loginAs('joao', 'student', studentCPF);
+  });
+
+  test('should reject requests without a valid token', async () => {
+    let response = await request(app).get('/api/students').expect(401);
+    expect(response.body.error).toBe('Authentication required');
+
+    response = await request(app).get('/api/students').set('Authorization', 'Bearer not-a-token').expect(401);
+    expect(response.body.error).toBe('Authentication required');
+  });
+
+  test('should reject a wrong password', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'professor', password: 'wrong-password' })
+      .expect(401);
+
+    expect(response.body.error).toBe('Invalid username or password');
+    expect(response.body.token).toBeUndefined();
+  });
+
+  test('should return the logged-in user without the password hash', async () => {
+    const response = await student.get('/api/auth/me').expect(200);
+
+    expect(response.body).toEqual({ username: 'joao', name: 'joao', role: 'student', studentCPF });
+  });
+
+  test('should end the session on logout', async () => {
+    const token = await loginAs('monitor', 'teaching_assistant');
+    const session = authenticated(() => token);
+
+    await session.post('/api/auth/logout').expect(204);
+    await session.get('/api/auth/me').expect(401);
+  });
+
+  test('should only let professors create classes and delete students', async () => {
+    await assistant.post('/api/classes').send({ topic: 'SAAS', semester: 2, year: 2025 }).expect(403);
+    await assistant.delete(`/api/students/${otherCPF}`).expect(403);
+
+    await api.post('/api/classes').send({ topic: 'SAAS', semester: 2, year: 2025 }).expect(201);
+  });
+
+  test('should let teaching assistants edit grades, recording them as the actor', async () => {
+    await assistant
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Design', grade: 'MA' })
+      .expect(200);
+
+    const response = await api.get(`/api/classes/${classId}/enrollments/${studentCPF}/history`).expect(200);
+    expect(response.body[0].actor).toBe('monitor');
+  });
+
+  test('should let students read only their own data', async () => {
+    await student.get(`/api/students/${studentCPF}`).expect(200);
+    await student.get(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`).expect(200);
+
+    await student.get(`/api/students/${otherCPF}`).expect(403);
+    await student.get(`/api/classes/${classId}/enrollments/${otherCPF}/evaluation`).expect(403);
+    await student.get('/api/students').expect(403);
+    await student
+      .put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`)
+      .send({ goal: 'Design', grade: 'MA' })
+      .expect(403);
+  });
+
+  describe('User accounts', () => {
+    afterEach(() => {
+      users.removeUser('maria');
+    });
+
+    test('should let professors create accounts that can log in', async () => {
+      const response = await api
+        .post('/api/users')
+        .send({ username: 'maria', name: 'Maria Souza', role: 'student', password: 'maria-password', studentCPF: '111.444.777-35' })
+        .expect(201);
+      expect(response.body).toEqual({ username: 'maria', name: 'Maria Souza', role: 'student', studentCPF: otherCPF });
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'maria', password: 'maria-password' })
+        .expect(200);
+      expect(login.body.user.role).toBe('student');
+    });
+
+    test('should reject student accounts not linked to an existing student', async () => {
+      const response = await api
+        .post('/api/users')
+        .send({ username: 'maria', name: 'Maria Souza', role: 'student', password: 'maria-password', studentCPF: '39053344705' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Student accounts must be linked to an existing student');
+    });
+
+    test('should reject short passwords and unknown roles', async () => {
+      let response = await api
+        .post('/api/users')
+        .send({ username: 'maria', name: 'Maria Souza', role: 'professor', password: 'short' })
+        .expect(400);
+      expect(response.body.error).toBe('Password must have at least 8 characters');
+
+      response = await api
+        .post('/api/users')
+        .send({ username: 'maria', name: 'Maria Souza', role: 'admin', password: 'maria-password' })
+        .expect(400);
+      expect(response.body.error).toBe('Invalid role. Must be one of: professor, teaching_assistant, student');
+    });
+
+    test('should not let teaching assistants manage accounts', async () => {
+      await assistant
+        .post('/api/users')
+        .send({ username: 'maria', name: 'Maria Souza', role: 'professor', password: 'maria-password' })
+        .expect(403);
+    });
+
+    test('should change the password and require the current one', async () => {
+      const token = await loginAs('maria', 'teaching_assistant');
+      const session = authenticated(() => token);
+
+      await session.put('/api/auth/password').send({ currentPassword: 'wrong-password', newPassword: 'new-password' }).expect(400);
+      const response = await session
+        .put('/api/auth/password')
+        .send({ currentPassword: PASSWORD, newPassword: 'new-password' })
+        .expect(200);
+
+      // The previous session ends and a new token is returned
+      await session.get('/api/auth/me').expect(401);
+      expect(response.body.token).toEqual(expect.any(String));
+      await request(app).post('/api/auth/login').send({ username: 'maria', password: 'new-password' }).expect(200);
+    });
+  });
+});
+
+describe('Server API - Student Grades', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+  const gradesUrl = `/api/students/${studentCPF}/grades`;
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(s => studentSet.removeStudent(s.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post('/api/classes').send({ topic: 'SAAS', semester: 2, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+  });
+
+  test('should list only the classes the student is enrolled in, with every goal of the class', async () => {
+    await api.put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`).send({ goal: 'Design', grade: 'MA' });
+
+    const response = await api.get(gradesUrl).expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({ topic: 'ESS', year: 2025, semester: 1, studentId: studentCPF, name: 'João Silva' });
+    expect(response.body[0].goals).toHaveLength(6);
+    expect(response.body[0].goals).toContainEqual({ goal: 'Design', grade: 'MA' });
+    expect(response.body[0].goals).toContainEqual({ goal: 'Tests', grade: null });
+  });
+
+  test('should explain the final exam grade needed by an eligible student', async () => {
+    // (10 * 4) / 6 goals = 6.67
+    for (const goal of ['Requirements', 'Configuration Management', 'Project Management', 'Design']) {
+      await api.put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`).send({ goal, grade: 'MA' });
+    }
+
+    const response = await api.get(gradesUrl).expect(200);
+    const summary = response.body[0];
+
+    expect(summary.average).toBeCloseTo(6.67, 2);
+    expect(summary.status).toBe('PENDING');
+    expect(summary.approvalCriteria).toEqual({ directApprovalThreshold: 7, finalExamEligibilityThreshold: 3, postFinalApprovalThreshold: 5 });
+    // (5 * 2 - 6.67) / 1
+    expect(summary.finalExam).toEqual({ eligible: true, grade: null, requiredGrade: 3.34 });
+  });
+
+  test('should report the status once the final exam grade is recorded', async () => {
+    for (const goal of ['Requirements', 'Configuration Management', 'Project Management', 'Design']) {
+      await api.put(`/api/classes/${classId}/enrollments/${studentCPF}/evaluation`).send({ goal, grade: 'MA' });
+    }
+    await api.put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`).send({ grade: 8 }).expect(200);
+
+    const response = await api.get(gradesUrl).expect(200);
+
+    expect(response.body[0].status).toBe('APPROVED_FINAL');
+    expect(response.body[0].finalExam).toEqual({ eligible: true, grade: 8, requiredGrade: null });
+  });
+
+  test('should let students see only their own grades', async () => {
+    const token = await loginAs('joao', 'student', studentCPF);
+    const student = authenticated(() => token);
+
+    await student.get(gradesUrl).expect(200);
+    await student.get('/api/students/11144477735/grades').expect(403);
+  });
+
+  test('should return 404 for a student that does not exist', async () => {
+    const response = await api.get('/api/students/39053344705/grades').expect(404);
+
+    expect(response.body.error).toBe('Student not found');
+  });
+});
+
+describe('Server API - Report Export', () => {
+  const classId = 'ESS-2025-1';
+  const reportUrl = `/api/classes/${classId}/report`;
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'Silva, João', cpf: '52998224725', email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria <Souza>', cpf: '11144477735', email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '52998224725' });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '11144477735' });
+    await api
+      .put(`/api/classes/${classId}/evaluations`)
+      .send({ changes: [{ studentCPF: '52998224725', goal: 'Requirements', grade: 'MA' }] });
+  });
+
+  test('should export the report as CSV', async () => {
+    const response = await api.get(`${reportUrl}?format=csv`).expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    expect(response.headers['content-disposition']).toBe('attachment; filename="report-ESS-2025-1.csv"');
+    const lines = response.text.split('\r\n');
+    expect(lines).toContain('Enrolled students,2');
+    expect(lines).toContain('Goal,Average,MA,MPA,MANA,Evaluated students');
+    expect(lines).toContain('Requirements,10,1,0,0,1');
+    expect(lines).toContain('"Silva, João",52998224725,1.67,Failed');
+  });
+
+  test('should export the report as a workbook with summary, goal and student sheets', async () => {
+    const response = await api
+      .get(`${reportUrl}?format=xlsx`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+
+    expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    const workbook = XLSX.read(response.body, { type: 'buffer' });
+    expect(workbook.SheetNames).toEqual(['Summary', 'evaluationPerformance', 'Students']);
+
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Summary, { header: 1 });
+    expect(summary).toContainEqual(['Enrolled students', 2]);
+    expect(summary).toContainEqual(['Pending', 1]);
+    const students = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Students);
+    expect(students.map(student => student.Name)).toEqual(['Silva, João', 'Maria <Souza>']);
+  });
+
+  test('should export a printable HTML page with escaped content', async () => {
+    const response = await api.get(`${reportUrl}?format=html`).expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/html/);
+    expect(response.text).toContain('<title>Class Report - ESS (2025/1)</title>');
+    expect(response.text).toContain('<td>Maria &lt;Souza&gt;</td>');
+    expect(response.text).toContain('@media print');
+  });
+
+  test('should keep returning JSON by default', async () => {
+    const response = await api.get(reportUrl).expect(200);
+
+    expect(response.body.totalEnrolled).toBe(2);
+  });
+
+  test('should reject an unknown format', async () => {
+    const response = await api.get(`${reportUrl}?format=pdf`).expect(400);
+
+    expect(response.body.error).toBe('Invalid format. Must be one of: json, csv, xlsx, html');
+  });
+});
+
+describe('Server API - Gradebook Export', () => {
+  const classId = 'ESS-2025-1';
+  const studentCPF = '52998224725';
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' });
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+    await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '11144477735' });
+    await api
+      .put(`/api/classes/${classId}/evaluations`)
+      .send({
+        changes: ['Requirements', 'Design', 'Tests'].map(goal => ({ studentCPF, goal, grade: 'MA' }))
+      }); // pre-final 5.0
+    await api.put(`/api/classes/${classId}/enrollments/${studentCPF}/final-exam`).send({ grade: 7 });
+  });
+
+  test('should export one row per student with the goals in the class order', async () => {
+    const response = await api
+      .get(`/api/classes/${classId}/gradebook.xlsx`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+
+    expect(response.headers['content-disposition']).toBe('attachment; filename="gradebook-ESS-2025-1.xlsx"');
+    const workbook = XLSX.read(response.body, { type: 'buffer' });
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Gradebook, { header: 1, defval: null });
+    const goals = classes.findClassById(classId)!.getGoals();
+
+    expect(rows[0]).toEqual(['Name', 'CPF', 'Email', ...goals, 'Pre-final average', 'Final exam', 'Post-final average', 'Status']);
+    expect(rows[1]).toEqual([
+      'João Silva', studentCPF, 'joao@email.com',
+      ...goals.map(goal => (['Requirements', 'Design', 'Tests'].includes(goal) ? 'MA' : null)),
+      5, 7, 6, 'Approved (Final)'
+    ]);
+    expect(rows[2]).toEqual([
+      'Maria Souza', '11144477735', 'maria@email.com', ...goals.map(() => null), null, null, null, 'Pending'
+    ]);
+  });
+
+  test('should export the gradebook as CSV that the grade import reads back', async () => {
+    const response = await api.get(`/api/classes/${classId}/gradebook.csv`).expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    const goals = classes.findClassById(classId)!.getGoals();
+    const imported = await api
+      .post(`/api/classes/gradeImport/${classId}`)
+      .field('mapping', JSON.stringify(Object.fromEntries(goals.map(goal => [goal, goal]))))
+      .field('cpfColumn', 'CPF')
+      .attach('file', Buffer.from(response.text), 'gradebook.csv')
+      .expect(200);
+
+    expect(imported.body.summary).toEqual({ applied: 2, unknownStudent: 0, notEnrolled: 0, invalidGrade: 0 });
+    expect(imported.body.results[0].grades).toEqual(['Requirements', 'Design', 'Tests']
+      .sort((a, b) => goals.indexOf(a) - goals.indexOf(b))
+      .map(goal => ({ goal, grade: 'MA' })));
+  });
+
+  test('should keep spreadsheet programs from running CSV cells as formulas', async () => {
+    await api.post('/api/students').send({ name: '=HYPERLINK("http://evil.example")', cpf: '39053344705', email: 'evil@email.com' });
+    await api.post('/api/students').send({ name: '\t=1+1', cpf: '12345678909', email: 'tab@email.com' });
+    await api.post('/api/students').send({ name: '\r=1+1', cpf: '98765432100', email: 'cr@email.com' });
+    for (const cpf of ['39053344705', '12345678909', '98765432100']) {
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: cpf });
+    }
+
+    const response = await api.get(`/api/classes/${classId}/gradebook.csv`).expect(200);
+
+    expect(response.text).toContain(`"'=HYPERLINK(""http://evil.example"")",39053344705,evil@email.com`);
+    expect(response.text).toContain(`\r\n'\t=1+1,12345678909,tab@email.com`);
+    expect(response.text).toContain(`\r\n"'\r=1+1",98765432100,cr@email.com`);
+    expect(response.text).toContain(',5,7,6,');
+  });
+
+  test('should return 404 for an unknown class', async () => {
+    await api.get('/api/classes/Unknown-2025-1/gradebook.csv').expect(404);
+  });
+});
+
+describe('Server API - Report Student Query', () => {
+  const classId = 'ESS-2025-1';
+  const reportUrl = `/api/classes/${classId}/report`;
+  const goals = ['Requirements', 'Configuration Management', 'Project Management', 'Design', 'Tests', 'Refactoring'];
+  // name, CPF and number of goals graded MA
+  const students: [string, string, number][] = [
+    ['Ana Lima', '52998224725', 6],
+    ['Bruno Costa', '11144477735', 5],
+    ['Carla Dias', '39053344705', 1],
+    ['Daniel Alves', '12345678909', 0],
+    ['Érica Souza', '98765432100', 2]
+  ];
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    for (const [name, cpf] of students) {
+      await api.post('/api/students').send({ name, cpf, email: `${cpf}@email.com` });
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: cpf });
+    }
+    await api
+      .put(`/api/classes/${classId}/evaluations`)
+      .send({
+        changes: students.flatMap(([, cpf, graded]) => goals.slice(0, graded).map(goal => ({ studentCPF: cpf, goal, grade: 'MA' })))
+      })
+      .expect(200);
+  });
+
+  const namesOf = (response: any) => response.body.students.map((student: any) => student.name);
+
+  test('should return every student in a single page by default', async () => {
+    const response = await api.get(reportUrl).expect(200);
+
+    expect(namesOf(response)).toEqual(['Ana Lima', 'Bruno Costa', 'Carla Dias', 'Daniel Alves', 'Érica Souza']);
+    expect(response.body).toMatchObject({ filteredCount: 5, page: 1, pageSize: 5, totalPages: 1, totalEnrolled: 5 });
+  });
+
+  test('should filter by a set of statuses', async () => {
+    const response = await api.get(`${reportUrl}?status=FAILED,pending`).expect(200);
+
+    expect(namesOf(response)).toEqual(['Carla Dias', 'Daniel Alves', 'Érica Souza']);
+    expect(response.body.filteredCount).toBe(3);
+    expect(response.body.approvedCount).toBe(2);
+  });
+
+  test('should filter students below the class average or a threshold, leaving pending students out', async () => {
+    const belowAverage = await api.get(`${reportUrl}?belowAverage=true`).expect(200);
+    expect(namesOf(belowAverage)).toEqual(['Carla Dias']);
+
+    const belowThreshold = await api.get(`${reportUrl}?threshold=9`).expect(200);
+    expect(namesOf(belowThreshold)).toEqual(['Bruno Costa', 'Carla Dias']);
+  });
+
+  test('should search by name ignoring case and accents, or by CPF', async () => {
+    const byName = await api.get(`${reportUrl}?search=ERICA`).expect(200);
+    expect(namesOf(byName)).toEqual(['Érica Souza']);
+
+    const byCPF = await api.get(`${reportUrl}?search=390.533`).expect(200);
+    expect(namesOf(byCPF)).toEqual(['Carla Dias']);
+  });
+
+  test('should not match CPFs by the digits of a name search', async () => {
+    const response = await api.get(`${reportUrl}?search=carla3`).expect(200);
+
+    expect(namesOf(response)).toEqual([]);
+  });
+
+  test('should sort by final grade keeping students without grade at the end', async () => {
+    const ascending = await api.get(`${reportUrl}?sort=finalGrade`).expect(200);
+    expect(namesOf(ascending)).toEqual(['Carla Dias', 'Bruno Costa', 'Ana Lima', 'Daniel Alves', 'Érica Souza']);
+
+    const descending = await api.get(`${reportUrl}?sort=finalGrade&order=desc`).expect(200);
+    expect(namesOf(descending)).toEqual(['Ana Lima', 'Bruno Costa', 'Carla Dias', 'Daniel Alves', 'Érica Souza']);
+  });
+
+  test('should paginate the filtered students', async () => {
+    const response = await api.get(`${reportUrl}?sort=name&order=desc&page=2&pageSize=2`).expect(200);
+
+    expect(namesOf(response)).toEqual(['Carla Dias', 'Bruno Costa']);
+    expect(response.body).toMatchObject({ filteredCount: 5, page: 2, pageSize: 2, totalPages: 3 });
+  });
+
+  test('should describe the final grades of the students that are not pending', async () => {
+    const response = await api.get(`${reportUrl}?buckets=5`).expect(200);
+
+    const { gradeStatistics } = response.body;
+    expect(gradeStatistics.count).toBe(response.body.totalEnrolled - response.body.pendingCount);
+    expect(gradeStatistics.mean).toBe(response.body.studentsAverage);
+    expect(gradeStatistics.min).toBeLessThanOrEqual(gradeStatistics.firstQuartile);
+    expect(gradeStatistics.firstQuartile).toBeLessThanOrEqual(gradeStatistics.median);
+    expect(gradeStatistics.median).toBeLessThanOrEqual(gradeStatistics.thirdQuartile);
+    expect(gradeStatistics.thirdQuartile).toBeLessThanOrEqual(gradeStatistics.max);
+    expect(gradeStatistics.max).toBe(10);
+    expect(gradeStatistics.histogram).toHaveLength(5);
+    // Ana (10) and Bruno (8.33)
+    expect(gradeStatistics.histogram[4]).toEqual({ from: 8, to: 10, count: 2 });
+
+    await api.get(`${reportUrl}?buckets=50`).expect(400);
+  });
+
+  test('should reject invalid query parameters', async () => {
+    const invalidStatus = await api.get(`${reportUrl}?status=GRADUATED`).expect(400);
+    expect(invalidStatus.body.error).toBe('Invalid status: GRADUATED. Must be any of: APPROVED, APPROVED_FINAL, FAILED, FAILED_BY_ABSENCE, PENDING');
+
+    await api.get(`${reportUrl}?threshold=11`).expect(400);
+    await api.get(`${reportUrl}?sort=email`).expect(400);
+    await api.get(`${reportUrl}?order=up`).expect(400);
+    await api.get(`${reportUrl}?page=0`).expect(400);
+    await api.get(`${reportUrl}?pageSize=500`).expect(400);
+  });
+
+  test('should apply the query to exported reports', async () => {
+    const response = await api.get(`${reportUrl}?format=csv&status=APPROVED`).expect(200);
+
+    expect(response.text).toContain('Ana Lima');
+    expect(response.text).not.toContain('Carla Dias');
+  });
+});
+
+describe('Server API - Student Registry Query', () => {
+  const students: [string, string, string][] = [
+    ['Bruno Costa', '11144477735', 'bruno@email.com'],
+    ['Ana Lima', '52998224725', 'ana@email.com'],
+    ['João Araújo', '39053344705', 'jaraujo@ufpe.br'],
+    ['Daniel Alves', '12345678909', 'daniel@email.com']
+  ];
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/classes').send({ topic: 'ESS', semester: 1, year: 2025 });
+    for (const [name, cpf, email] of students) {
+      await api.post('/api/students').send({ name, cpf, email });
+    }
+  });
+
+  const namesOf = (response: request.Response): string[] =>
+    response.body.map((student: { name: string }) => student.name);
+
+  test('should keep returning every student without query parameters', async () => {
+    const response = await api.get('/api/students').expect(200);
+
+    expect(namesOf(response)).toEqual(['Bruno Costa', 'Ana Lima', 'João Araújo', 'Daniel Alves']);
+  });
+
+  test('should search names and emails ignoring case and accents, and CPFs by digits', async () => {
+    expect(namesOf(await api.get('/api/students?search=joao araujo').expect(200))).toEqual(['João Araújo']);
+    expect(namesOf(await api.get('/api/students?search=UFPE').expect(200))).toEqual(['João Araújo']);
+    expect(namesOf(await api.get('/api/students?search=529.982').expect(200))).toEqual(['Ana Lima']);
+  });
+
+  test('should not match CPFs by the digits of an email or name search', async () => {
+    await api.post('/api/students').send({ name: 'Ana Souza', cpf: '98765432100', email: 'ana2024@email.com' });
+
+    expect(namesOf(await api.get('/api/students?search=ana2024@').expect(200))).toEqual(['Ana Souza']);
+    expect(namesOf(await api.get('/api/students?search=ana 2').expect(200))).toEqual([]);
+  });
+
+  test('should sort by name or CPF', async () => {
+    const byName = await api.get('/api/students?sort=name').expect(200);
+    expect(namesOf(byName)).toEqual(['Ana Lima', 'Bruno Costa', 'Daniel Alves', 'João Araújo']);
+
+    const byCPF = await api.get('/api/students?sort=cpf&order=desc').expect(200);
+    expect(namesOf(byCPF)).toEqual(['Ana Lima', 'João Araújo', 'Daniel Alves', 'Bruno Costa']);
+  });
+
+  test('should return a page when a page size is given', async () => {
+    const response = await api.get('/api/students?sort=name&page=2&pageSize=3').expect(200);
+
+    expect(response.body).toMatchObject({ page: 2, pageSize: 3, totalItems: 4, totalPages: 2 });
+    expect(response.body.items).toEqual([{ name: 'João Araújo', cpf: '390.533.447-05', email: 'jaraujo@ufpe.br' }]);
+  });
+
+  test('should list only the students enrolled in a class', async () => {
+    await api.post('/api/classes/ESS-2025-1/enroll').send({ studentCPF: '12345678909' }).expect(201);
+
+    const response = await api.get('/api/students?classId=ESS-2025-1').expect(200);
+    expect(namesOf(response)).toEqual(['Daniel Alves']);
+
+    await api.get('/api/students?classId=NOPE-2025-1').expect(404);
+  });
+
+  test('should reject invalid query parameters', async () => {
+    const invalidSort = await api.get('/api/students?sort=email').expect(400);
+    expect(invalidSort.body.error).toBe('Invalid sort. Must be one of: name, cpf');
+
+    await api.get('/api/students?order=up').expect(400);
+    await api.get('/api/students?pageSize=0').expect(400);
+  });
+});
+
+describe('Server API - Class Comparison', () => {
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'Ana Lima', cpf: '52998224725', email: 'ana@email.com' });
+    await api.post('/api/students').send({ name: 'Bruno Costa', cpf: '11144477735', email: 'bruno@email.com' });
+
+    for (const [topic, semester] of [['ESS', 1], ['ESS', 2], ['Requisitos', 1]] as [string, number][]) {
+      await api.post('/api/classes').send({ topic, semester, year: 2025 });
+    }
+    for (const classId of ['ESS-2025-1', 'ESS-2025-2', 'Requisitos-2025-1']) {
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '52998224725' });
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF: '11144477735' });
+    }
+
+    await api.put('/api/classes/ESS-2025-1/evaluations').send({
+      changes: [
+        { studentCPF: '52998224725', goal: 'Requirements', grade: 'MA' },
+        { studentCPF: '11144477735', goal: 'Requirements', grade: 'MPA' }
+      ]
+    }).expect(200);
+    await api.put('/api/classes/ESS-2025-2/evaluations').send({
+      changes: [
+        { studentCPF: '52998224725', goal: 'Requirements', grade: 'MANA' }
+      ]
+    }).expect(200);
+  });
+
+  const idOf = (classId: string): string => classes.findClassById(classId)!.getClassId();
+
+  test('should compare two semesters of the same topic by class id', async () => {
+    const [first, second] = [idOf('ESS-2025-1'), idOf('ESS-2025-2')];
+    const response = await api
+      .post('/api/compare-classes')
+      .send({ classIds: [first, second] })
+      .expect(200);
+
+    expect(response.body.classIds).toEqual([first, second]);
+    expect(response.body.comparisonData[second].semester).toBe(2);
+
+    const requirements = response.body.goalComparison.find((row: { goal: string }) => row.goal === 'Requirements');
+    expect(requirements.classes[first]).toMatchObject({
+      gradeDistribution: { MA: 1, MPA: 1, MANA: 0 },
+      evaluatedStudents: 2
+    });
+    expect(requirements.classes[second]).toMatchObject({
+      gradeDistribution: { MA: 0, MPA: 0, MANA: 1 },
+      evaluatedStudents: 1
+    });
+    expect(requirements.classes[first].averageGrade).toBeGreaterThan(requirements.classes[second].averageGrade);
+  });
+
+  test('should still accept a topic that identifies a single class', async () => {
+    const response = await api
+      .post('/api/compare-classes')
+      .send({ classes: ['requisitos', 'ESS-2025-1'] })
+      .expect(200);
+
+    expect(response.body.classIds).toEqual([idOf('Requisitos-2025-1'), idOf('ESS-2025-1')]);
+  });
+
+  test('should reject a topic shared by several classes', async () => {
+    const response = await api
+      .post('/api/compare-classes')
+      .send({ classes: ['ESS', 'Requisitos'] })
+      .expect(400);
+
+    expect(response.body.error).toBe('"ESS" matches more than one class (ESS-2025-1, ESS-2025-2). Use the class id instead');
+  });
+
+  test('should not accept part of a topic', async () => {
+    const response = await api
+      .post('/api/compare-classes')
+      .send({ classes: ['requi', 'ESS-2025-1'] })
+      .expect(404);
+
+    expect(response.body.error).toBe('Class not found: requi');
+  });
+
+  test('should sort the goal rows alphabetically across the compared classes', async () => {
+    await api.put('/api/classes/ESS-2025-2/evaluations').send({
+      changes: [{ studentCPF: '11144477735', goal: 'Design', grade: 'MA' }]
+    }).expect(200);
+
+    const response = await api
+      .post('/api/compare-classes')
+      .send({ classIds: [idOf('ESS-2025-1'), idOf('ESS-2025-2')] })
+      .expect(200);
+
+    expect(response.body.goalComparison.map((row: { goal: string }) => row.goal)).toEqual(['Design', 'Requirements']);
+    expect(response.body.goalComparison[0].classes[idOf('ESS-2025-1')]).toBeNull();
+  });
+
+  test('should reject unknown and repeated classes', async () => {
+    await api.post('/api/compare-classes').send({ classIds: ['ESS-2025-1', 'Design'] }).expect(404);
+    await api.post('/api/compare-classes').send({ classIds: ['ESS-2025-1', 'ESS-2025-1'] }).expect(400);
+  });
+});
+
+describe('Server API - Student History', () => {
+  const studentCPF = '52998224725';
+  const historyUrl = `/api/students/${studentCPF}/history`;
+  const goals = ['Requirements', 'Configuration Management', 'Project Management', 'Design', 'Tests', 'Refactoring'];
+
+  const gradeEveryGoal = (classId: string, grade: string) => api
+    .put(`/api/classes/${classId}/evaluations`)
+    .send({ changes: goals.map(goal => ({ studentCPF, goal, grade })) })
+    .expect(200);
+
+  beforeEach(async () => {
+    studentSet.getAllStudents().forEach(s => studentSet.removeStudent(s.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+
+    await api.post('/api/students').send({ name: 'João Silva', cpf: studentCPF, email: 'joao@email.com' });
+    await api.post('/api/students').send({ name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' });
+    for (const [topic, semester, year] of [['ESS', 2, 2025], ['ESS', 1, 2025], ['SAAS', 1, 2024], ['Design', 1, 2025]] as [string, number, number][]) {
+      await api.post('/api/classes').send({ topic, semester, year });
+    }
+    for (const classId of ['ESS-2025-2', 'ESS-2025-1', 'SAAS-2024-1']) {
+      await api.post(`/api/classes/${classId}/enroll`).send({ studentCPF });
+    }
+  });
+
+  test('should list every class of the student, oldest first, with totals', async () => {
+    await gradeEveryGoal('ESS-2025-1', 'MA');
+    await gradeEveryGoal('SAAS-2024-1', 'MANA');
+
+    const response = await api.get(historyUrl).expect(200);
+
+    expect(response.body.student).toEqual({ name: 'João Silva', cpf: '529.982.247-25', email: 'joao@email.com' });
+    expect(response.body.classes.map((summary: { topic: string; year: number; semester: number }) =>
+      `${summary.topic}-${summary.year}-${summary.semester}`
+    )).toEqual(['SAAS-2024-1', 'ESS-2025-1', 'ESS-2025-2']);
+    expect(response.body.classes[1]).toMatchObject({ status: 'APPROVED', finalGrade: 10 });
+    expect(response.body.classes[1].goals).toContainEqual({ goal: 'Design', grade: 'MA' });
+    expect(response.body.summary).toEqual({
+      classesTaken: 3,
+      approvals: 1,
+      failures: 1,
+      pending: 1,
+      overallAverage: 5
+    });
+  });
+
+  test('should return an empty history for a student without classes', async () => {
+    const response = await api.get('/api/students/11144477735/history').expect(200);
+
+    expect(response.body.classes).toEqual([]);
+    expect(response.body.summary).toEqual({ classesTaken: 0, approvals: 0, failures: 0, pending: 0, overallAverage: null });
+  });
+
+  test('should let students see only their own history', async () => {
+    const token = await loginAs('joao', 'student', studentCPF);
+    const student = authenticated(() => token);
+
+    await student.get(historyUrl).expect(200);
+    await student.get('/api/students/11144477735/history').expect(403);
+  });
+
+  test('should return 404 for a student that does not exist', async () => {
+    const response = await api.get('/api/students/39053344705/history').expect(404);
+
+    expect(response.body.error).toBe('Student not found');
+  });
+});
+
+describe('Server API - Storage failures', () => {
+  // Repository whose every transaction fails, as when the disk is full
+  const failingRepository = {
+    transaction: () => {
+      throw new Error('No space left on device');
+    }
+  } as unknown as StorageRepository;
+
+  beforeEach(() => {
+    studentSet.getAllStudents().forEach(student => studentSet.removeStudent(student.getCPF()));
+    classes.getAllClasses().forEach(classObj => classes.removeClass(classObj.getClassId()));
+    setStorageRepository(failingRepository);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setStorageRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  test('should answer 500 when a change could not be stored', async () => {
+    const response = await api
+      .post('/api/students')
+      .send({ name: 'Ana Lima', cpf: '52998224725', email: 'ana@email.com' })
+      .expect(500);
+
+    expect(response.body.error).toBe('The change could not be saved: No space left on device');
+  });
+
+  test('should still answer 400 for invalid requests', async () => {
+    await api.post('/api/students').send({ name: 'Ana Lima', cpf: '123', email: 'ana@email.com' }).expect(400);
+  });
+});
@@ -0,0 +1,356 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { JsonFileRepository, SqliteRepository, StorageRepository, PersistedData, getStorageConfig, createStorageRepository, CURRENT_SCHEMA_VERSION, runMigrations } from '../storage';
+
+const sampleData = (): PersistedData => ({
+  students: [
+    { name: 'João Silva', cpf: '52998224725', email: 'joao@email.com' },
+    { name: 'Maria Souza', cpf: '11144477735', email: 'maria@email.com' }
+  ],
+  classes: [{
+    id: 'class-1',
+    legacyId: 'ESS-2025-1',
+    topic: 'ESS',
+    semester: 1,
+    year: 2025,
+    especificacaoDoCalculoDaMedia: { pesosDosConceitos: { MA: 10, MPA: 7, MANA: 0 }, pesosDasMetas: { Design: 1 } },
+    maxAbsencePercentage: 25,
+    approvalCriteria: { directApprovalThreshold: 7, finalExamEligibilityThreshold: 3, postFinalApprovalThreshold: 5 },
+    lectureSessions: [],
+    enrollments: [
+      {
+        studentCPF: '52998224725',
+        evaluations: [{ goal: 'Design', grade: 'MA' }, { goal: 'Tests', grade: 'MPA' }],
+        notaDaProvaFinal: 6,
+        reprovadoPorFalta: false,
+        history: [
+          { goal: 'Design', oldGrade: null, newGrade: 'MPA', timestamp: '2025-03-10T12:00:00.000Z', actor: 'prof', reason: null },
+          { goal: 'Design', oldGrade: 'MPA', newGrade: 'MA', timestamp: '2025-03-11T12:00:00.000Z', actor: null, reason: 'Revisão' }
+        ]
+      },
+      { studentCPF: '11144477735', evaluations: [], notaDaProvaFinal: null, reprovadoPorFalta: true, history: [] }
+    ]
+  }],
+  users: [
+    { username: 'prof', name: 'Professor', role: 'professor', passwordHash: 'scrypt:salt:hash', studentCPF: null },
+    { username: 'maria', name: 'Maria Souza', role: 'student', passwordHash: 'scrypt:salt:hash', studentCPF: '11144477735' }
+  ]
+});
+
+describe('Storage repositories', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ta-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const implementations: [string, (dir: string) => StorageRepository][] = [
+    ['JsonFileRepository', dir => new JsonFileRepository(path.join(dir, 'app-data.json'))],
+    ['SqliteRepository', dir => new SqliteRepository(path.join(dir, 'app-data.sqlite'))]
+  ];
+
+  describe.each(implementations)('%s', (_name, createRepository) => {
+    test('should return empty collections when nothing was saved', () => {
+      const repository = createRepository(directory);
+
+      expect(repository.load()).toEqual({ students: [], classes: [], users: [] });
+      repository.close();
+    });
+
+    test('should load what was saved', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+      repository.close();
+
+      const reopened = createRepository(directory);
+      expect(reopened.load()).toEqual(sampleData());
+      reopened.close();
+    });
+
+    test('should replace the stored data on every save', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      const updated = sampleData();
+      updated.students.pop();
+      updated.users.pop();
+      updated.classes[0].topic = 'Engenharia de Software';
+      updated.classes[0].enrollments = [{
+        ...updated.classes[0].enrollments[0],
+        evaluations: [{ goal: 'Design', grade: 'MANA' }]
+      }];
+      repository.save(updated);
+
+      expect(repository.load()).toEqual(updated);
+      repository.close();
+    });
+
+    test('should store changes to single entities', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      const change = { goal: 'Tests', oldGrade: 'MPA' as const, newGrade: 'MA' as const, timestamp: '2025-03-12T12:00:00.000Z', actor: 'prof', reason: null };
+      repository.upsertStudent({ name: 'Ana Lima', cpf: '39053344705', email: 'ana@email.com' });
+      repository.upsertStudent({ name: 'João P. Silva', cpf: '52998224725', email: 'joao@email.com' });
+      repository.upsertEvaluation('class-1', '52998224725', { goal: 'Tests', grade: 'MA' });
+      repository.deleteEvaluation('class-1', '52998224725', 'Design');
+      repository.appendGradeChanges('class-1', '52998224725', [change]);
+      repository.deleteEnrollment('class-1', '11144477735');
+      repository.upsertEnrollment('class-1', { studentCPF: '39053344705', evaluations: [], notaDaProvaFinal: null, reprovadoPorFalta: false });
+      repository.deleteUser('maria');
+      repository.close();
+
+      const expected = sampleData();
+      expected.students[0].name = 'João P. Silva';
+      expected.students.push({ name: 'Ana Lima', cpf: '39053344705', email: 'ana@email.com' });
+      const enrollment = expected.classes[0].enrollments[0];
+      enrollment.evaluations = [{ goal: 'Tests', grade: 'MA' }];
+      enrollment.history.push(change);
+      expected.classes[0].enrollments = [
+        enrollment,
+        { studentCPF: '39053344705', evaluations: [], notaDaProvaFinal: null, reprovadoPorFalta: false, history: [] }
+      ];
+      expected.users.pop();
+
+      const reopened = createRepository(directory);
+      expect(reopened.load()).toEqual(expected);
+      reopened.close();
+    });
+
+    test('should keep the grade history when a class is updated', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      const { enrollments, ...classData } = sampleData().classes[0];
+      const { history, ...enrollment } = enrollments[0];
+      repository.upsertClass({ ...classData, topic: 'Engenharia de Software', enrollments: [{ ...enrollment, notaDaProvaFinal: 7 }] });
+
+      const stored = repository.load().classes[0];
+      expect(stored.topic).toBe('Engenharia de Software');
+      expect(stored.enrollments).toEqual([{ ...enrollment, notaDaProvaFinal: 7, history }]);
+      repository.close();
+    });
+
+    test('should delete the enrollments of a deleted student', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      repository.deleteStudent('11144477735');
+
+      const data = repository.load();
+      expect(data.students.map(student => student.cpf)).toEqual(['52998224725']);
+      expect(data.classes[0].enrollments.map(enrollment => enrollment.studentCPF)).toEqual(['52998224725']);
+      repository.close();
+    });
+
+    test('should keep the grade history of a deleted enrollment', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      repository.deleteEnrollment('class-1', '52998224725');
+      repository.upsertEnrollment('class-1', { studentCPF: '52998224725', evaluations: [], notaDaProvaFinal: null, reprovadoPorFalta: false });
+      repository.close();
+
+      const reopened = createRepository(directory);
+      const enrollment = reopened.load().classes[0].enrollments.find(e => e.studentCPF === '52998224725');
+      expect(enrollment?.history).toEqual(sampleData().classes[0].enrollments[0].history);
+      reopened.close();
+    });
+
+    test('should keep the grade history of a deleted student', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+      const { history, ...enrollment } = sampleData().classes[0].enrollments[0];
+
+      repository.deleteStudent('52998224725');
+      repository.upsertStudent(sampleData().students[0]);
+      repository.upsertEnrollment('class-1', enrollment);
+
+      const stored = repository.load().classes[0].enrollments.find(e => e.studentCPF === '52998224725');
+      expect(stored?.history).toEqual(history);
+      repository.close();
+    });
+
+    test('should store nothing from a transaction that failed', () => {
+      const repository = createRepository(directory);
+      repository.save(sampleData());
+
+      expect(() => repository.transaction(() => {
+        repository.upsertStudent({ name: 'Ana Lima', cpf: '39053344705', email: 'ana@email.com' });
+        repository.upsertEvaluation('unknown-class', '39053344705', { goal: 'Design', grade: 'MA' });
+      })).toThrow();
+
+      expect(repository.load()).toEqual(sampleData());
+      repository.close();
+    });
+  });
+
+  describe('SqliteRepository grade history', () => {
+    const databaseFile = () => path.join(directory, 'app-data.sqlite');
+
+    test('should drop the cascading foreign key of databases created before', () => {
+      const legacy = new Database(databaseFile());
+      legacy.exec(`
+        CREATE TABLE enrollments (class_id TEXT NOT NULL, student_cpf TEXT NOT NULL, PRIMARY KEY (class_id, student_cpf));
+        CREATE TABLE grade_changes (
+          class_id TEXT NOT NULL, student_cpf TEXT NOT NULL, position INTEGER NOT NULL, goal TEXT NOT NULL,
+          old_grade TEXT, new_grade TEXT, timestamp TEXT NOT NULL, actor TEXT, reason TEXT,
+          PRIMARY KEY (class_id, student_cpf, position),
+          FOREIGN KEY (class_id, student_cpf) REFERENCES enrollments(class_id, student_cpf) ON DELETE CASCADE
+        );
+        INSERT INTO enrollments VALUES ('class-1', '52998224725');
+        INSERT INTO grade_changes VALUES ('class-1', '52998224725', 0, 'Design', NULL, 'MA', '2025-03-10T12:00:00.000Z', 'prof', NULL);
+      `);
+      legacy.close();
+
+      const repository = new SqliteRepository(databaseFile());
+      repository.close();
+
+      const upgraded = new Database(databaseFile());
+      expect(upgraded.prepare('PRAGMA foreign_key_list(grade_changes)').all()).toEqual([]);
+      expect(upgraded.prepare('SELECT goal, new_grade FROM grade_changes').all()).toEqual([{ goal: 'Design', new_grade: 'MA' }]);
+      upgraded.close();
+    });
+  });
+
+  describe('JsonFileRepository durability', () => {
+    const dataFile = () => path.join(directory, 'app-data.json');
+    const backupDirectory = () => path.join(directory, 'backups');
+    const readFile = () => JSON.parse(fs.readFileSync(dataFile(), 'utf-8'));
+
+    test('should write the schema version without leaving temporary files', () => {
+      const repository = new JsonFileRepository(dataFile());
+      repository.save(sampleData());
+
+      expect(readFile().schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(fs.readdirSync(directory).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    test('should keep only the newest backups', () => {
+      const repository = new JsonFileRepository(dataFile(), { maxBackups: 2, backupIntervalMs: 0 });
+
+      for (let i = 0; i < 5; i++) {
+        const data = sampleData();
+        data.classes[0].topic = `ESS ${i}`;
+        repository.save(data);
+      }
+
+      const backups = fs.readdirSync(backupDirectory());
+      expect(backups).toHaveLength(2);
+      // The kept backups hold the content before the last two saves
+      const topics = backups.map(name => JSON.parse(fs.readFileSync(path.join(backupDirectory(), name), 'utf-8')).classes[0].topic);
+      expect(topics.sort()).toEqual(['ESS 2', 'ESS 3']);
+    });
+
+    test('should order backups taken within the same millisecond by their sequence number', () => {
+      jest.spyOn(Date.prototype, 'toISOString').mockReturnValue('2025-03-10T12:00:00.000Z');
+      const repository = new JsonFileRepository(dataFile(), { maxBackups: 3, backupIntervalMs: 0 });
+
+      try {
+        for (let i = 0; i < 13; i++) {
+          const data = sampleData();
+          data.classes[0].topic = `ESS ${i}`;
+          repository.save(data);
+        }
+      } finally {
+        jest.restoreAllMocks();
+      }
+
+      // "-10" and "-11" are newer than "-9", not older than "-2"
+      expect(fs.readdirSync(backupDirectory()).sort()).toEqual([
+        'app-data-2025-03-10T12-00-00-000Z-10.json',
+        'app-data-2025-03-10T12-00-00-000Z-11.json',
+        'app-data-2025-03-10T12-00-00-000Z-9.json'
+      ]);
+    });
+
+    test('should upgrade a legacy file and report the changes', () => {
+      fs.writeFileSync(dataFile(), JSON.stringify({
+        students: [{ name: 'João Silva', cpf: '52998224725', email: 'joao@email.com' }],
+        classes: [{
+          topic: 'ESS',
+          semester: 1,
+          year: 2025,
+          especificacaoDoCalculoDaMedia: {
+            pesosDosConceitos: [['MA', 10], ['MPA', 7], ['MANA', 0]],
+            pesosDasMetas: [{ key: 'Design', value: 2 }]
+          },
+          enrollments: [{ studentCPF: '52998224725', evaluations: [], mediaPreFinal: 9 }]
+        }]
+      }));
+
+      const repository = new JsonFileRepository(dataFile());
+      const data = repository.load();
+      const report = repository.getMigrationReport();
+
+      expect(report?.fromVersion).toBe(0);
+      expect(report?.applied.map(migration => migration.version)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(data.classes[0].especificacaoDoCalculoDaMedia.pesosDosConceitos).toEqual({ MA: 10, MPA: 7, MANA: 0 });
+      expect(data.classes[0].especificacaoDoCalculoDaMedia.pesosDasMetas).toEqual({ Design: 2 });
+      expect(data.classes[0].id).toBeDefined();
+      expect(data.classes[0].legacyId).toBe('ESS-2025-1');
+      expect(data.classes[0].enrollments[0]).toEqual({ studentCPF: '52998224725', evaluations: [], notaDaProvaFinal: null, reprovadoPorFalta: false, history: [] });
+
+      // The upgraded file is written and the original kept as a backup
+      expect(readFile().schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(fs.readdirSync(backupDirectory()).some(name => name.endsWith('-pre-migration.json'))).toBe(true);
+
+      // Loading again needs no migration
+      repository.load();
+      expect(repository.getMigrationReport()?.applied).toEqual([]);
+    });
+
+    test('should move the grade history of enrollments to the grade changes of the file', () => {
+      const { classes, ...data } = sampleData();
+      fs.writeFileSync(dataFile(), JSON.stringify({ schemaVersion: 5, ...data, classes }));
+
+      const repository = new JsonFileRepository(dataFile());
+
+      expect(repository.load()).toEqual(sampleData());
+      expect(repository.getMigrationReport()?.applied).toEqual([
+        { version: 6, description: 'Keep the grade history apart from the enrollments', changes: ['moved the grade history of 1 enrollments'] }
+      ]);
+      const file = readFile();
+      expect(file.classes[0].enrollments.every((enrollment: object) => !('history' in enrollment))).toBe(true);
+      expect(file.gradeChanges).toEqual(classes[0].enrollments[0].history.map(change => ({ classId: 'class-1', studentCPF: '52998224725', ...change })));
+    });
+
+    test('should not overwrite a file that could not be loaded', () => {
+      fs.writeFileSync(dataFile(), '{ "students": [');
+      const repository = new JsonFileRepository(dataFile());
+
+      expect(() => repository.load()).toThrow(/Could not load/);
+      expect(() => repository.save(sampleData())).toThrow(/Refusing to overwrite/);
+      expect(fs.readFileSync(dataFile(), 'utf-8')).toBe('{ "students": [');
+    });
+
+    test('should reject files saved by a newer version', () => {
+      expect(() => runMigrations({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer than the supported version/);
+    });
+  });
+
+  describe('configuration', () => {
+    test('should use the JSON file by default', () => {
+      expect(getStorageConfig({})).toEqual({ type: 'json', path: './data/app-data.json' });
+    });
+
+    test('should select SQLite and a custom path from the environment', () => {
+      const config = getStorageConfig({ STORAGE_TYPE: 'sqlite', STORAGE_PATH: path.join(directory, 'db.sqlite') });
+
+      expect(config.type).toBe('sqlite');
+      const repository = createStorageRepository(config);
+      expect(repository).toBeInstanceOf(SqliteRepository);
+      repository.close();
+    });
+
+    test('should reject unknown storage types', () => {
+      expect(() => getStorageConfig({ STORAGE_TYPE: 'mongo' })).toThrow("Unknown storage type 'mongo'. Use 'json' or 'sqlite'");
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { randomBytes } from 'crypto';
+
+export interface Session {
+  token: string;
+  username: string;
+  expiresAt: number;
+}
+
+const DEFAULT_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// In-memory login sessions identified by random bearer tokens.
+// Sessions do not survive a server restart: users simply log in again.
+export class SessionStore {
+  private readonly sessions = new Map<string, Session>();
+
+  constructor(private readonly ttlMs: number = DEFAULT_SESSION_TTL_MS) {}
+
+  create(username: string): Session {
+    const session = {
+      token: randomBytes(32).toString('hex'),
+      username,
+      expiresAt: Date.now() + this.ttlMs
+    };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  // Find a session that has not expired yet
+  find(token: string): Session | undefined {
+    const session = this.sessions.get(token);
+    if (session && session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    return session;
+  }
+
+  remove(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  // End every session of a user (e.g. after the password changed or the account was deleted)
+  removeForUser(username: string): void {
+    this.sessions.forEach((session, token) => {
+      if (session.username === username) {
+        this.sessions.delete(token);
+      }
+    });
+  }
+}
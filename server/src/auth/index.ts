@@ -0,0 +1,3 @@
+export { SessionStore, Session } from './SessionStore';
+export { authenticate, requireRole, requireSelfOrRole } from './middleware';
+export { hashPassword, verifyPassword, validatePassword, MIN_PASSWORD_LENGTH } from './passwords';
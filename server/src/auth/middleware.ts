@@ -0,0 +1,64 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { User, UserRole } from '../models/User';
+import { Users } from '../models/Users';
+import { SessionStore } from './SessionStore';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Logged-in user, set by the authenticate middleware
+      user?: User;
+      sessionToken?: string;
+    }
+  }
+}
+
+const bearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Rejects requests without a valid session token with 401
+export const authenticate = (users: Users, sessions: SessionStore): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req);
+    const session = token ? sessions.find(token) : undefined;
+    const user = session ? users.findUserByUsername(session.username) : undefined;
+
+    if (!token || !user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    req.user = user;
+    req.sessionToken = token;
+    next();
+  };
+
+// Only lets through users with one of the given roles (403 otherwise)
+export const requireRole = (...roles: UserRole[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.getRole())) {
+      res.status(403).json({ error: 'You do not have permission to perform this action' });
+      return;
+    }
+    next();
+  };
+
+// Lets through users with one of the given roles and students accessing their own data,
+// identified by the CPF in the given route parameter
+export const requireSelfOrRole = (cpfParam: string, ...roles: UserRole[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    const cpf = (req.params[cpfParam] || '').replace(/[.-]/g, '');
+    const isOwnData = !!user && user.getRole() === 'student' && user.getStudentCPF() === cpf;
+
+    if (!user || (!roles.includes(user.getRole()) && !isOwnData)) {
+      res.status(403).json({ error: 'You do not have permission to perform this action' });
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,29 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const validatePassword = (password: unknown): string => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+};
+
+// Salted scrypt hash stored as "scrypt:<salt>:<hash>" (hex)
+export const hashPassword = (password: string): string => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+};
+
+export const verifyPassword = (password: string, storedHash: string): boolean => {
+  const [algorithm, salt, hash] = storedHash.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,49 @@
+import * as XLSX from 'xlsx';
+import { Class } from '../models/Class';
+import { Report } from '../models/Report';
+import { STATUS_LABELS } from './ReportExport';
+import { Table, tablesToCSV, tablesToWorkbook } from './tables';
+
+const round = (value: number | null): number | null => (value === null ? null : Math.round(value * 100) / 100);
+
+// One row per enrolled student; goal columns follow the class goal order, as in the evaluations grid,
+// so the file can be edited and imported back through the grade import
+export const gradebookTable = (classObj: Class): Table => {
+  const report = new Report(classObj);
+  const goals = classObj.getGoals();
+
+  const rows = classObj.getEnrollments().map(enrollment => {
+    const student = enrollment.getStudent();
+    const summary = report.generateStudentSummary(student.getCPF())!;
+    const finalExamGrade = enrollment.getNotaDaProvaFinal();
+    const mediaPosFinal = classObj.getApprovalCriteria().getCountedMediaPosFinal(enrollment);
+    return [
+      student.name,
+      student.getCPF(),
+      student.email,
+      ...summary.goals.map(({ grade }) => grade),
+      summary.average,
+      finalExamGrade,
+      round(mediaPosFinal),
+      STATUS_LABELS[summary.status]
+    ];
+  });
+
+  return [
+    ['Name', 'CPF', 'Email', ...goals, 'Pre-final average', 'Final exam', 'Post-final average', 'Status'],
+    ...rows
+  ];
+};
+
+// File name without extension, e.g. "gradebook-ESS-2025-1"
+export const gradebookFileName = (classObj: Class): string => {
+  return `gradebook-${classObj.getTopic()}-${classObj.getYear()}-${classObj.getSemester()}`.replace(/[^\w.-]+/g, '_');
+};
+
+export const gradebookToCSV = (classObj: Class): string => {
+  return tablesToCSV(gradebookTable(classObj));
+};
+
+export const gradebookToWorkbook = (classObj: Class): XLSX.WorkBook => {
+  return tablesToWorkbook([{ name: 'Gradebook', table: gradebookTable(classObj) }]);
+};
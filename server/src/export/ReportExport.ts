@@ -0,0 +1,105 @@
+import * as XLSX from 'xlsx';
+import { ReportData, StudentStatus } from '../models/Report';
+import { Table, escapeHTML, tableToHTML, tablesToCSV, tablesToWorkbook } from './tables';
+
+export const REPORT_EXPORT_FORMATS = ['json', 'csv', 'xlsx', 'html'] as const;
+export type ReportExportFormat = typeof REPORT_EXPORT_FORMATS[number];
+
+export const STATUS_LABELS: Record<StudentStatus, string> = {
+  APPROVED: 'Approved',
+  APPROVED_FINAL: 'Approved (Final)',
+  FAILED: 'Failed',
+  FAILED_BY_ABSENCE: 'Failed (Absence)',
+  PENDING: 'Pending'
+};
+
+const summaryTable = (report: ReportData): Table => [
+  ['Class', `${report.topic} (${report.year}/${report.semester})`],
+  ['Generated at', report.generatedAt.toISOString()],
+  ['Enrolled students', report.totalEnrolled],
+  ['Class average', report.studentsAverage],
+  ['Median', report.gradeStatistics.median],
+  ['Standard deviation', report.gradeStatistics.standardDeviation],
+  ['Lowest grade', report.gradeStatistics.min],
+  ['First quartile', report.gradeStatistics.firstQuartile],
+  ['Third quartile', report.gradeStatistics.thirdQuartile],
+  ['Highest grade', report.gradeStatistics.max],
+  [STATUS_LABELS.APPROVED, report.approvedCount],
+  [STATUS_LABELS.APPROVED_FINAL, report.approvedFinalCount],
+  [STATUS_LABELS.FAILED, report.notApprovedCount],
+  [STATUS_LABELS.FAILED_BY_ABSENCE, report.failedByAbsenceCount],
+  [STATUS_LABELS.PENDING, report.pendingCount]
+];
+
+const evaluationPerformanceTable = (report: ReportData): Table => [
+  ['Goal', 'Average', 'MA', 'MPA', 'MANA', 'Evaluated students'],
+  ...report.evaluationPerformance.map(performance => [
+    performance.goal,
+    performance.averageGrade,
+    performance.gradeDistribution.MA,
+    performance.gradeDistribution.MPA,
+    performance.gradeDistribution.MANA,
+    performance.evaluatedStudents
+  ])
+];
+
+const studentsTable = (report: ReportData): Table => [
+  ['Name', 'CPF', 'Final grade', 'Status'],
+  ...report.students.map(student => [student.name, student.studentId, student.finalGrade, STATUS_LABELS[student.status]])
+];
+
+// File name without extension, e.g. "report-ESS-2025-1"
+export const reportFileName = (report: ReportData): string => {
+  return `report-${report.topic}-${report.year}-${report.semester}`.replace(/[^\w.-]+/g, '_');
+};
+
+// Summary, goal performance and students, one after the other
+export const reportToCSV = (report: ReportData): string => {
+  return tablesToCSV(summaryTable(report), evaluationPerformanceTable(report), studentsTable(report));
+};
+
+export const reportToWorkbook = (report: ReportData): XLSX.WorkBook => {
+  return tablesToWorkbook([
+    { name: 'Summary', table: summaryTable(report) },
+    { name: 'evaluationPerformance', table: evaluationPerformanceTable(report) },
+    { name: 'Students', table: studentsTable(report) }
+  ]);
+};
+
+// Standalone page laid out for printing (or saving as PDF from the browser)
+export const reportToHTML = (report: ReportData): string => {
+  const title = `Class Report - ${report.topic} (${report.year}/${report.semester})`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #222; margin: 2em; }
+  h1 { font-size: 1.5em; }
+  h2 { font-size: 1.2em; margin-top: 1.5em; }
+  table { border-collapse: collapse; width: 100%; margin-top: 0.5em; }
+  th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; }
+  th { background-color: #eee; }
+  .summary { width: auto; }
+  @media print {
+    body { margin: 0; }
+    h2 { page-break-after: avoid; }
+    tr { page-break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<h2>Summary</h2>
+<table class="summary">
+${summaryTable(report).map(([label, value]) => `<tr><th>${escapeHTML(label)}</th><td>${escapeHTML(value)}</td></tr>`).join('\n')}
+</table>
+<h2>Evaluation Performance</h2>
+${tableToHTML(evaluationPerformanceTable(report))}
+<h2>Students</h2>
+${tableToHTML(studentsTable(report))}
+</body>
+</html>
+`;
+};
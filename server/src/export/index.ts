@@ -0,0 +1,3 @@
+export { Cell, Table, tablesToCSV, tablesToWorkbook, workbookToBuffer, escapeHTML, tableToHTML } from './tables';
+export { REPORT_EXPORT_FORMATS, ReportExportFormat, STATUS_LABELS, reportFileName, reportToCSV, reportToWorkbook, reportToHTML } from './ReportExport';
+export { gradebookTable, gradebookFileName, gradebookToCSV, gradebookToWorkbook } from './GradebookExport';
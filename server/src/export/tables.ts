@@ -0,0 +1,50 @@
+import * as XLSX from 'xlsx';
+
+// A table to export: header row followed by data rows
+export type Cell = string | number | null;
+export type Table = Cell[][];
+
+// Text starting with these characters is run as a formula by spreadsheet programs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCSVCell = (cell: Cell): string => {
+  // Numbers are written as they are; text that would be read as a formula is quoted with a leading '
+  const text = cell === null ? '' : typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV text of one or more tables, separated by a blank line
+export const tablesToCSV = (...tables: Table[]): string => {
+  return tables
+    .map(table => table.map(row => row.map(escapeCSVCell).join(',')).join('\r\n'))
+    .join('\r\n\r\n');
+};
+
+// Workbook with one sheet per table (sheet names are limited to 31 characters by Excel)
+export const tablesToWorkbook = (sheets: { name: string; table: Table }[]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, table }) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table), name.slice(0, 31));
+  });
+  return workbook;
+};
+
+export const workbookToBuffer = (workbook: XLSX.WorkBook): Buffer => {
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+};
+
+export const escapeHTML = (text: Cell): string => {
+  return (text === null ? '' : String(text))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// HTML table whose first row is the header
+export const tableToHTML = (table: Table): string => {
+  const [header = [], ...rows] = table;
+  const headerHTML = header.map(cell => `<th>${escapeHTML(cell)}</th>`).join('');
+  const rowsHTML = rows.map(row => `<tr>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<thead><tr>${headerHTML}</tr></thead>\n<tbody>\n${rowsHTML}\n</tbody>\n</table>`;
+};
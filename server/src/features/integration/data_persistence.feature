@@ -12,7 +12,7 @@ Feature: Data Persistence & Consistency
   @write-read
   Scenario: New student enrollment updates the report total
     Given the class "Integration-101" has exactly "2" existing students
-    When I enroll a new student with CPF "999.999.999-99"
+    When I enroll a new student with CPF "390.533.447-05"
     And I request the report for "Integration-101"
     Then the "totalEnrolled" count should be 3
 
@@ -20,10 +20,10 @@ Feature: Data Persistence & Consistency
   Scenario: Unenrolling a student removes them from the report
     Given the class "Integration-101" has the following students:
       | Name      | CPF             |
-      | Student A | 111.111.111-11  |
-      | Student B | 222.222.222-22  |
-      | Student C | 333.333.333-33  |
-    When I unenroll the student "333.333.333-33"
+      | Student A | 529.982.247-25  |
+      | Student B | 111.444.777-35  |
+      | Student C | 123.456.789-09  |
+    When I unenroll the student "123.456.789-09"
     And I request the report for "Integration-101"
     Then the "totalEnrolled" count should be 2
     And the student "Student C" should NOT be present in the list
@@ -48,10 +48,10 @@ Feature: Data Persistence & Consistency
     Given the class "Integration-101" is empty
     When I perform the following operations in order:
       | Action   | Student Name | CPF            |
-      | Enroll   | Alice        | 100.000.000-01 |
-      | Enroll   | Bob          | 200.000.000-02 |
-      | Enroll   | Charlie      | 300.000.000-03 |
-      | Unenroll | -            | 200.000.000-02 |
+      | Enroll   | Alice        | 100.000.000-19 |
+      | Enroll   | Bob          | 200.000.000-27 |
+      | Enroll   | Charlie      | 300.000.000-35 |
+      | Unenroll | -            | 200.000.000-27 |
     And I request the report for "Integration-101"
     Then the "totalEnrolled" count should be 2
     And the list should contain "Alice" and "Charlie"
@@ -19,30 +19,81 @@ export interface IApprovalCriteria {
    * @returns Student's approval status
    */
   determineStatus(enrollment: Enrollment, mediaPreFinal: number | null): StudentStatus;
+
+  /**
+   * Determines whether the student may take the final exam.
+   * @param enrollment The student's enrollment data
+   * @returns True if the pre-final average is in the final exam range and the student did not fail by absence
+   */
+  isEligibleForFinalExam(enrollment: Enrollment): boolean;
+
+  /**
+   * Gets the post-final average that counts for the student.
+   * @param enrollment The student's enrollment data
+   * @returns null without a final exam grade, or when later grade changes moved the student out of the final exam range
+   */
+  getCountedMediaPosFinal(enrollment: Enrollment): number | null;
+}
+
+export interface ApprovalThresholds {
+  directApprovalThreshold: number;
+  finalExamEligibilityThreshold: number;
+  postFinalApprovalThreshold: number;
 }
 
+export const DEFAULT_APPROVAL_THRESHOLDS: ApprovalThresholds = {
+  directApprovalThreshold: 7.0,
+  finalExamEligibilityThreshold: 3.0,
+  postFinalApprovalThreshold: 5.0
+};
+
 /**
- * Default approval criteria.
+ * Approval criteria with configurable thresholds, owned by each class.
  * 
- * Thresholds:
- * - Direct approval: average >= 7.0
- * - Final exam eligibility: average >= 3.0 and < 7.0
- * - Post-final approval: final average >= 5.0
- * - Direct failure: average < 3.0
+ * Rules:
+ * - Direct approval: average >= directApprovalThreshold
+ * - Final exam eligibility: average >= finalExamEligibilityThreshold and < directApprovalThreshold
+ * - Post-final approval: final average >= postFinalApprovalThreshold
+ * - Direct failure: average < finalExamEligibilityThreshold
  */
-export class DefaultApprovalCriteria implements IApprovalCriteria {
-  readonly directApprovalThreshold: number = 7.0;
-  readonly finalExamEligibilityThreshold: number = 3.0;
-  readonly postFinalApprovalThreshold: number = 5.0;
+export class ApprovalCriteria implements IApprovalCriteria {
+  readonly directApprovalThreshold: number;
+  readonly finalExamEligibilityThreshold: number;
+  readonly postFinalApprovalThreshold: number;
+
+  constructor(thresholds: ApprovalThresholds = DEFAULT_APPROVAL_THRESHOLDS) {
+    ApprovalCriteria.validate(thresholds);
+    this.directApprovalThreshold = thresholds.directApprovalThreshold;
+    this.finalExamEligibilityThreshold = thresholds.finalExamEligibilityThreshold;
+    this.postFinalApprovalThreshold = thresholds.postFinalApprovalThreshold;
+  }
+
+  private static validate(thresholds: ApprovalThresholds): void {
+    const entries: [keyof ApprovalThresholds, unknown][] = [
+      ['directApprovalThreshold', thresholds.directApprovalThreshold],
+      ['finalExamEligibilityThreshold', thresholds.finalExamEligibilityThreshold],
+      ['postFinalApprovalThreshold', thresholds.postFinalApprovalThreshold]
+    ];
+
+    for (const [name, value] of entries) {
+      if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 10) {
+        throw new Error(`Invalid ${name}. Must be a number between 0 and 10`);
+      }
+    }
+
+    if (thresholds.finalExamEligibilityThreshold > thresholds.directApprovalThreshold) {
+      throw new Error('finalExamEligibilityThreshold cannot be greater than directApprovalThreshold');
+    }
+  }
 
   determineStatus(enrollment: Enrollment, mediaPreFinal: number | null): StudentStatus {
     if (enrollment.getReprovadoPorFalta()) {
       return 'FAILED_BY_ABSENCE';
     }
 
-    const mediaPosFinal = enrollment.getMediaPosFinal();
+    const mediaPosFinal = this.getCountedMediaPosFinal(enrollment);
 
-    if (mediaPosFinal !== null && mediaPosFinal !== 0) {
+    if (mediaPosFinal !== null) {
       if (mediaPosFinal >= this.postFinalApprovalThreshold) {
         return 'APPROVED_FINAL';
       }
@@ -63,4 +114,50 @@ export class DefaultApprovalCriteria implements IApprovalCriteria {
 
     return 'PENDING';
   }
+
+  isEligibleForFinalExam(enrollment: Enrollment): boolean {
+    if (enrollment.getReprovadoPorFalta()) {
+      return false;
+    }
+
+    const mediaPreFinal = enrollment.getMediaPreFinal();
+    if (mediaPreFinal === null) {
+      return false;
+    }
+
+    return mediaPreFinal >= this.finalExamEligibilityThreshold && mediaPreFinal < this.directApprovalThreshold;
+  }
+
+  getCountedMediaPosFinal(enrollment: Enrollment): number | null {
+    // The exam grade is kept, so it counts again if the goals bring the student back into the final exam range
+    return this.isEligibleForFinalExam(enrollment) ? enrollment.getMediaPosFinal() : null;
+  }
+
+  toJSON(): ApprovalThresholds {
+    return {
+      directApprovalThreshold: this.directApprovalThreshold,
+      finalExamEligibilityThreshold: this.finalExamEligibilityThreshold,
+      postFinalApprovalThreshold: this.postFinalApprovalThreshold
+    };
+  }
+
+  // Create ApprovalCriteria from JSON object, falling back to the defaults for missing thresholds
+  static fromJSON(data?: Partial<ApprovalThresholds>): ApprovalCriteria {
+    return new ApprovalCriteria({ ...DEFAULT_APPROVAL_THRESHOLDS, ...(data ?? {}) });
+  }
+}
+
+/**
+ * Default approval criteria.
+ * 
+ * Thresholds:
+ * - Direct approval: average >= 7.0
+ * - Final exam eligibility: average >= 3.0 and < 7.0
+ * - Post-final approval: final average >= 5.0
+ * - Direct failure: average < 3.0
+ */
+export class DefaultApprovalCriteria extends ApprovalCriteria {
+  constructor() {
+    super(DEFAULT_APPROVAL_THRESHOLDS);
+  }
 }
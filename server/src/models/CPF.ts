@@ -0,0 +1,23 @@
+// Remove the CPF formatting (dots and hyphens)
+export const cleanCPF = (cpf: string): string => {
+  return cpf.replace(/[.-]/g, '');
+};
+
+// Official CPF verification: the last two digits are check digits computed from the first nine.
+// CPFs with all digits equal (000.000.000-00, 111.111.111-11, ...) pass the calculation but are invalid.
+export const hasValidCheckDigits = (cleanCPF: string): boolean => {
+  if (!/^\d{11}$/.test(cleanCPF) || /^(\d)\1{10}$/.test(cleanCPF)) {
+    return false;
+  }
+
+  const digits = cleanCPF.split('').map(Number);
+  const checkDigit = (length: number): number => {
+    const sum = digits
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+
+  return checkDigit(9) === digits[9] && checkDigit(10) === digits[10];
+};
@@ -1,20 +1,62 @@
+import { randomUUID } from 'crypto';
 import { Student } from './Student';
 import { Enrollment } from './Enrollment';
 import { EspecificacaoDoCalculoDaMedia } from './EspecificacaoDoCalculoDaMedia';
+import { LectureSession, AttendanceStatus, ATTENDANCE_STATUSES } from './LectureSession';
+import { ApprovalCriteria, ApprovalThresholds } from './ApprovalCriteria';
+import { GradeChange } from './GradeChange';
+
+// Students fail by absence when more than this percentage of the sessions were missed
+export const DEFAULT_MAX_ABSENCE_PERCENTAGE = 25;
+
+export interface AttendanceRecord {
+  studentCPF: string;
+  status: AttendanceStatus;
+}
+
+export interface AttendanceSummary {
+  totalSessions: number;
+  present: number;
+  absences: number;
+  justified: number;
+  absencePercentage: number;
+}
+
+// A grade change and the enrollment whose history recorded it
+export interface EnrollmentGradeChange {
+  enrollment: Enrollment;
+  change: GradeChange;
+}
 
 export class Class {
+  private readonly id: string;
+  // Composite id (topic-year-semester) the class had when created or migrated, kept as an alias
+  private readonly legacyId: string;
   private topic: string;
   private semester: number;
   private year: number;
-  private readonly especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia;
+  private especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia;
   private enrollments: Enrollment[];
+  private lectureSessions: LectureSession[];
+  private maxAbsencePercentage: number;
+  private approvalCriteria: ApprovalCriteria;
 
-  constructor(topic: string, semester: number, year: number, especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia, enrollments: Enrollment[] = []) {
+  constructor(topic: string, semester: number, year: number, especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia, enrollments: Enrollment[] = [], lectureSessions: LectureSession[] = [], maxAbsencePercentage: number = DEFAULT_MAX_ABSENCE_PERCENTAGE, approvalCriteria: ApprovalCriteria = new ApprovalCriteria(), id: string = randomUUID(), legacyId?: string) {
+    this.id = id;
+    this.legacyId = legacyId ?? Class.compositeId(topic, year, semester);
     this.topic = topic;
     this.semester = semester;
     this.year = year;
     this.especificacaoDoCalculoDaMedia = especificacaoDoCalculoDaMedia;
     this.enrollments = enrollments;
+    this.enrollments.forEach(enrollment => enrollment.setEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia));
+    this.lectureSessions = lectureSessions;
+    this.maxAbsencePercentage = maxAbsencePercentage;
+    this.approvalCriteria = approvalCriteria;
+    // Without sessions there is no attendance data to override reprovadoPorFalta
+    if (this.lectureSessions.length > 0) {
+      this.updateAbsenceStatus();
+    }
   }
 
   // Getters
@@ -34,9 +76,27 @@ export class Class {
     return [...this.enrollments]; // Return copy to prevent external modification
   }
 
-  // Generate unique class ID
+  // Stable generated class ID, not affected by topic/semester/year edits
   getClassId(): string {
-    return `${this.topic}-${this.year}-${this.semester}`;
+    return this.id;
+  }
+
+  getLegacyClassId(): string {
+    return this.legacyId;
+  }
+
+  // Legacy composite id computed from the current topic, year and semester
+  getCompositeId(): string {
+    return Class.compositeId(this.topic, this.year, this.semester);
+  }
+
+  static compositeId(topic: string, year: number, semester: number): string {
+    return `${topic}-${year}-${semester}`;
+  }
+
+  // Check if an id refers to this class (generated id or the legacy composite id alias)
+  matchesId(classId: string): boolean {
+    return this.id === classId || this.legacyId === classId;
   }
 
   // Setters for editing
@@ -56,6 +116,157 @@ export class Class {
     return this.especificacaoDoCalculoDaMedia;
   }
 
+  // Replace the grading specification and recompute the averages of every enrollment
+  setEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia): void {
+    this.especificacaoDoCalculoDaMedia = especificacaoDoCalculoDaMedia;
+    this.enrollments.forEach(enrollment => enrollment.setEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia));
+  }
+
+  // Replace the grading specification as a whole, which must weight every goal that already has grades
+  updateEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia): void {
+    const metas = especificacaoDoCalculoDaMedia.getMetas();
+    const uncoveredGoals = this.getGradedGoals().filter(goal => !metas.includes(goal));
+    if (uncoveredGoals.length > 0) {
+      throw new Error(`Specification does not cover goals already graded: ${uncoveredGoals.join(', ')}`);
+    }
+
+    this.setEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia);
+  }
+
+  // Goals with at least one evaluation in this class
+  getGradedGoals(): string[] {
+    const goals = new Set<string>();
+    this.enrollments.forEach(enrollment => {
+      enrollment.getEvaluations().forEach(evaluation => goals.add(evaluation.getGoal()));
+    });
+    return Array.from(goals);
+  }
+
+  // Goal management - the goals of a class are the goals weighted by its grading specification
+  getGoals(): string[] {
+    return this.especificacaoDoCalculoDaMedia.getMetas();
+  }
+
+  hasGoal(goal: string): boolean {
+    return this.getGoals().includes(goal);
+  }
+
+  addGoal(goal: string, weight: number = 1): void {
+    const name = this.validateGoalName(goal);
+    if (this.hasGoal(name)) {
+      throw new Error('Goal already exists in this class');
+    }
+    this.validateGoalWeight(weight);
+
+    const pesosDasMetas = this.especificacaoDoCalculoDaMedia.getPesosDasMetas();
+    pesosDasMetas.set(name, weight);
+    this.replacePesosDasMetas(pesosDasMetas);
+  }
+
+  // Renaming a goal keeps its grades; the change is recorded in the history of each graded enrollment
+  renameGoal(goal: string, newGoal: string, actor: string | null = null): EnrollmentGradeChange[] {
+    this.ensureGoalExists(goal);
+    const name = this.validateGoalName(newGoal);
+    if (name === goal) {
+      return [];
+    }
+    if (this.hasGoal(name)) {
+      throw new Error('Goal already exists in this class');
+    }
+
+    // Rebuild the map to keep the goal in the same position
+    const pesosDasMetas = new Map<string, number>();
+    this.especificacaoDoCalculoDaMedia.getPesosDasMetas().forEach((peso, meta) => {
+      pesosDasMetas.set(meta === goal ? name : meta, peso);
+    });
+
+    const reason = `Goal "${goal}" renamed to "${name}"`;
+    const changes = this.enrollments.flatMap(enrollment =>
+      enrollment.renameEvaluationGoal(goal, name, actor, reason).map(change => ({ enrollment, change }))
+    );
+    this.replacePesosDasMetas(pesosDasMetas);
+    return changes;
+  }
+
+  setGoalWeight(goal: string, weight: number): void {
+    this.ensureGoalExists(goal);
+    this.validateGoalWeight(weight);
+
+    const pesosDasMetas = this.especificacaoDoCalculoDaMedia.getPesosDasMetas();
+    pesosDasMetas.set(goal, weight);
+    this.replacePesosDasMetas(pesosDasMetas);
+  }
+
+  reorderGoals(goals: string[]): void {
+    const currentGoals = this.getGoals();
+    const isPermutation = goals.length === currentGoals.length
+      && new Set(goals).size === goals.length
+      && goals.every(goal => currentGoals.includes(goal));
+    if (!isPermutation) {
+      throw new Error('Goal order must list every goal of the class exactly once');
+    }
+
+    const pesosAtuais = this.especificacaoDoCalculoDaMedia.getPesosDasMetas();
+    this.replacePesosDasMetas(new Map(goals.map(goal => [goal, pesosAtuais.get(goal)!])));
+  }
+
+  // Remove a goal and the evaluations given for it
+  // Removing a goal removes its grades; the removal is recorded in the history of each graded enrollment
+  removeGoal(goal: string, actor: string | null = null): EnrollmentGradeChange[] {
+    this.ensureGoalExists(goal);
+    if (this.getGoals().length === 1) {
+      throw new Error('A class must have at least one goal');
+    }
+
+    const pesosDasMetas = this.especificacaoDoCalculoDaMedia.getPesosDasMetas();
+    pesosDasMetas.delete(goal);
+    // Build the new specification first so an invalid one leaves the evaluations untouched
+    const especificacao = this.withPesosDasMetas(pesosDasMetas);
+
+    const changes: EnrollmentGradeChange[] = [];
+    this.enrollments.forEach(enrollment => {
+      const change = enrollment.changeEvaluation(goal, null, actor, `Goal "${goal}" removed`);
+      if (change) {
+        changes.push({ enrollment, change });
+      }
+    });
+    this.setEspecificacaoDoCalculoDaMedia(especificacao);
+    return changes;
+  }
+
+  private replacePesosDasMetas(pesosDasMetas: Map<string, number>): void {
+    this.setEspecificacaoDoCalculoDaMedia(this.withPesosDasMetas(pesosDasMetas));
+  }
+
+  private withPesosDasMetas(pesosDasMetas: Map<string, number>): EspecificacaoDoCalculoDaMedia {
+    const especificacao = this.especificacaoDoCalculoDaMedia;
+    return new EspecificacaoDoCalculoDaMedia(
+      especificacao.getPesosDosConceitos(),
+      pesosDasMetas,
+      especificacao.getPesosDaMediaPosFinal()
+    );
+  }
+
+  private ensureGoalExists(goal: string): void {
+    if (!this.hasGoal(goal)) {
+      throw new Error('Goal not found');
+    }
+  }
+
+  private validateGoalName(goal: string): string {
+    const name = typeof goal === 'string' ? goal.trim() : '';
+    if (!name) {
+      throw new Error('Goal name is required');
+    }
+    return name;
+  }
+
+  private validateGoalWeight(weight: number): void {
+    if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+      throw new Error('Goal weight must be a non-negative number');
+    }
+  }
+
   // Enrollment management
   addEnrollment(student: Student): Enrollment {
     // Check if student is already enrolled
@@ -65,6 +276,7 @@ export class Class {
     }
 
     const enrollment = new Enrollment(student);
+    enrollment.setEspecificacaoDoCalculoDaMedia(this.especificacaoDoCalculoDaMedia);
     this.enrollments.push(enrollment);
     return enrollment;
   }
@@ -79,6 +291,7 @@ export class Class {
     }
 
     this.enrollments.splice(index, 1);
+    this.lectureSessions.forEach(session => session.removeAttendance(studentCPF));
     return true;
   }
 
@@ -93,20 +306,127 @@ export class Class {
     return this.enrollments.map(enrollment => enrollment.getStudent());
   }
 
+  // Lecture session management
+  getLectureSessions(): LectureSession[] {
+    return [...this.lectureSessions].sort((a, b) => a.getDate().localeCompare(b.getDate()));
+  }
+
+  findLectureSessionById(sessionId: string): LectureSession | undefined {
+    return this.lectureSessions.find(session => session.getId() === sessionId);
+  }
+
+  addLectureSession(date: string, topic: string): LectureSession {
+    const session = new LectureSession(date, topic);
+    this.lectureSessions.push(session);
+    this.updateAbsenceStatus();
+    return session;
+  }
+
+  removeLectureSession(sessionId: string): boolean {
+    const index = this.lectureSessions.findIndex(session => session.getId() === sessionId);
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.lectureSessions.splice(index, 1);
+    this.updateAbsenceStatus();
+    return true;
+  }
+
+  // Record attendance of several students for a session. All records are validated before any is applied.
+  recordAttendance(sessionId: string, records: AttendanceRecord[]): LectureSession {
+    const session = this.findLectureSessionById(sessionId);
+    if (!session) {
+      throw new Error('Lecture session not found');
+    }
+
+    records.forEach(record => {
+      if (!ATTENDANCE_STATUSES.includes(record.status)) {
+        throw new Error(`Invalid attendance status for student ${record.studentCPF}. Must be PRESENT, ABSENT, or JUSTIFIED`);
+      }
+      if (!this.findEnrollmentByStudentCPF(record.studentCPF)) {
+        throw new Error(`Student ${record.studentCPF} is not enrolled in this class`);
+      }
+    });
+
+    records.forEach(record => session.setAttendance(record.studentCPF, record.status));
+    this.updateAbsenceStatus();
+    return session;
+  }
+
+  getMaxAbsencePercentage(): number {
+    return this.maxAbsencePercentage;
+  }
+
+  setMaxAbsencePercentage(maxAbsencePercentage: number): void {
+    if (isNaN(maxAbsencePercentage) || maxAbsencePercentage < 0 || maxAbsencePercentage > 100) {
+      throw new Error('Maximum absence percentage must be between 0 and 100');
+    }
+    this.maxAbsencePercentage = maxAbsencePercentage;
+    this.updateAbsenceStatus();
+  }
+
+  getApprovalCriteria(): ApprovalCriteria {
+    return this.approvalCriteria;
+  }
+
+  // Replace the approval thresholds of the class (validated by ApprovalCriteria)
+  setApprovalCriteria(thresholds: ApprovalThresholds): ApprovalCriteria {
+    this.approvalCriteria = new ApprovalCriteria(thresholds);
+    return this.approvalCriteria;
+  }
+
+  // Summarize the attendance of a student over all sessions of the class
+  getAttendanceSummary(studentCPF: string): AttendanceSummary {
+    let present = 0;
+    let absences = 0;
+    let justified = 0;
+
+    this.lectureSessions.forEach(session => {
+      const status = session.getAttendance(studentCPF);
+      if (status === 'PRESENT') {
+        present++;
+      } else if (status === 'ABSENT') {
+        absences++;
+      } else if (status === 'JUSTIFIED') {
+        justified++;
+      }
+    });
+
+    const totalSessions = this.lectureSessions.length;
+    const absencePercentage = totalSessions > 0 ? (absences / totalSessions) * 100 : 0;
+
+    return { totalSessions, present, absences, justified, absencePercentage };
+  }
+
+  // Students whose unjustified absences exceed the maximum percentage fail by absence
+  private updateAbsenceStatus(): void {
+    this.enrollments.forEach(enrollment => {
+      const { absencePercentage } = this.getAttendanceSummary(enrollment.getStudent().getCPF());
+      enrollment.setReprovadoPorFalta(absencePercentage > this.maxAbsencePercentage);
+    });
+  }
+
   // Convert to JSON for API responses
   toJSON() {
     return {
-      id: this.getClassId(),
+      id: this.id,
+      legacyId: this.legacyId,
       topic: this.topic,
       semester: this.semester,
       year: this.year,
       especificacaoDoCalculoDaMedia: this.especificacaoDoCalculoDaMedia.toJSON(),
+      goals: this.getGoals(),
+      maxAbsencePercentage: this.maxAbsencePercentage,
+      approvalCriteria: this.approvalCriteria.toJSON(),
+      lectureSessions: this.getLectureSessions().map(session => session.toJSON()),
       enrollments: this.enrollments.map(enrollment => enrollment.toJSON())
     };
   }
 
   // Create Class from JSON object
-  static fromJSON(data: { topic: string; semester: number; year: number; especificacaoDoCalculoDaMedia: any, enrollments: any[] }, allStudents: Student[]): Class {
+  static fromJSON(data: { id?: string; legacyId?: string; topic: string; semester: number; year: number; especificacaoDoCalculoDaMedia: any, enrollments: any[], lectureSessions?: any[], maxAbsencePercentage?: number, approvalCriteria?: Partial<ApprovalThresholds> }, allStudents: Student[]): Class {
     const enrollments = data.enrollments
       ? data.enrollments.map((enrollmentData: any) => {
           const student = allStudents.find(s => s.getCPF() === enrollmentData.student.cpf);
@@ -120,6 +440,10 @@ export class Class {
     // Novo carregamento do EspecificacaoDoCalculoDaMedia
     const especificacaoDoCalculoDaMedia = EspecificacaoDoCalculoDaMedia.fromJSON(data.especificacaoDoCalculoDaMedia);
 
-    return new Class(data.topic, data.semester, data.year, especificacaoDoCalculoDaMedia, enrollments);
+    const lectureSessions = data.lectureSessions
+      ? data.lectureSessions.map((sessionData: any) => LectureSession.fromJSON(sessionData))
+      : [];
+
+    return new Class(data.topic, data.semester, data.year, especificacaoDoCalculoDaMedia, enrollments, lectureSessions, data.maxAbsencePercentage ?? DEFAULT_MAX_ABSENCE_PERCENTAGE, ApprovalCriteria.fromJSON(data.approvalCriteria), data.id, data.legacyId);
   }
 }
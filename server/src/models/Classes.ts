@@ -11,17 +11,22 @@ export class Classes {
   // Add a new class
   addClass(classObj: Class): Class {
     // Check if class already exists (same topic, year, semester)
-    if (this.findClassById(classObj.getClassId())) {
+    if (this.findClassByDetails(classObj.getTopic(), classObj.getYear(), classObj.getSemester())) {
       throw new Error('Class with same topic, year, and semester already exists');
     }
 
+    if (this.classes.some(c => c.getClassId() === classObj.getClassId())) {
+      throw new Error('Class with same ID already exists');
+    }
+
     this.classes.push(classObj);
     return classObj;
   }
 
-  // Remove class by ID
+  // Remove class by ID (or legacy composite ID)
   removeClass(classId: string): boolean {
-    const index = this.classes.findIndex(c => c.getClassId() === classId);
+    const classObj = this.findClassById(classId);
+    const index = classObj ? this.classes.indexOf(classObj) : -1;
     
     if (index === -1) {
       return false;
@@ -81,9 +86,21 @@ export class Classes {
     return existingClass;
   }
 
-  // Find class by ID
+  // Find class by ID; legacy composite IDs (topic-year-semester) are accepted as aliases
+  // only while they refer to a single class
   findClassById(classId: string): Class | undefined {
-    return this.classes.find(c => c.getClassId() === classId);
+    const classObj = this.classes.find(c => c.getClassId() === classId);
+    if (classObj) {
+      return classObj;
+    }
+
+    const aliased = this.classes.filter(c => c.getLegacyClassId() === classId);
+    return aliased.length === 1 ? aliased[0] : undefined;
+  }
+
+  // Find class by topic, year and semester
+  findClassByDetails(topic: string, year: number, semester: number): Class | undefined {
+    return this.classes.find(c => c.getTopic() === topic && c.getYear() === Number(year) && c.getSemester() === Number(semester));
   }
 
   // Get all classes
@@ -1,5 +1,7 @@
 import { Student } from './Student';
-import { Evaluation } from './Evaluation';
+import { Evaluation, Grade } from './Evaluation';
+import { GradeChange } from './GradeChange';
+import { EspecificacaoDoCalculoDaMedia, DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA } from './EspecificacaoDoCalculoDaMedia';
 
 export class Enrollment {
   private student: Student;
@@ -8,14 +10,21 @@ export class Enrollment {
   private mediaPreFinal: number | null;
   // Média do estudante depois da final
   private mediaPosFinal: number | null;
+  // Nota da prova final (null se o estudante não fez a prova final)
+  private notaDaProvaFinal: number | null;
   private reprovadoPorFalta: Boolean;
+  // Histórico (somente acréscimo) das mudanças de conceito feitas pelos professores
+  private history: GradeChange[] = [];
+  // Especificação do cálculo da média da turma à qual a matrícula pertence
+  private especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia = DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA;
 
-  constructor(student: Student, evaluations: Evaluation[] = [], mediaPreFinal: number | null = null, mediaPosFinal: number | null = null, reprovadoPorFalta: Boolean = false) {
+  constructor(student: Student, evaluations: Evaluation[] = [], mediaPreFinal: number | null = null, mediaPosFinal: number | null = null, reprovadoPorFalta: Boolean = false, notaDaProvaFinal: number | null = null) {
     this.student = student;
     this.evaluations = evaluations;
     this.mediaPreFinal = mediaPreFinal;
     this.mediaPosFinal = mediaPosFinal;
     this.reprovadoPorFalta = reprovadoPorFalta;
+    this.notaDaProvaFinal = notaDaProvaFinal;
   }
 
   // Get student
@@ -28,14 +37,43 @@ export class Enrollment {
     return [...this.evaluations]; // Return copy to prevent external modification
   }
 
+  // Get especificação do cálculo da média usada pela matrícula
+  getEspecificacaoDoCalculoDaMedia(): EspecificacaoDoCalculoDaMedia {
+    return this.especificacaoDoCalculoDaMedia;
+  }
+
+  // Set especificação do cálculo da média (a da turma) e recalcula as médias
+  setEspecificacaoDoCalculoDaMedia(especificacaoDoCalculoDaMedia: EspecificacaoDoCalculoDaMedia): void {
+    this.especificacaoDoCalculoDaMedia = especificacaoDoCalculoDaMedia;
+    this.recalculateMedias();
+  }
+
   // Calcula a média do estudante antes da prova final
   calculateMediaPreFinal(): number {
-    throw new Error('calculateMedia() not implemented yet');
+    const notasDasMetas = new Map<string, Grade>();
+    this.evaluations.forEach(evaluation => {
+      notasDasMetas.set(evaluation.getGoal(), evaluation.getGrade());
+    });
+    return this.especificacaoDoCalculoDaMedia.calc(notasDasMetas);
   }
 
   // Calcula a média do estudante depois da prova final
+  // Sem nota de prova final, a média final é a própria média pré-final
   calculateMediaPosFinal(): number {
-    throw new Error('calculateMedia() not implemented yet');
+    const mediaPreFinal = this.calculateMediaPreFinal();
+    if (this.notaDaProvaFinal === null) {
+      return mediaPreFinal;
+    }
+    return this.especificacaoDoCalculoDaMedia.calcMediaPosFinal(mediaPreFinal, this.notaDaProvaFinal);
+  }
+
+  // Recalcula as médias a partir das avaliações e da nota da prova final atuais
+  // (a média pós-final só existe para quem fez a prova final)
+  private recalculateMedias(): void {
+    this.mediaPreFinal = this.evaluations.length > 0 ? this.calculateMediaPreFinal() : null;
+    this.mediaPosFinal = this.mediaPreFinal !== null && this.notaDaProvaFinal !== null
+      ? this.calculateMediaPosFinal()
+      : null;
   }
 
   // Get media do estudante antes da prova final
@@ -58,6 +96,17 @@ export class Enrollment {
     this.mediaPosFinal = mediaPosFinal;
   }
 
+  // Get nota da prova final
+  getNotaDaProvaFinal(): number | null {
+    return this.notaDaProvaFinal;
+  }
+
+  // Set nota da prova final (null remove a nota) e recalcula a média pós-final
+  setNotaDaProvaFinal(notaDaProvaFinal: number | null): void {
+    this.notaDaProvaFinal = notaDaProvaFinal;
+    this.recalculateMedias();
+  }
+
   // Get reprovado por falta 
   getReprovadoPorFalta(): Boolean {
     return this.reprovadoPorFalta;
@@ -76,6 +125,7 @@ export class Enrollment {
     } else {
       this.evaluations.push(new Evaluation(goal, grade));
     }
+    this.recalculateMedias();
   }
 
   // Remove an evaluation
@@ -83,11 +133,62 @@ export class Enrollment {
     const existingIndex = this.evaluations.findIndex(evaluation => evaluation.getGoal() === goal);
     if (existingIndex >= 0) {
       this.evaluations.splice(existingIndex, 1);
+      this.recalculateMedias();
       return true;
     }
     return false;
   }
 
+  // Rename the goal of an evaluation, keeping its grade. The history records the grade leaving
+  // the old goal and being given to the new one; returns the recorded changes.
+  renameEvaluationGoal(goal: string, newGoal: string, actor: string | null = null, reason: string | null = null): GradeChange[] {
+    const evaluation = this.getEvaluationForGoal(goal);
+    if (!evaluation) {
+      return [];
+    }
+    // Drop any stray evaluation already using the new name
+    const replacedGrade = this.getEvaluationForGoal(newGoal)?.getGrade() ?? null;
+    this.evaluations = this.evaluations.filter(e => e.getGoal() !== newGoal);
+    evaluation.setGoal(newGoal);
+    this.recalculateMedias();
+
+    const changes = [
+      new GradeChange(goal, evaluation.getGrade(), null, actor, reason),
+      new GradeChange(newGoal, replacedGrade, evaluation.getGrade(), actor, reason)
+    ];
+    this.history.push(...changes);
+    return changes;
+  }
+
+  // Change the grade of a goal (null removes it), appending the change to the history.
+  // Returns the recorded change, or null when the grade did not change.
+  changeEvaluation(goal: string, grade: Grade | null, actor: string | null = null, reason: string | null = null): GradeChange | null {
+    const oldGrade = this.getEvaluationForGoal(goal)?.getGrade() ?? null;
+    if (oldGrade === grade) {
+      return null;
+    }
+
+    if (grade === null) {
+      this.removeEvaluation(goal);
+    } else {
+      this.addOrUpdateEvaluation(goal, grade);
+    }
+
+    const change = new GradeChange(goal, oldGrade, grade, actor, reason);
+    this.history.push(change);
+    return change;
+  }
+
+  // Get the history of grade changes, oldest first
+  getHistory(): GradeChange[] {
+    return [...this.history];
+  }
+
+  // Append changes loaded from storage to the history
+  restoreHistory(changes: GradeChange[]): void {
+    this.history.push(...changes);
+  }
+
   // Get evaluation for a specific goal
   getEvaluationForGoal(goal: string): Evaluation | undefined {
     return this.evaluations.find(evaluation => evaluation.getGoal() === goal);
@@ -100,6 +201,7 @@ export class Enrollment {
       evaluations: this.evaluations.map(evaluation => evaluation.toJSON()),
       mediaPreFinal: this.mediaPreFinal,
       mediaPosFinal: this.mediaPosFinal,
+      notaDaProvaFinal: this.notaDaProvaFinal,
       reprovadoPorFalta: this.reprovadoPorFalta
     };
   }
@@ -110,6 +212,7 @@ export class Enrollment {
     evaluations: any[];
     mediaPreFinal?: number;
     mediaPosFinal?: number;
+    notaDaProvaFinal?: number | null;
     reprovadoPorFalta?: boolean;
   }, student: Student): Enrollment {
     const evaluations = data.evaluations
@@ -119,7 +222,8 @@ export class Enrollment {
     const mediaPreFinal = data.mediaPreFinal ?? 0;
     const mediaPosFinal = data.mediaPosFinal ?? 0;
     const reprovadoPorFalta = data.reprovadoPorFalta ?? false;
+    const notaDaProvaFinal = data.notaDaProvaFinal ?? null;
     
-    return new Enrollment(student, evaluations, mediaPreFinal, mediaPosFinal, reprovadoPorFalta);
+    return new Enrollment(student, evaluations, mediaPreFinal, mediaPosFinal, reprovadoPorFalta, notaDaProvaFinal);
   }
 }
@@ -1,12 +1,21 @@
+import { EVALUATION_GOALS } from './Evaluation';
+
 export type Grade = 'MANA' | 'MPA' | 'MA';
 type Meta = string;
 
+// Pesos da fórmula da média pós-final: média ponderada entre a média pré-final e a nota da prova final
+export interface PesosDaMediaPosFinal {
+    mediaPreFinal: number;
+    provaFinal: number;
+}
+
 export class EspecificacaoDoCalculoDaMedia {
     private readonly pesosDosConceitos: Map<Grade, number>; // MA, MPA, MANA
     private readonly pesosDasMetas: Map<Meta, number>; // "Gerência de Configuração", "Gerência de Projeto", etc.
     private readonly somaDosPesosDasMetas: number;
+    private readonly pesosDaMediaPosFinal: PesosDaMediaPosFinal;
 
-    constructor(pesosIniciasDosConceitos: Map<Grade, number>, pesosIniciaisDasMetas: Map<Meta, number>) 
+    constructor(pesosIniciasDosConceitos: Map<Grade, number>, pesosIniciaisDasMetas: Map<Meta, number>, pesosDaMediaPosFinal: PesosDaMediaPosFinal = DEFAULT_PESOS_DA_MEDIA_POS_FINAL) 
     {
         // congela os maps depois de criados
         this.pesosDosConceitos = new Map(pesosIniciasDosConceitos);
@@ -17,6 +26,30 @@ export class EspecificacaoDoCalculoDaMedia {
 
         if (this.somaDosPesosDasMetas === 0)
             throw new Error("A soma dos pesos das metas não pode ser zero.");
+
+        this.pesosDaMediaPosFinal = { ...pesosDaMediaPosFinal };
+
+        if (this.pesosDaMediaPosFinal.mediaPreFinal + this.pesosDaMediaPosFinal.provaFinal === 0)
+            throw new Error("A soma dos pesos da média pós-final não pode ser zero.");
+    }
+
+    // Metas da especificação, na ordem em que são exibidas
+    getMetas(): Meta[] {
+        return Array.from(this.pesosDasMetas.keys());
+    }
+
+    // Cópia dos pesos das metas (a especificação é imutável)
+    getPesosDasMetas(): Map<Meta, number> {
+        return new Map(this.pesosDasMetas);
+    }
+
+    // Cópia dos pesos dos conceitos (a especificação é imutável)
+    getPesosDosConceitos(): Map<Grade, number> {
+        return new Map(this.pesosDosConceitos);
+    }
+
+    getPesosDaMediaPosFinal(): PesosDaMediaPosFinal {
+        return { ...this.pesosDaMediaPosFinal };
     }
 
     /**
@@ -30,14 +63,27 @@ export class EspecificacaoDoCalculoDaMedia {
 
         for (const [meta, conceito] of notasDasMetas.entries()) 
         {
-            const pesoDoConceito = this.pesosDosConceitos.get(conceito)!;
-            const pesoDaMeta = this.pesosDasMetas.get(meta)!;
+            // metas ou conceitos fora da especificação não contribuem para a média
+            const pesoDoConceito = this.pesosDosConceitos.get(conceito) ?? 0;
+            const pesoDaMeta = this.pesosDasMetas.get(meta) ?? 0;
             somaTotal += pesoDaMeta * pesoDoConceito;
         }
 
         return somaTotal / this.somaDosPesosDasMetas;
     }
 
+    /**
+     * Calcula a média do aluno depois da prova final.
+     * @param mediaPreFinal Média do aluno antes da prova final.
+     * @param notaDaProvaFinal Nota obtida na prova final.
+     * @returns A média ponderada entre a média pré-final e a nota da prova final.
+    */
+    calcMediaPosFinal(mediaPreFinal: number, notaDaProvaFinal: number): number 
+    {
+        const { mediaPreFinal: pesoDaMediaPreFinal, provaFinal: pesoDaProvaFinal } = this.pesosDaMediaPosFinal;
+        return (pesoDaMediaPreFinal * mediaPreFinal + pesoDaProvaFinal * notaDaProvaFinal) / (pesoDaMediaPreFinal + pesoDaProvaFinal);
+    }
+
     // Exporta dados apenas em formato serializável
     toJSON() 
     {
@@ -46,10 +92,58 @@ export class EspecificacaoDoCalculoDaMedia {
 
         return {
             pesosDosConceitos: mapToObject(this.pesosDosConceitos),
-            pesosDasMetas: mapToObject(this.pesosDasMetas)
+            pesosDasMetas: mapToObject(this.pesosDasMetas),
+            pesosDaMediaPosFinal: { ...this.pesosDaMediaPosFinal }
         };
     }
 
+    /**
+     * Constrói uma instância a partir de dados enviados pela API, validando-os.
+     * Diferente de fromJSON, não aceita formatos antigos nem completa dados ausentes.
+     * @throws Error com a descrição do primeiro problema encontrado.
+    */
+    static fromRequest(data: any): EspecificacaoDoCalculoDaMedia {
+        if (!isObjeto(data))
+            throw new Error("A especificação do cálculo da média é obrigatória.");
+
+        const conceitos = data.pesosDosConceitos;
+        if (!isObjeto(conceitos))
+            throw new Error("Os pesos dos conceitos (MA, MPA, MANA) são obrigatórios.");
+
+        const conceitosDesconhecidos = Object.keys(conceitos).filter(conceito => !CONCEITOS.includes(conceito as Grade));
+        if (conceitosDesconhecidos.length > 0)
+            throw new Error(`Conceitos desconhecidos: ${conceitosDesconhecidos.join(', ')}.`);
+
+        for (const conceito of CONCEITOS) {
+            if (!isPeso(conceitos[conceito]) || conceitos[conceito] > 10)
+                throw new Error(`O peso do conceito ${conceito} deve ser um número entre 0 e 10.`);
+        }
+
+        if (!(conceitos.MA >= conceitos.MPA && conceitos.MPA >= conceitos.MANA))
+            throw new Error("Os pesos dos conceitos devem respeitar a ordem MA ≥ MPA ≥ MANA.");
+
+        const metas = data.pesosDasMetas;
+        if (!isObjeto(metas) || Object.keys(metas).length === 0)
+            throw new Error("A especificação deve ter pelo menos uma meta.");
+
+        for (const [meta, peso] of Object.entries(metas)) {
+            if (!meta.trim())
+                throw new Error("O nome das metas não pode ser vazio.");
+            if (!isPeso(peso))
+                throw new Error(`O peso da meta "${meta}" deve ser um número não negativo.`);
+        }
+
+        const pesosDaMediaPosFinal = data.pesosDaMediaPosFinal !== undefined
+            ? validarPesosDaMediaPosFinal(data.pesosDaMediaPosFinal, false)
+            : DEFAULT_PESOS_DA_MEDIA_POS_FINAL;
+
+        return new EspecificacaoDoCalculoDaMedia(
+            new Map(CONCEITOS.map(conceito => [conceito, conceitos[conceito]])),
+            new Map(Object.entries(metas) as [Meta, number][]),
+            pesosDaMediaPosFinal
+        );
+    }
+
     // Reconstrói uma instância a partir de dados serializados
     static fromJSON(data: any): EspecificacaoDoCalculoDaMedia {
         // Handle undefined or null data by returning default instance
@@ -81,28 +175,53 @@ export class EspecificacaoDoCalculoDaMedia {
     
         const pesoDosConceitos = normalize(data.pesosDosConceitos);
         const pesoDasMetas = normalize(data.pesosDasMetas);
+        // arquivos antigos não têm a fórmula da média pós-final, ou só parte dos pesos dela
+        const pesosDaMediaPosFinal = data.pesosDaMediaPosFinal
+            ? validarPesosDaMediaPosFinal(data.pesosDaMediaPosFinal, true)
+            : DEFAULT_PESOS_DA_MEDIA_POS_FINAL;
     
-        return new EspecificacaoDoCalculoDaMedia(pesoDosConceitos as Map<any, number>, pesoDasMetas as Map<any, number>);
+        return new EspecificacaoDoCalculoDaMedia(pesoDosConceitos as Map<any, number>, pesoDasMetas as Map<any, number>, pesosDaMediaPosFinal);
     }
 }
 
 
+const CONCEITOS: Grade[] = ['MA', 'MPA', 'MANA'];
+
+const isObjeto = (x: any) => !!x && typeof x === 'object' && !Array.isArray(x);
+const isPeso = (x: any) => typeof x === 'number' && isFinite(x) && x >= 0;
+
+// Valida os pesos da média pós-final; com completarAusentes, cada peso ausente assume o valor padrão
+const validarPesosDaMediaPosFinal = (posFinal: any, completarAusentes: boolean): PesosDaMediaPosFinal => {
+    const peso = (chave: keyof PesosDaMediaPosFinal) =>
+        completarAusentes && isObjeto(posFinal) && posFinal[chave] === undefined
+            ? DEFAULT_PESOS_DA_MEDIA_POS_FINAL[chave]
+            : posFinal?.[chave];
+
+    const pesos = { mediaPreFinal: peso('mediaPreFinal'), provaFinal: peso('provaFinal') };
+    if (!isObjeto(posFinal) || !isPeso(pesos.mediaPreFinal) || !isPeso(pesos.provaFinal))
+        throw new Error("Os pesos da média pós-final (mediaPreFinal, provaFinal) devem ser números não negativos.");
+    return pesos;
+};
+
 const DEFAULT_PESOS_DOS_CONCEITOS = new Map<Grade, number>([
   ['MA', 10],
   ['MPA', 7],
   ['MANA', 0],
 ]);
 
-const DEFAULT_PESOS_DAS_METAS = new Map<Meta, number>([
-  ['Requirements', 1],
-  ['Configuration Management', 1],
-  ['Project Management', 1],
-  ['Design', 1],
-  ['Tests', 1],
-  ['Refactoring', 1],
-]);
+// Metas padrão de uma turma nova, todas com o mesmo peso
+const DEFAULT_PESOS_DAS_METAS = new Map<Meta, number>(
+  EVALUATION_GOALS.map(meta => [meta, 1])
+);
+
+// Média aritmética entre a média pré-final e a nota da prova final
+const DEFAULT_PESOS_DA_MEDIA_POS_FINAL: PesosDaMediaPosFinal = {
+  mediaPreFinal: 1,
+  provaFinal: 1,
+};
 
 export const DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA = new EspecificacaoDoCalculoDaMedia(
   DEFAULT_PESOS_DOS_CONCEITOS,
-  DEFAULT_PESOS_DAS_METAS
+  DEFAULT_PESOS_DAS_METAS,
+  DEFAULT_PESOS_DA_MEDIA_POS_FINAL
 );
\ No newline at end of file
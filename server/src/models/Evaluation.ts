@@ -13,6 +13,10 @@ export class Evaluation {
     return this.goal;
   }
 
+  public setGoal(goal: string): void {
+    this.goal = goal;
+  }
+
   public getGrade(): Grade {
     return this.grade;
   }
@@ -34,7 +38,7 @@ export class Evaluation {
   }
 }
 
-// Predefined evaluation goals
+// Default evaluation goals of a new class (each class manages its own goals afterwards)
 export const EVALUATION_GOALS = [
   'Requirements',
   'Configuration Management', 
@@ -0,0 +1,61 @@
+import { Grade } from './Evaluation';
+
+// One entry of the append-only history of grade changes of an enrollment
+// (oldGrade null: the goal was graded for the first time; newGrade null: the grade was removed)
+export class GradeChange {
+  private readonly goal: string;
+  private readonly oldGrade: Grade | null;
+  private readonly newGrade: Grade | null;
+  private readonly timestamp: string;
+  private readonly actor: string | null;
+  private readonly reason: string | null;
+
+  constructor(goal: string, oldGrade: Grade | null, newGrade: Grade | null, actor: string | null = null, reason: string | null = null, timestamp: string = new Date().toISOString()) {
+    this.goal = goal;
+    this.oldGrade = oldGrade;
+    this.newGrade = newGrade;
+    this.actor = actor;
+    this.reason = reason;
+    this.timestamp = timestamp;
+  }
+
+  getGoal(): string {
+    return this.goal;
+  }
+
+  getOldGrade(): Grade | null {
+    return this.oldGrade;
+  }
+
+  getNewGrade(): Grade | null {
+    return this.newGrade;
+  }
+
+  getTimestamp(): string {
+    return this.timestamp;
+  }
+
+  getActor(): string | null {
+    return this.actor;
+  }
+
+  getReason(): string | null {
+    return this.reason;
+  }
+
+  toJSON() {
+    return {
+      goal: this.goal,
+      oldGrade: this.oldGrade,
+      newGrade: this.newGrade,
+      timestamp: this.timestamp,
+      actor: this.actor,
+      reason: this.reason
+    };
+  }
+
+  // Create GradeChange from JSON object
+  static fromJSON(data: { goal: string; oldGrade: Grade | null; newGrade: Grade | null; timestamp: string; actor?: string | null; reason?: string | null }): GradeChange {
+    return new GradeChange(data.goal, data.oldGrade ?? null, data.newGrade ?? null, data.actor ?? null, data.reason ?? null, data.timestamp);
+  }
+}
@@ -0,0 +1,96 @@
+export const DEFAULT_HISTOGRAM_BUCKETS = 10;
+export const MAX_HISTOGRAM_BUCKETS = 20;
+const MAX_GRADE = 10;
+
+// Final grades from `from` (inclusive) to `to` (exclusive, except for the last bucket, which includes 10)
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Descriptive statistics of a set of final grades; every value is null when there is no grade
+export interface GradeStatistics {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  min: number | null;
+  max: number | null;
+  firstQuartile: number | null;
+  thirdQuartile: number | null;
+  histogram: HistogramBucket[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Quantile with linear interpolation between the closest ranks of the sorted grades
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Splits the 0-10 scale into bucketCount buckets of the same width
+const buildHistogram = (grades: number[], bucketCount: number): HistogramBucket[] => {
+  const width = MAX_GRADE / bucketCount;
+  const histogram = Array.from({ length: bucketCount }, (_, index) => ({
+    from: round(index * width),
+    to: round((index + 1) * width),
+    count: 0
+  }));
+
+  grades.forEach(grade => {
+    const index = Math.min(bucketCount - 1, Math.max(0, Math.floor(grade / width)));
+    histogram[index].count++;
+  });
+  return histogram;
+};
+
+export function describeGrades(grades: number[], bucketCount: number = DEFAULT_HISTOGRAM_BUCKETS): GradeStatistics {
+  const histogram = buildHistogram(grades, bucketCount);
+  if (grades.length === 0) {
+    return {
+      count: 0,
+      mean: null,
+      median: null,
+      standardDeviation: null,
+      min: null,
+      max: null,
+      firstQuartile: null,
+      thirdQuartile: null,
+      histogram
+    };
+  }
+
+  const sorted = [...grades].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, grade) => sum + grade, 0) / sorted.length;
+  // Population standard deviation: the class is the whole population, not a sample
+  const variance = sorted.reduce((sum, grade) => sum + (grade - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean: round(mean),
+    median: round(quantile(sorted, 0.5)),
+    standardDeviation: round(Math.sqrt(variance)),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    firstQuartile: round(quantile(sorted, 0.25)),
+    thirdQuartile: round(quantile(sorted, 0.75)),
+    histogram
+  };
+}
+
+// Reads ?buckets= (number of histogram buckets), throwing on invalid values
+export function parseHistogramBuckets(value: unknown): number {
+  if (value === undefined || value === '') {
+    return DEFAULT_HISTOGRAM_BUCKETS;
+  }
+
+  const buckets = Number(value);
+  if (!Number.isInteger(buckets) || buckets < 1 || buckets > MAX_HISTOGRAM_BUCKETS) {
+    throw new Error(`Buckets must be an integer between 1 and ${MAX_HISTOGRAM_BUCKETS}`);
+  }
+  return buckets;
+}
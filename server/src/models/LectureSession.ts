@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+
+export type AttendanceStatus = 'PRESENT' | 'ABSENT' | 'JUSTIFIED';
+
+export const ATTENDANCE_STATUSES: readonly AttendanceStatus[] = ['PRESENT', 'ABSENT', 'JUSTIFIED'];
+
+export class LectureSession {
+  private readonly id: string;
+  private date: string;
+  private topic: string;
+  // Attendance of each student, keyed by clean CPF
+  private attendance: Map<string, AttendanceStatus>;
+
+  constructor(date: string, topic: string, id: string = randomUUID(), attendance: Map<string, AttendanceStatus> = new Map()) {
+    this.validateDate(date);
+    this.id = id;
+    this.date = date;
+    this.topic = topic;
+    this.attendance = new Map(attendance);
+  }
+
+  private validateDate(date: string): void {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      throw new Error('Invalid session date. Use the YYYY-MM-DD format');
+    }
+  }
+
+  getId(): string {
+    return this.id;
+  }
+
+  getDate(): string {
+    return this.date;
+  }
+
+  getTopic(): string {
+    return this.topic;
+  }
+
+  // Get attendance status of a student (undefined if not recorded yet)
+  getAttendance(studentCPF: string): AttendanceStatus | undefined {
+    return this.attendance.get(studentCPF);
+  }
+
+  // Record attendance of a student
+  setAttendance(studentCPF: string, status: AttendanceStatus): void {
+    this.attendance.set(studentCPF, status);
+  }
+
+  // Remove attendance record of a student
+  removeAttendance(studentCPF: string): boolean {
+    return this.attendance.delete(studentCPF);
+  }
+
+  // Convert to JSON for API responses
+  toJSON() {
+    return {
+      id: this.id,
+      date: this.date,
+      topic: this.topic,
+      attendance: Array.from(this.attendance.entries()).map(([studentCPF, status]) => ({ studentCPF, status }))
+    };
+  }
+
+  // Create LectureSession from JSON object
+  static fromJSON(data: { id: string; date: string; topic: string; attendance?: { studentCPF: string; status: AttendanceStatus }[] }): LectureSession {
+    const attendance = new Map<string, AttendanceStatus>(
+      (data.attendance ?? []).map(record => [record.studentCPF, record.status])
+    );
+    return new LectureSession(data.date, data.topic, data.id, attendance);
+  }
+}
@@ -1,9 +1,11 @@
 import { Class } from './Class';
 import { Enrollment } from './Enrollment';
 import { Grade } from './Evaluation';
-import { StudentStatus, IApprovalCriteria, DefaultApprovalCriteria } from './ApprovalCriteria';
+import { StudentStatus, IApprovalCriteria, ApprovalThresholds } from './ApprovalCriteria';
+import { DEFAULT_HISTOGRAM_BUCKETS, GradeStatistics, describeGrades } from './GradeStatistics';
 
 export { StudentStatus } from './ApprovalCriteria';
+export { GradeStatistics, HistogramBucket } from './GradeStatistics';
 
 export interface EvaluationPerformance {
   goal: string;
@@ -23,6 +25,26 @@ export interface StudentEntry {
   status: StudentStatus;
 }
 
+export interface FinalExamOutlook {
+  eligible: boolean;
+  grade: number | null;
+  // Final exam grade needed to reach the post-final approval threshold
+  // (only while the student is eligible and has no final exam grade yet)
+  requiredGrade: number | null;
+}
+
+// Report entry of a single student, with the details the student needs to follow their own progress
+export interface StudentClassSummary extends StudentEntry {
+  classId: string;
+  topic: string;
+  semester: number;
+  year: number;
+  goals: { goal: string; grade: Grade | null }[];
+  average: number | null;
+  approvalCriteria: ApprovalThresholds;
+  finalExam: FinalExamOutlook;
+}
+
 export interface ReportData {
   classId: string;
   topic: string;
@@ -30,6 +52,8 @@ export interface ReportData {
   year: number;
   totalEnrolled: number;
   studentsAverage: number | null;
+  // Final grades of the students that are not pending
+  gradeStatistics: GradeStatistics;
   approvedCount: number;
   approvedFinalCount: number;
   notApprovedCount: number;
@@ -41,7 +65,7 @@ export interface ReportData {
 }
 
 export interface IReportGenerator {
-  generate(): ReportData;
+  generate(histogramBuckets?: number): ReportData;
   
   toJSON(): ReportData;
 }
@@ -50,7 +74,7 @@ export class Report implements IReportGenerator {
   private classObj: Class;
   private approvalCriteria: IApprovalCriteria;
 
-  constructor(classObj: Class, approvalCriteria: IApprovalCriteria = new DefaultApprovalCriteria()) {
+  constructor(classObj: Class, approvalCriteria: IApprovalCriteria = classObj.getApprovalCriteria()) {
     this.classObj = classObj;
     this.approvalCriteria = approvalCriteria;
   }
@@ -120,26 +144,21 @@ export class Report implements IReportGenerator {
    
   // Gets the student's final grade. Returns null if no grade data is available.
   private getStudentFinalGrade(enrollment: Enrollment): number | null {
-    const mediaPosFinal = enrollment.getMediaPosFinal();
-    if (mediaPosFinal !== null && mediaPosFinal !== 0) {
-      return mediaPosFinal;
-    }
-    return this.calculateStudentAverage(enrollment);
+    return this.approvalCriteria.getCountedMediaPosFinal(enrollment) ?? this.calculateStudentAverage(enrollment);
   }
 
-  // Calculates the class average. Returns null if no students have finalized grades.
-  // Only includes students who are not PENDING.
-  private calculateClassAverage(): number | null {
-    const enrollments = this.classObj.getEnrollments();
-    
-    if (enrollments.length === 0) {
-      return null;
-    }
-
-    const gradesWithData = enrollments
+  // Final grades of the students that are not pending
+  private getGradedFinalGrades(): number[] {
+    return this.classObj.getEnrollments()
       .filter(enrollment => this.getStudentStatus(enrollment) !== 'PENDING')
       .map(enrollment => this.getStudentFinalGrade(enrollment))
       .filter((grade): grade is number => grade !== null);
+  }
+
+  // Calculates the class average. Returns null if no students have finalized grades.
+  // Only includes students who are not PENDING.
+  private calculateClassAverage(): number | null {
+    const gradesWithData = this.getGradedFinalGrades();
 
     if (gradesWithData.length === 0) {
       return null;
@@ -233,34 +252,87 @@ export class Report implements IReportGenerator {
     return performance.sort((a, b) => a.goal.localeCompare(b.goal));
   }
 
+  private getStudentEntry(enrollment: Enrollment): StudentEntry {
+    const student = enrollment.getStudent();
+    const status = this.getStudentStatus(enrollment);
+
+    // Don't show final grade for pending students
+    let finalGrade: number | null = null;
+    if (status !== 'PENDING') {
+      const rawGrade = this.getStudentFinalGrade(enrollment);
+      finalGrade = rawGrade !== null ? Math.round(rawGrade * 100) / 100 : null;
+    }
+
+    return {
+      studentId: student.getCPF(),
+      name: student.name,
+      finalGrade,
+      status
+    };
+  }
+
   private getStudentReports(): StudentEntry[] {
-    const enrollments = this.classObj.getEnrollments();
-    
-    return enrollments.map(enrollment => {
-      const student = enrollment.getStudent();
-      const status = this.getStudentStatus(enrollment);
-      
-      // Don't show final grade for pending students
-      let finalGrade: number | null = null;
-      if (status !== 'PENDING') {
-        const rawGrade = this.getStudentFinalGrade(enrollment);
-        finalGrade = rawGrade !== null ? Math.round(rawGrade * 100) / 100 : null;
+    return this.classObj.getEnrollments().map(enrollment => this.getStudentEntry(enrollment));
+  }
+
+  // Final exam grade that brings the post-final average to the approval threshold
+  private calculateRequiredFinalExamGrade(mediaPreFinal: number): number | null {
+    const pesos = this.classObj.getEspecificacaoDoCalculoDaMedia().getPesosDaMediaPosFinal();
+    if (pesos.provaFinal === 0) {
+      return null;
+    }
+
+    const target = this.approvalCriteria.postFinalApprovalThreshold * (pesos.mediaPreFinal + pesos.provaFinal);
+    const required = (target - pesos.mediaPreFinal * mediaPreFinal) / pesos.provaFinal;
+    return Math.max(0, Math.ceil(required * 100) / 100);
+  }
+
+  /**
+   * Generates the report entry of a single student.
+   * @returns null if the student is not enrolled in the class.
+   */
+  public generateStudentSummary(studentCPF: string): StudentClassSummary | null {
+    const enrollment = this.classObj.findEnrollmentByStudentCPF(studentCPF);
+    if (!enrollment) {
+      return null;
+    }
+
+    const average = this.calculateStudentAverage(enrollment);
+    const eligible = this.approvalCriteria.isEligibleForFinalExam(enrollment);
+    const finalExamGrade = enrollment.getNotaDaProvaFinal();
+
+    return {
+      ...this.getStudentEntry(enrollment),
+      classId: this.classObj.getClassId(),
+      topic: this.classObj.getTopic(),
+      semester: this.classObj.getSemester(),
+      year: this.classObj.getYear(),
+      goals: this.classObj.getGoals().map(goal => ({
+        goal,
+        grade: enrollment.getEvaluationForGoal(goal)?.getGrade() ?? null
+      })),
+      average: average !== null ? Math.round(average * 100) / 100 : null,
+      approvalCriteria: {
+        directApprovalThreshold: this.approvalCriteria.directApprovalThreshold,
+        finalExamEligibilityThreshold: this.approvalCriteria.finalExamEligibilityThreshold,
+        postFinalApprovalThreshold: this.approvalCriteria.postFinalApprovalThreshold
+      },
+      finalExam: {
+        eligible,
+        grade: finalExamGrade,
+        requiredGrade: eligible && finalExamGrade === null && average !== null
+          ? this.calculateRequiredFinalExamGrade(average)
+          : null
       }
-      
-      return {
-        studentId: student.getCPF(),
-        name: student.name,
-        finalGrade,
-        status
-      };
-    });
+    };
   }
 
   /**
    * Generates the full class report.
+   * @param histogramBuckets Number of buckets the 0-10 scale is split into for the final grades histogram.
    * @returns ReportData object compliant with the interface.
    */
-  public generate(): ReportData {
+  public generate(histogramBuckets: number = DEFAULT_HISTOGRAM_BUCKETS): ReportData {
     const enrollments = this.classObj.getEnrollments();
     const approvalStats = this.calculateApprovalStats();
     const evaluationPerformance = this.calculateEvaluationPerformance();
@@ -274,6 +346,7 @@ export class Report implements IReportGenerator {
       year: this.classObj.getYear(),
       totalEnrolled: enrollments.length,
       studentsAverage: classAverage,
+      gradeStatistics: describeGrades(this.getGradedFinalGrades(), histogramBuckets),
       approvedCount: approvalStats.approved,
       approvedFinalCount: approvalStats.approvedFinal,
       notApprovedCount: approvalStats.notApproved,
@@ -289,3 +362,26 @@ export class Report implements IReportGenerator {
     return this.generate();
   }
 }
+
+// Performance of one goal in each compared class (null when the class doesn't have the goal)
+export interface GoalComparison {
+  goal: string;
+  classes: Record<string, EvaluationPerformance | null>;
+}
+
+/**
+ * Side by side evaluationPerformance of the compared reports, one row per goal.
+ * Goals are sorted alphabetically, like the evaluationPerformance of each report.
+ */
+export function compareEvaluationPerformance(reports: ReportData[]): GoalComparison[] {
+  const goals = new Set<string>();
+  reports.forEach(report => report.evaluationPerformance.forEach(performance => goals.add(performance.goal)));
+
+  return [...goals].sort((a, b) => a.localeCompare(b)).map(goal => ({
+    goal,
+    classes: Object.fromEntries(reports.map(report => [
+      report.classId,
+      report.evaluationPerformance.find(performance => performance.goal === goal) ?? null
+    ]))
+  }));
+}
@@ -1,24 +1,31 @@
 import { Evaluation } from './Evaluation';
+import { cleanCPF, hasValidCheckDigits } from './CPF';
 
 export class Student {
   constructor(
     public name: string,
     public cpf: string,
-    public email: string
+    public email: string,
+    // Students loaded from storage skip the check digits, so that old records are kept (and reported)
+    validateCheckDigits: boolean = true
   ) {
-    this.cpf = this.cleanCPF(cpf); // Store only clean CPF internally
-    this.validateCPF(this.cpf);
+    this.cpf = cleanCPF(cpf); // Store only clean CPF internally
+    this.validateCPF(this.cpf, validateCheckDigits);
     this.validateEmail(email);
   }
 
-  private cleanCPF(cpf: string): string {
-    return cpf.replace(/[.-]/g, '');
-  }
-
-  private validateCPF(cleanCPF: string): void {
+  private validateCPF(cleanCPF: string, validateCheckDigits: boolean): void {
     if (cleanCPF.length !== 11 || !/^\d+$/.test(cleanCPF)) {
       throw new Error('Invalid CPF format');
     }
+    if (validateCheckDigits && !hasValidCheckDigits(cleanCPF)) {
+      throw new Error('Invalid CPF check digits');
+    }
+  }
+
+  // Whether the CPF passes the check digit verification
+  hasValidCPF(): boolean {
+    return hasValidCheckDigits(this.cpf);
   }
 
   private validateEmail(email: string): void {
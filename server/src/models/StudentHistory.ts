@@ -0,0 +1,46 @@
+import { Class } from './Class';
+import { Report, StudentClassSummary } from './Report';
+import { Student } from './Student';
+
+export interface StudentHistorySummary {
+  classesTaken: number;
+  // Approved directly or after the final exam
+  approvals: number;
+  // Failed by grade or by absence
+  failures: number;
+  pending: number;
+  // Mean of the final grades of the classes that are not pending
+  overallAverage: number | null;
+}
+
+// Trajectory of a student: every class they're enrolled in, oldest first
+export interface StudentHistory {
+  student: ReturnType<Student['toJSON']>;
+  classes: StudentClassSummary[];
+  summary: StudentHistorySummary;
+}
+
+export function buildStudentHistory(student: Student, allClasses: Class[]): StudentHistory {
+  const summaries = allClasses
+    .map(classObj => new Report(classObj).generateStudentSummary(student.getCPF()))
+    .filter((summary): summary is StudentClassSummary => summary !== null)
+    .sort((a, b) => a.year - b.year || a.semester - b.semester || a.topic.localeCompare(b.topic));
+
+  const finalGrades = summaries
+    .filter(summary => summary.status !== 'PENDING' && summary.finalGrade !== null)
+    .map(summary => summary.finalGrade as number);
+
+  return {
+    student: student.toJSON(),
+    classes: summaries,
+    summary: {
+      classesTaken: summaries.length,
+      approvals: summaries.filter(summary => summary.status === 'APPROVED' || summary.status === 'APPROVED_FINAL').length,
+      failures: summaries.filter(summary => summary.status === 'FAILED' || summary.status === 'FAILED_BY_ABSENCE').length,
+      pending: summaries.filter(summary => summary.status === 'PENDING').length,
+      overallAverage: finalGrades.length > 0
+        ? Math.round((finalGrades.reduce((sum, grade) => sum + grade, 0) / finalGrades.length) * 100) / 100
+        : null
+    }
+  };
+}
@@ -0,0 +1,74 @@
+export type UserRole = 'professor' | 'teaching_assistant' | 'student';
+
+export const USER_ROLES: UserRole[] = ['professor', 'teaching_assistant', 'student'];
+
+// Local account used to log in. Student accounts are linked to the student's CPF,
+// which restricts them to their own data.
+export class User {
+  private readonly username: string;
+  private name: string;
+  private readonly role: UserRole;
+  private passwordHash: string;
+  private readonly studentCPF: string | null;
+
+  constructor(username: string, name: string, role: UserRole, passwordHash: string, studentCPF: string | null = null) {
+    if (!username || !/^[a-zA-Z0-9._-]+$/.test(username)) {
+      throw new Error('Invalid username. Use letters, numbers, dots, hyphens or underscores');
+    }
+    if (!name || name.trim().length === 0) {
+      throw new Error('Name is required');
+    }
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Invalid role. Must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    if (role === 'student' && !studentCPF) {
+      throw new Error('Student accounts must be linked to a student CPF');
+    }
+
+    this.username = username;
+    this.name = name.trim();
+    this.role = role;
+    this.passwordHash = passwordHash;
+    this.studentCPF = role === 'student' && studentCPF ? studentCPF.replace(/[.-]/g, '') : null;
+  }
+
+  getUsername(): string {
+    return this.username;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getRole(): UserRole {
+    return this.role;
+  }
+
+  getPasswordHash(): string {
+    return this.passwordHash;
+  }
+
+  setPasswordHash(passwordHash: string): void {
+    this.passwordHash = passwordHash;
+  }
+
+  // CPF of the linked student (student accounts only)
+  getStudentCPF(): string | null {
+    return this.studentCPF;
+  }
+
+  // Convert to JSON for API responses (the password hash is never exposed)
+  toJSON() {
+    return {
+      username: this.username,
+      name: this.name,
+      role: this.role,
+      studentCPF: this.studentCPF
+    };
+  }
+
+  // Create User from its stored record
+  static fromJSON(data: { username: string; name: string; role: UserRole; passwordHash: string; studentCPF?: string | null }): User {
+    return new User(data.username, data.name, data.role, data.passwordHash, data.studentCPF ?? null);
+  }
+}
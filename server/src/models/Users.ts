@@ -0,0 +1,42 @@
+import { User } from './User';
+
+export class Users {
+  private users: User[] = [];
+
+  // Add a new user account
+  addUser(user: User): User {
+    if (this.findUserByUsername(user.getUsername())) {
+      throw new Error('User with this username already exists');
+    }
+
+    this.users.push(user);
+    return user;
+  }
+
+  // Remove user account by username
+  removeUser(username: string): boolean {
+    const index = this.users.findIndex(user => user.getUsername() === username);
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.users.splice(index, 1);
+    return true;
+  }
+
+  // Find user account by username
+  findUserByUsername(username: string): User | undefined {
+    return this.users.find(user => user.getUsername() === username);
+  }
+
+  // Get all user accounts
+  getAllUsers(): User[] {
+    return [...this.users];
+  }
+
+  // Get user accounts count
+  getCount(): number {
+    return this.users.length;
+  }
+}
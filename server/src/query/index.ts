@@ -0,0 +1,3 @@
+export { MAX_PAGE_SIZE, Pagination, Page, SortOrder, parsePagination, paginate, normalizeSearchText, cpfSearchDigits, parseList, parseSortOrder } from './pagination';
+export { REPORT_STUDENT_SORT_KEYS, ReportStudentSortKey, ReportStudentQuery, ReportStudentsPage, parseReportStudentQuery, queryReportStudents } from './reportStudents';
+export { STUDENT_SORT_KEYS, StudentSortKey, StudentQuery, parseStudentQuery, queryStudents } from './students';
@@ -0,0 +1,85 @@
+export const MAX_PAGE_SIZE = 200;
+
+// pageSize null: everything in a single page
+export interface Pagination {
+  page: number;
+  pageSize: number | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+const parsePositiveInteger = (value: unknown): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : NaN;
+};
+
+// Reads ?page= (1-based) and ?pageSize= from a query string; without pageSize nothing is paginated
+export const parsePagination = (query: Record<string, unknown>): Pagination => {
+  const page = parsePositiveInteger(query.page);
+  if (Number.isNaN(page)) {
+    throw new Error('Page must be a positive integer');
+  }
+
+  const pageSize = parsePositiveInteger(query.pageSize);
+  if (Number.isNaN(pageSize) || (pageSize !== null && pageSize > MAX_PAGE_SIZE)) {
+    throw new Error(`Page size must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return { page: page ?? 1, pageSize };
+};
+
+export const paginate = <T>(items: T[], { page, pageSize }: Pagination): Page<T> => {
+  if (pageSize === null) {
+    return { items, page: 1, pageSize: items.length, totalItems: items.length, totalPages: 1 };
+  }
+
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    totalItems: items.length,
+    totalPages: Math.max(1, Math.ceil(items.length / pageSize))
+  };
+};
+
+// Text compared without case or accents ("João" matches "joao")
+export const normalizeSearchText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+};
+
+// Digits of a search that looks like a CPF (digits, dots, hyphens and spaces only), or '' for any
+// other search, so that names or emails containing digits ("ana2024") do not match CPFs
+export const cpfSearchDigits = (search: string): string => {
+  return /^[\d.\-\s]+$/.test(search) ? search.replace(/\D/g, '') : '';
+};
+
+// Reads a list given either as repeated parameters (?status=A&status=B) or comma separated (?status=A,B)
+export const parseList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(item => item !== '');
+};
+
+export type SortOrder = 'asc' | 'desc';
+
+export const parseSortOrder = (value: unknown): SortOrder => {
+  if (value === undefined || value === '') {
+    return 'asc';
+  }
+  if (value !== 'asc' && value !== 'desc') {
+    throw new Error('Invalid order. Must be asc or desc');
+  }
+  return value;
+};
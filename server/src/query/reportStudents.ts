@@ -0,0 +1,126 @@
+import { ReportData, StudentEntry, StudentStatus } from '../models/Report';
+import { Pagination, SortOrder, cpfSearchDigits, normalizeSearchText, paginate, parseList, parsePagination, parseSortOrder } from './pagination';
+
+const STUDENT_STATUSES: StudentStatus[] = ['APPROVED', 'APPROVED_FINAL', 'FAILED', 'FAILED_BY_ABSENCE', 'PENDING'];
+
+export const REPORT_STUDENT_SORT_KEYS = ['name', 'studentId', 'finalGrade', 'status'] as const;
+export type ReportStudentSortKey = typeof REPORT_STUDENT_SORT_KEYS[number];
+
+export interface ReportStudentQuery {
+  // Empty: every status
+  statuses: StudentStatus[];
+  // Only students whose final grade is below the class average / the threshold (pending students never match)
+  belowAverage: boolean;
+  threshold: number | null;
+  // Part of the name or of the CPF
+  search: string;
+  // null keeps the enrollment order
+  sort: ReportStudentSortKey | null;
+  order: SortOrder;
+  pagination: Pagination;
+}
+
+// Report whose students are the requested page of the students matching the query
+export interface ReportStudentsPage extends ReportData {
+  filteredCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Reads the query string of GET /api/classes/:classId/report, throwing on invalid values
+export const parseReportStudentQuery = (query: Record<string, unknown>): ReportStudentQuery => {
+  const statuses = parseList(query.status).map(status => status.toUpperCase());
+  const invalidStatuses = statuses.filter(status => !STUDENT_STATUSES.includes(status as StudentStatus));
+  if (invalidStatuses.length > 0) {
+    throw new Error(`Invalid status: ${invalidStatuses.join(', ')}. Must be any of: ${STUDENT_STATUSES.join(', ')}`);
+  }
+
+  let threshold: number | null = null;
+  if (query.threshold !== undefined && query.threshold !== '') {
+    threshold = Number(query.threshold);
+    if (Number.isNaN(threshold) || threshold < 0 || threshold > 10) {
+      throw new Error('Threshold must be a number between 0 and 10');
+    }
+  }
+
+  const sort = query.sort === undefined || query.sort === '' ? null : String(query.sort);
+  if (sort !== null && !REPORT_STUDENT_SORT_KEYS.includes(sort as ReportStudentSortKey)) {
+    throw new Error(`Invalid sort. Must be one of: ${REPORT_STUDENT_SORT_KEYS.join(', ')}`);
+  }
+
+  return {
+    statuses: statuses as StudentStatus[],
+    belowAverage: query.belowAverage === 'true',
+    threshold,
+    search: typeof query.search === 'string' ? normalizeSearchText(query.search) : '',
+    sort: sort as ReportStudentSortKey | null,
+    order: parseSortOrder(query.order),
+    pagination: parsePagination(query)
+  };
+};
+
+const compareStudents = (sort: ReportStudentSortKey, a: StudentEntry, b: StudentEntry): number => {
+  switch (sort) {
+    case 'finalGrade':
+      return (a.finalGrade ?? 0) - (b.finalGrade ?? 0);
+    case 'status':
+      return STUDENT_STATUSES.indexOf(a.status) - STUDENT_STATUSES.indexOf(b.status);
+    case 'studentId':
+      return a.studentId.localeCompare(b.studentId);
+    case 'name':
+    default:
+      return a.name.localeCompare(b.name, 'pt-BR', { sensitivity: 'base' });
+  }
+};
+
+const matches = (student: StudentEntry, query: ReportStudentQuery, classAverage: number | null): boolean => {
+  if (query.statuses.length > 0 && !query.statuses.includes(student.status)) {
+    return false;
+  }
+
+  const hasGrade = student.status !== 'PENDING' && student.finalGrade !== null;
+  if (query.belowAverage && !(hasGrade && classAverage !== null && student.finalGrade! < classAverage)) {
+    return false;
+  }
+  if (query.threshold !== null && !(hasGrade && student.finalGrade! < query.threshold)) {
+    return false;
+  }
+
+  if (query.search) {
+    const searchDigits = cpfSearchDigits(query.search);
+    const nameMatches = normalizeSearchText(student.name).includes(query.search);
+    const cpfMatches = searchDigits !== '' && student.studentId.includes(searchDigits);
+    if (!nameMatches && !cpfMatches) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+export const queryReportStudents = (report: ReportData, query: ReportStudentQuery): ReportStudentsPage => {
+  const students = report.students.filter(student => matches(student, query, report.studentsAverage));
+
+  if (query.sort !== null) {
+    const sort = query.sort;
+    const direction = query.order === 'desc' ? -1 : 1;
+    students.sort((a, b) => {
+      // Students without a final grade stay at the end in both directions
+      if (sort === 'finalGrade' && (a.finalGrade === null) !== (b.finalGrade === null)) {
+        return a.finalGrade === null ? 1 : -1;
+      }
+      return direction * compareStudents(sort, a, b) || compareStudents('name', a, b);
+    });
+  }
+
+  const page = paginate(students, query.pagination);
+  return {
+    ...report,
+    students: page.items,
+    filteredCount: page.totalItems,
+    page: page.page,
+    pageSize: page.pageSize,
+    totalPages: page.totalPages
+  };
+};
@@ -0,0 +1,58 @@
+import { Student } from '../models/Student';
+import { Page, Pagination, SortOrder, cpfSearchDigits, normalizeSearchText, paginate, parsePagination, parseSortOrder } from './pagination';
+
+export const STUDENT_SORT_KEYS = ['name', 'cpf'] as const;
+export type StudentSortKey = typeof STUDENT_SORT_KEYS[number];
+
+export interface StudentQuery {
+  // Part of the name, email or CPF
+  search: string;
+  // null keeps the registration order
+  sort: StudentSortKey | null;
+  order: SortOrder;
+  pagination: Pagination;
+}
+
+// Reads the query string of GET /api/students, throwing on invalid values
+export const parseStudentQuery = (query: Record<string, unknown>): StudentQuery => {
+  const sort = query.sort === undefined || query.sort === '' ? null : String(query.sort);
+  if (sort !== null && !STUDENT_SORT_KEYS.includes(sort as StudentSortKey)) {
+    throw new Error(`Invalid sort. Must be one of: ${STUDENT_SORT_KEYS.join(', ')}`);
+  }
+
+  return {
+    search: typeof query.search === 'string' ? normalizeSearchText(query.search) : '',
+    sort: sort as StudentSortKey | null,
+    order: parseSortOrder(query.order),
+    pagination: parsePagination(query)
+  };
+};
+
+const compareStudents = (sort: StudentSortKey, a: Student, b: Student): number => {
+  return sort === 'cpf'
+    ? a.getCPF().localeCompare(b.getCPF())
+    : a.getName().localeCompare(b.getName(), 'pt-BR', { sensitivity: 'base' });
+};
+
+const matches = (student: Student, search: string): boolean => {
+  if (!search) {
+    return true;
+  }
+
+  const searchDigits = cpfSearchDigits(search);
+  return normalizeSearchText(student.getName()).includes(search)
+    || normalizeSearchText(student.email).includes(search)
+    || (searchDigits !== '' && student.getCPF().includes(searchDigits));
+};
+
+export const queryStudents = (students: Student[], query: StudentQuery): Page<Student> => {
+  const matching = students.filter(student => matches(student, query.search));
+
+  if (query.sort !== null) {
+    const sort = query.sort;
+    const direction = query.order === 'desc' ? -1 : 1;
+    matching.sort((a, b) => direction * compareStudents(sort, a, b) || compareStudents('cpf', a, b));
+  }
+
+  return paginate(matching, query.pagination);
+};
@@ -4,13 +4,32 @@ import multer from 'multer';
 import * as XLSX from 'xlsx';
 import { StudentSet } from './models/StudentSet';
 import { Student } from './models/Student';
-import { Evaluation } from './models/Evaluation';
+import { cleanCPF, hasValidCheckDigits } from './models/CPF';
+import { Evaluation, Grade } from './models/Evaluation';
 import { Classes } from './models/Classes';
-import { Class } from './models/Class';
-import { Report } from './models/Report';
+import { Class, AttendanceRecord, EnrollmentGradeChange } from './models/Class';
+import { Enrollment } from './models/Enrollment';
+import { LectureSession } from './models/LectureSession';
+import { GradeChange } from './models/GradeChange';
+import { Report, compareEvaluationPerformance } from './models/Report';
+import { parseHistogramBuckets } from './models/GradeStatistics';
+import { buildStudentHistory } from './models/StudentHistory';
+import { ApprovalCriteria, ApprovalThresholds } from './models/ApprovalCriteria';
 import * as fs from 'fs';
-import * as path from 'path';
 import { EspecificacaoDoCalculoDaMedia, DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA } from './models/EspecificacaoDoCalculoDaMedia';
+import {
+  createStorageRepository, getStorageConfig, MigrationReport, PersistedClassState, PersistedEnrollmentState, PersistedStudent,
+  PersistedUser, StorageRepository
+} from './storage';
+import { User, UserRole } from './models/User';
+import { Users } from './models/Users';
+import { SessionStore, authenticate, requireRole, requireSelfOrRole, hashPassword, verifyPassword, validatePassword } from './auth';
+import { randomBytes } from 'crypto';
+import {
+  REPORT_EXPORT_FORMATS, ReportExportFormat, reportFileName, reportToCSV, reportToHTML, reportToWorkbook, workbookToBuffer,
+  gradebookFileName, gradebookToCSV, gradebookToWorkbook
+} from './export';
+import { parseReportStudentQuery, parseStudentQuery, queryReportStudents, queryStudents } from './query';
 
 // Configure multer for temporary file storage (used by gradeImport endpoint)
 const upload_dir = multer({ dest: 'tmp_data/' });
@@ -30,155 +49,509 @@ const upload = multer({
   }
 });
 
-// In-memory storage with file persistence
+// Test mode flag to disable persistence
+const isTestMode = process.env.NODE_ENV === 'test';
+
+// In-memory storage persisted through the configured repository (JSON file or SQLite)
 const studentSet = new StudentSet();
 const classes = new Classes();
-const dataFile = path.resolve('./data/app-data.json');
+const users = new Users();
+const sessions = new SessionStore();
+let storage: StorageRepository | null = isTestMode ? null : createStorageRepository(getStorageConfig());
 
-// Persistence functions
-const ensureDataDirectory = (): void => {
-  const dataDir = path.dirname(dataFile);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
+// Replaces the repository that stores the changes (tests use it to simulate storage failures)
+const setStorageRepository = (repository: StorageRepository | null): void => {
+  storage = repository;
 };
 
-const saveDataToFile = (): void => {
-  try {
-    const data = {
-      students: studentSet.getAllStudents().map(student => ({
-        name: student.name,
-        cpf: student.getCPF(),
-        email: student.email
-      })),
-      classes: classes.getAllClasses().map(classObj => ({
-        topic: classObj.getTopic(),
-        semester: classObj.getSemester(),
-        year: classObj.getYear(),
-        especificacaoDoCalculoDaMedia: classObj.getEspecificacaoDoCalculoDaMedia().toJSON(),
-        enrollments: classObj.getEnrollments().map(enrollment => ({
-          studentCPF: enrollment.getStudent().getCPF(),
-          evaluations: enrollment.getEvaluations().map(evaluation => evaluation.toJSON())
-        }))
-      }))
-    };
-    
-    ensureDataDirectory();
-    fs.writeFileSync(dataFile, JSON.stringify(data, null, 2), 'utf8');
+// Records stored by the repository for each domain object
+const toPersistedStudent = (student: Student): PersistedStudent => ({
+  name: student.name,
+  cpf: student.getCPF(),
+  email: student.email
+});
+
+const toPersistedEnrollment = (enrollment: Enrollment): PersistedEnrollmentState => ({
+  studentCPF: enrollment.getStudent().getCPF(),
+  evaluations: enrollment.getEvaluations().map(evaluation => evaluation.toJSON()),
+  notaDaProvaFinal: enrollment.getNotaDaProvaFinal(),
+  reprovadoPorFalta: Boolean(enrollment.getReprovadoPorFalta())
+});
+
+const toPersistedClass = (classObj: Class): PersistedClassState => ({
+  id: classObj.getClassId(),
+  legacyId: classObj.getLegacyClassId(),
+  topic: classObj.getTopic(),
+  semester: classObj.getSemester(),
+  year: classObj.getYear(),
+  especificacaoDoCalculoDaMedia: classObj.getEspecificacaoDoCalculoDaMedia().toJSON(),
+  maxAbsencePercentage: classObj.getMaxAbsencePercentage(),
+  approvalCriteria: classObj.getApprovalCriteria().toJSON(),
+  lectureSessions: classObj.getLectureSessions().map(session => session.toJSON()),
+  enrollments: classObj.getEnrollments().map(toPersistedEnrollment)
+});
+
+const toPersistedUser = (user: User): PersistedUser => ({
+  username: user.getUsername(),
+  name: user.getName(),
+  role: user.getRole(),
+  passwordHash: user.getPasswordHash(),
+  studentCPF: user.getStudentCPF()
+});
+
+// Raised when the repository could not store a change, so that the request fails instead of
+// answering as if the change had been saved
+class StorageWriteError extends Error {}
+
+// Status of an error caught by a route: 500 when the change could not be stored, 400 for an invalid request
+const errorStatus = (error: unknown): number => (error instanceof StorageWriteError ? 500 : 400);
+
+// Stores the changes made by a request, as a single repository transaction (nothing is stored in test mode)
+const persist = (work: (repository: StorageRepository) => void): void => {
+  const repository = storage;
+  if (!repository) {
+    return;
+  }
+
+  try {
+    repository.transaction(() => work(repository));
   } catch (error) {
-    console.error('Error saving students to file:', error);
+    console.error('Error saving data:', error);
+    throw new StorageWriteError(`The change could not be saved: ${(error as Error).message}`);
+  }
+};
+
+// Stores a grade change of an enrollment: the new grade (or its removal) and the history entry
+const persistGradeChange = (repository: StorageRepository, classObj: Class, enrollment: Enrollment, change: GradeChange): void => {
+  const classId = classObj.getClassId();
+  const studentCPF = enrollment.getStudent().getCPF();
+  const grade = change.getNewGrade();
+  if (grade === null) {
+    repository.deleteEvaluation(classId, studentCPF, change.getGoal());
+  } else {
+    repository.upsertEvaluation(classId, studentCPF, { goal: change.getGoal(), grade });
   }
+  repository.appendGradeChanges(classId, studentCPF, [change.toJSON()]);
 };
 
-// Load data from file
-const loadDataFromFile = (): void => {
+// Stores a class whose evaluations changed as a whole (goals renamed or removed) and the history entries recorded for it
+const persistClassChanges = (repository: StorageRepository, classObj: Class, gradeChanges: EnrollmentGradeChange[]): void => {
+  repository.upsertClass(toPersistedClass(classObj));
+  gradeChanges.forEach(({ enrollment, change }) =>
+    repository.appendGradeChanges(classObj.getClassId(), enrollment.getStudent().getCPF(), [change.toJSON()])
+  );
+};
+
+// Report on startup what the migration pipeline changed in the stored data
+const logMigrationReport = (report: MigrationReport | null): void => {
+  if (!report || report.applied.length === 0) {
+    return;
+  }
+
+  console.log(`Data migrated from schema version ${report.fromVersion} to ${report.toVersion}:`);
+  report.applied.forEach(migration => {
+    console.log(`  [${migration.version}] ${migration.description}`);
+    migration.changes.forEach(change => console.log(`      - ${change}`));
+  });
+};
+
+// Load data from the repository
+const loadData = (): void => {
+  if (!storage) {
+    return;
+  }
+
   try {
-    if (fs.existsSync(dataFile)) {
-      const fileContent = fs.readFileSync(dataFile, 'utf-8');
-      const data = JSON.parse(fileContent);
-      
-      // Load students
-      if (data.students && Array.isArray(data.students)) {
-        data.students.forEach((studentData: any) => {
-          // Create student with basic info only - evaluations handled through enrollments
-          const student = new Student(
-            studentData.name,
-            studentData.cpf,
-            studentData.email
-          );
-          
-          try {
-            studentSet.addStudent(student);
-          } catch (error) {
-            console.error(`Error adding student ${studentData.name}:`, error);
-          }
-        });
-      }
+    const data = storage.load();
+    logMigrationReport(storage.getMigrationReport());
+    
+    // Load students
+    if (data.students && Array.isArray(data.students)) {
+      data.students.forEach((studentData: any) => {
+        // Create student with basic info only - evaluations handled through enrollments
+        const student = new Student(
+          studentData.name,
+          studentData.cpf,
+          studentData.email,
+          false
+        );
+        
+        try {
+          studentSet.addStudent(student);
+        } catch (error) {
+          console.error(`Error adding student ${studentData.name}:`, error);
+        }
+      });
+    }
 
-      // Load classes with enrollments
-      if (data.classes && Array.isArray(data.classes)) {
-        data.classes.forEach((classData: any) => {
-          try {
-            const classObj = new Class(classData.topic, classData.semester, classData.year, EspecificacaoDoCalculoDaMedia.fromJSON(classData.especificacaoDoCalculoDaMedia));
-            classes.addClass(classObj);
-
-            // Load enrollments for this class
-            if (classData.enrollments && Array.isArray(classData.enrollments)) {
-              classData.enrollments.forEach((enrollmentData: any) => {
-                const student = studentSet.findStudentByCPF(enrollmentData.studentCPF);
-                if (student) {
-                  const enrollment = classObj.addEnrollment(student);
+    // Load classes with enrollments
+    if (data.classes && Array.isArray(data.classes)) {
+      data.classes.forEach((classData: any) => {
+        try {
+          const lectureSessions = Array.isArray(classData.lectureSessions)
+            ? classData.lectureSessions.map((sessionData: any) => LectureSession.fromJSON(sessionData))
+            : [];
+          const classObj = new Class(
+            classData.topic,
+            classData.semester,
+            classData.year,
+            EspecificacaoDoCalculoDaMedia.fromJSON(classData.especificacaoDoCalculoDaMedia),
+            [],
+            lectureSessions,
+            classData.maxAbsencePercentage,
+            ApprovalCriteria.fromJSON(classData.approvalCriteria),
+            classData.id,
+            classData.legacyId
+          );
+          classes.addClass(classObj);
+
+          // Load enrollments for this class
+          if (classData.enrollments && Array.isArray(classData.enrollments)) {
+            classData.enrollments.forEach((enrollmentData: any) => {
+              const student = studentSet.findStudentByCPF(enrollmentData.studentCPF);
+              if (student) {
+                const enrollment = classObj.addEnrollment(student);
+                
+                // Load evaluations for this enrollment
+                if (enrollmentData.evaluations && Array.isArray(enrollmentData.evaluations)) {
+                  enrollmentData.evaluations.forEach((evalData: any) => {
+                    const evaluation = Evaluation.fromJSON(evalData);
+                    enrollment.addOrUpdateEvaluation(evaluation.getGoal(), evaluation.getGrade());
+                  });
+                }
                   
-                  // Load evaluations for this enrollment
-                  if (enrollmentData.evaluations && Array.isArray(enrollmentData.evaluations)) {
-                    enrollmentData.evaluations.forEach((evalData: any) => {
-                      const evaluation = Evaluation.fromJSON(evalData);
-                      enrollment.addOrUpdateEvaluation(evaluation.getGoal(), evaluation.getGrade());
-                    });
+                  // Averages are recomputed from the evaluations and the final exam grade, so only
+                  // those and the attendance status are loaded if provided in the data file
+                  if (typeof enrollmentData.notaDaProvaFinal === 'number') {
+                    enrollment.setNotaDaProvaFinal(enrollmentData.notaDaProvaFinal);
                   }
-                    
-                    // Load medias and attendance status if provided in the data file
-                    if (typeof enrollmentData.mediaPreFinal !== 'undefined') {
-                      enrollment.setMediaPreFinal(enrollmentData.mediaPreFinal);
-                    }
-                    if (typeof enrollmentData.mediaPosFinal !== 'undefined') {
-                      enrollment.setMediaPosFinal(enrollmentData.mediaPosFinal);
-                    }
-                    if (typeof enrollmentData.reprovadoPorFalta !== 'undefined') {
-                      enrollment.setReprovadoPorFalta(Boolean(enrollmentData.reprovadoPorFalta));
-                    }
-                } else {
-                  console.error(`Student with CPF ${enrollmentData.studentCPF} not found for enrollment`);
-                }
-              });
-            }
-          } catch (error) {
-            console.error(`Error adding class ${classData.topic}:`, error);
+                  if (typeof enrollmentData.reprovadoPorFalta !== 'undefined') {
+                    enrollment.setReprovadoPorFalta(Boolean(enrollmentData.reprovadoPorFalta));
+                  }
+                  if (Array.isArray(enrollmentData.history)) {
+                    enrollment.restoreHistory(enrollmentData.history.map((changeData: any) => GradeChange.fromJSON(changeData)));
+                  }
+              } else {
+                console.error(`Student with CPF ${enrollmentData.studentCPF} not found for enrollment`);
+              }
+            });
           }
-        });
-      }
+        } catch (error) {
+          console.error(`Error adding class ${classData.topic}:`, error);
+        }
+      });
+    }
+
+    // Load user accounts
+    if (data.users && Array.isArray(data.users)) {
+      data.users.forEach((userData: any) => {
+        try {
+          users.addUser(User.fromJSON(userData));
+        } catch (error) {
+          console.error(`Error adding user ${userData.username}:`, error);
+        }
+      });
     }
   } catch (error) {
-    console.error('Error loading data from file:', error);
+    // Serving without the stored data would look like an empty system whose changes are never stored
+    console.error('Error loading data:', error);
+    console.error('The server was not started. Fix the data file or restore a backup, then start it again.');
+    process.exit(1);
   }
 };
 
-// Test mode flag to disable file persistence
-const isTestMode = process.env.NODE_ENV === 'test';
+// Students saved before the check digit verification are kept, but reported on startup so they can be fixed
+const reportInvalidCPFs = (): void => {
+  const invalidStudents = studentSet.getAllStudents().filter(student => !student.hasValidCPF());
+  if (invalidStudents.length === 0) {
+    return;
+  }
 
-// Trigger save after any modification (async to not block operations)
-const triggerSave = (): void => {
-  if (!isTestMode) {
-    setImmediate(() => {
-      saveDataToFile();
-    });
+  console.warn(`${invalidStudents.length} stored students have a CPF with invalid check digits:`);
+  invalidStudents.forEach(student => console.warn(`  - ${student.getFormattedCPF()} (${student.name})`));
+};
+
+// Without any account nobody could log in, so the first start creates a professor account
+// (ADMIN_USERNAME / ADMIN_PASSWORD, or a generated password printed once to the console)
+const ensureInitialProfessor = (): void => {
+  if (users.getCount() > 0) {
+    return;
+  }
+
+  const username = process.env.ADMIN_USERNAME || 'admin';
+  const password = process.env.ADMIN_PASSWORD || randomBytes(9).toString('base64');
+  const professor = users.addUser(new User(username, 'Administrator', 'professor', hashPassword(validatePassword(password))));
+  persist(repository => repository.upsertUser(toPersistedUser(professor)));
+
+  console.log(`Created the initial professor account '${username}'`);
+  if (!process.env.ADMIN_PASSWORD) {
+    console.log(`  Generated password: ${password} (change it after logging in)`);
   }
 };
 
 // Load existing data on startup (only in non-test mode)
 if (!isTestMode) {
-  loadDataFromFile();
+  loadData();
+  reportInvalidCPFs();
+  ensureInitialProfessor();
+}
+
+type GradeImportRowStatus = 'applied' | 'unknown_student' | 'not_enrolled' | 'invalid_grade';
+
+interface GradeImportRowResult {
+  line: number;
+  cpf: string;
+  status: GradeImportRowStatus;
+  grades?: { goal: string; grade: Grade }[];
+  invalidCells?: { column: string; value: string }[];
+}
+
+type StudentImportRowStatus = 'created' | 'updated' | 'unchanged' | 'invalid' | 'duplicate';
+
+interface StudentImportRowResult {
+  line: number;
+  name: string;
+  cpf: string;
+  email: string;
+  status: StudentImportRowStatus;
+  error?: string;
+  enrollment?: 'enrolled' | 'already_enrolled';
+}
+
+// Accepted header names of each column of the student import, compared after normalizeHeader
+const STUDENT_IMPORT_COLUMNS: Record<'name' | 'cpf' | 'email', { label: string; aliases: string[] }> = {
+  name: { label: 'nome', aliases: ['nome', 'name', 'aluno', 'aluna', 'estudante', 'student', 'nomecompleto', 'fullname'] },
+  cpf: { label: 'CPF', aliases: ['cpf', 'matricula'] },
+  email: { label: 'e-mail', aliases: ['email', 'mail', 'correioeletronico'] }
+};
+
+type BulkEnrollmentOutcome = 'enrolled' | 'already_enrolled' | 'unknown_student' | 'malformed_cpf' | 'blank';
+
+interface BulkEnrollmentRowResult {
+  line: number;
+  // Cell as written in the spreadsheet, and the CPF digits extracted from it
+  raw: string;
+  cpf: string;
+  outcome: BulkEnrollmentOutcome;
 }
 
-// Helper function to clean CPF
-const cleanCPF = (cpf: string): string => {
-  return cpf.replace(/[.-]/g, '');
+const GRADES: Grade[] = ['MA', 'MPA', 'MANA'];
+
+const GRADE_IMPORT_PREVIEW_ROWS = 5;
+
+// Helper functions to read uploaded spreadsheets (.xlsx or .csv); CSV cells are kept as raw text
+// Spreadsheets come either from a file saved to disk or from an upload kept in memory
+const readWorkbook = (source: string | Buffer, options: XLSX.ParsingOptions): XLSX.WorkBook => {
+  const buffer = typeof source === 'string' ? fs.readFileSync(source) : source;
+  // .xlsx files are zip archives; anything else is decoded as UTF-8 text so accented headers survive
+  const isZip = buffer[0] === 0x50 && buffer[1] === 0x4b;
+  return isZip
+    ? XLSX.read(buffer, { ...options, type: 'buffer' })
+    : XLSX.read(buffer.toString('utf8').replace(/^\uFEFF/, ''), { ...options, type: 'string' });
+};
+
+const readSpreadsheetHeader = (source: string | Buffer): string[] => {
+  const workbook = readWorkbook(source, { sheetRows: 1, raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet) {
+    return [];
+  }
+  const [header = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '' });
+  return header.map(cell => cellToString(cell)).filter(column => column !== '');
+};
+
+// maxRows limits how many data rows are parsed (e.g. for previews)
+const readSpreadsheetRows = (source: string | Buffer, maxRows?: number): Record<string, unknown>[] => {
+  const workbook = readWorkbook(source, maxRows === undefined ? { raw: true } : { raw: true, sheetRows: maxRows + 1 });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  return worksheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' }) : [];
+};
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) {
+    return '';
+  }
+  return String(cell).trim();
+};
+
+// CPFs stored as numeric cells lose their leading zeros
+const cellToCPF = (cell: unknown): string => {
+  if (typeof cell === 'number' && Number.isInteger(cell)) {
+    return String(cell).padStart(11, '0');
+  }
+  return cellToString(cell);
+};
+
+// Line of a row in the spreadsheet (line 1 is the header); blank lines skipped by the parser still count
+const spreadsheetLine = (row: Record<string, unknown>, index: number): number => {
+  const rowNumber = (row as { __rowNum__?: number }).__rowNum__;
+  return (rowNumber ?? index + 1) + 1;
+};
+
+// Lowercase header without accents, spaces or punctuation ("E-mail" -> "email", "Matrícula" -> "matricula")
+const normalizeHeader = (header: string): string => {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+// Helper function to find the spreadsheet column matching one of the accepted header names
+const findColumn = (columns: string[], aliases: string[]): string | undefined => {
+  return columns.find(column => aliases.includes(normalizeHeader(column)));
 };
 
+// Helper function to read optional free-text fields (blank or non-string values become null)
+const optionalText = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+};
+
+// Helper function to list the goals of a class with their weights
+const goalsToJSON = (classObj: Class) => {
+  const pesosDasMetas = classObj.getEspecificacaoDoCalculoDaMedia().getPesosDasMetas();
+  return classObj.getGoals().map(goal => ({ name: goal, weight: pesosDasMetas.get(goal) }));
+};
+
+// Roles allowed to manage classes, enrollments and grades
+const staffOnly = requireRole('professor', 'teaching_assistant');
+const professorOnly = requireRole('professor');
+
 // Routes
 
+// POST /api/auth/login - Log in with username and password, returning a bearer token
+app.post('/api/auth/login', (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const user = users.findUserByUsername(username);
+    if (!user || !verifyPassword(password, user.getPasswordHash())) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    const session = sessions.create(user.getUsername());
+    res.json({ token: session.token, expiresAt: new Date(session.expiresAt).toISOString(), user: user.toJSON() });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// Every other API route requires a logged-in user
+app.use('/api', authenticate(users, sessions));
+
+// POST /api/auth/logout - End the current session
+app.post('/api/auth/logout', (req: Request, res: Response) => {
+  sessions.remove(req.sessionToken as string);
+  res.status(204).send();
+});
+
+// GET /api/auth/me - Get the logged-in user
+app.get('/api/auth/me', (req: Request, res: Response) => {
+  res.json(req.user?.toJSON());
+});
+
+// PUT /api/auth/password - Change the password of the logged-in user
+app.put('/api/auth/password', (req: Request, res: Response) => {
+  try {
+    const user = req.user as User;
+    const { currentPassword, newPassword } = req.body;
+
+    if (typeof currentPassword !== 'string' || !verifyPassword(currentPassword, user.getPasswordHash())) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    user.setPasswordHash(hashPassword(validatePassword(newPassword)));
+    // Log out the other sessions of the user
+    sessions.removeForUser(user.getUsername());
+    const session = sessions.create(user.getUsername());
+    persist(repository => repository.upsertUser(toPersistedUser(user)));
+    res.json({ token: session.token, expiresAt: new Date(session.expiresAt).toISOString(), user: user.toJSON() });
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/users - Get all user accounts
+app.get('/api/users', professorOnly, (req: Request, res: Response) => {
+  res.json(users.getAllUsers().map(user => user.toJSON()));
+});
+
+// POST /api/users - Create a user account
+app.post('/api/users', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { username, name, role, password, studentCPF } = req.body;
+
+    if (!username || !name || !role) {
+      return res.status(400).json({ error: 'Username, name, and role are required' });
+    }
+
+    if (role === 'student' && (typeof studentCPF !== 'string' || !studentSet.findStudentByCPF(cleanCPF(studentCPF)))) {
+      return res.status(400).json({ error: 'Student accounts must be linked to an existing student' });
+    }
+
+    const user = new User(username, name, role as UserRole, hashPassword(validatePassword(password)), studentCPF ?? null);
+    users.addUser(user);
+    persist(repository => repository.upsertUser(toPersistedUser(user)));
+    res.status(201).json(user.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// DELETE /api/users/:username - Delete a user account
+app.delete('/api/users/:username', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { username } = req.params;
+
+    if (username === req.user?.getUsername()) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    if (!users.removeUser(username)) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    sessions.removeForUser(username);
+    persist(repository => repository.deleteUser(username));
+    res.status(204).send();
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
 // GET /api/students - Get all students
-app.get('/api/students', (req: Request, res: Response) => {
+// ?search= (name, email or CPF), ?sort=name|cpf, ?order=asc|desc and ?classId= (only its enrolled students) narrow the list;
+// with ?pageSize= (and ?page=) the answer is a page: { items, page, pageSize, totalItems, totalPages }
+app.get('/api/students', staffOnly, (req: Request, res: Response) => {
+  let query;
+  try {
+    query = parseStudentQuery(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
   try {
-    const students = studentSet.getAllStudents();
-    res.json(students.map(s => s.toJSON()));
+    let students = studentSet.getAllStudents();
+    if (typeof req.query.classId === 'string' && req.query.classId !== '') {
+      const classObj = classes.findClassById(req.query.classId);
+      if (!classObj) {
+        return res.status(404).json({ error: 'Class not found' });
+      }
+      students = classObj.getEnrolledStudents();
+    }
+
+    const page = queryStudents(students, query);
+    if (query.pagination.pageSize === null) {
+      return res.json(page.items.map(s => s.toJSON()));
+    }
+    res.json({ ...page, items: page.items.map(s => s.toJSON()) });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch students' });
   }
 });
 
 // POST /api/students - Add a new student
-app.post('/api/students', (req: Request, res: Response) => {
+app.post('/api/students', staffOnly, (req: Request, res: Response) => {
   try {
     const { name, cpf, email } = req.body;
     
@@ -189,15 +562,141 @@ app.post('/api/students', (req: Request, res: Response) => {
     // Create student with basic information only - evaluations handled through enrollments
     const student = new Student(name, cpf, email);
     const addedStudent = studentSet.addStudent(student);
-    triggerSave(); // Save to file after adding
+    persist(repository => repository.upsertStudent(toPersistedStudent(addedStudent)));
     res.status(201).json(addedStudent.toJSON());
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
+// POST /api/students/import - Register students from a spreadsheet (.xlsx/.csv), optionally enrolling them into a class
+app.post('/api/students/import', staffOnly, (req: Request, res: Response) => {
+  upload.single('file')(req, res, (err: any) => {
+    try {
+      if (err) {
+        console.error('Multer error:', err);
+        return res.status(400).json({ error: 'Erro ao processar o arquivo enviado.' });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          error: 'Nenhum arquivo foi enviado. Por favor, envie um arquivo .xlsx ou .csv.'
+        });
+      }
+
+      const updateExisting = req.body.updateExisting === 'true';
+      const classId = optionalText(req.body.classId);
+      const classObj = classId ? classes.findClassById(classId) : undefined;
+      if (classId && !classObj) {
+        return res.status(404).json({ error: 'Turma não encontrada' });
+      }
+
+      const header = readSpreadsheetHeader(req.file.buffer);
+      const nameColumn = findColumn(header, STUDENT_IMPORT_COLUMNS.name.aliases);
+      const cpfColumn = findColumn(header, STUDENT_IMPORT_COLUMNS.cpf.aliases);
+      const emailColumn = findColumn(header, STUDENT_IMPORT_COLUMNS.email.aliases);
+      if (!nameColumn || !cpfColumn || !emailColumn) {
+        const missing = [
+          !nameColumn && STUDENT_IMPORT_COLUMNS.name.label,
+          !cpfColumn && STUDENT_IMPORT_COLUMNS.cpf.label,
+          !emailColumn && STUDENT_IMPORT_COLUMNS.email.label
+        ].filter(Boolean);
+        return res.status(400).json({ error: `Colunas obrigatórias não encontradas na planilha: ${missing.join(', ')}` });
+      }
+
+      const rows = readSpreadsheetRows(req.file.buffer);
+      if (rows.length === 0) {
+        return res.status(400).json({
+          error: 'O arquivo enviado está vazio ou não é suportado (apenas .xlsx ou .csv permitido). Por favor, envie um arquivo com alunos.'
+        });
+      }
+
+      const results: StudentImportRowResult[] = [];
+      const seenCPFs = new Set<string>();
+      const changedStudents: Student[] = [];
+      const newEnrollments: Enrollment[] = [];
+
+      rows.forEach((row, index) => {
+        const name = cellToString(row[nameColumn]);
+        const rawCPF = cellToCPF(row[cpfColumn]);
+        const email = cellToString(row[emailColumn]);
+        if (!name && !rawCPF && !email) {
+          return; // Linhas em branco são ignoradas
+        }
+
+        const cpf = cleanCPF(rawCPF);
+        const result: StudentImportRowResult = { line: spreadsheetLine(row, index), name, cpf, email, status: 'invalid' };
+        results.push(result);
+
+        if (seenCPFs.has(cpf)) {
+          result.status = 'duplicate';
+          result.error = 'CPF repetido na planilha';
+          return;
+        }
+
+        try {
+          if (!name) {
+            throw new Error('Name is required');
+          }
+          const candidate = new Student(name, rawCPF, email);
+          seenCPFs.add(cpf);
+
+          let student = studentSet.findStudentByCPF(cpf);
+          if (!student) {
+            student = studentSet.addStudent(candidate);
+            changedStudents.push(student);
+            result.status = 'created';
+          } else if (updateExisting && (student.name !== name || student.email !== email)) {
+            student = studentSet.updateStudent(candidate);
+            changedStudents.push(student);
+            result.status = 'updated';
+          } else {
+            result.status = 'unchanged';
+          }
+
+          if (classObj) {
+            if (classObj.findEnrollmentByStudentCPF(cpf)) {
+              result.enrollment = 'already_enrolled';
+            } else {
+              newEnrollments.push(classObj.addEnrollment(student));
+              result.enrollment = 'enrolled';
+            }
+          }
+        } catch (error) {
+          result.error = (error as Error).message;
+        }
+      });
+
+      persist(repository => {
+        changedStudents.forEach(student => repository.upsertStudent(toPersistedStudent(student)));
+        if (classObj) {
+          newEnrollments.forEach(enrollment => repository.upsertEnrollment(classObj.getClassId(), toPersistedEnrollment(enrollment)));
+        }
+      });
+
+      const countByStatus = (status: StudentImportRowStatus) => results.filter(result => result.status === status).length;
+      res.json({
+        summary: {
+          created: countByStatus('created'),
+          updated: countByStatus('updated'),
+          unchanged: countByStatus('unchanged'),
+          invalid: countByStatus('invalid'),
+          duplicate: countByStatus('duplicate'),
+          enrolled: results.filter(result => result.enrollment === 'enrolled').length
+        },
+        results
+      });
+    } catch (error) {
+      console.error('Error importing students:', error);
+      res.status(500).json({
+        error: error instanceof StorageWriteError ? error.message : 'Erro ao processar o arquivo. Por favor, verifique o formato e tente novamente.'
+      });
+    }
+  });
+});
+
 // PUT /api/students/:cpf - Update a student
-app.put('/api/students/:cpf', (req: Request, res: Response) => {
+app.put('/api/students/:cpf', staffOnly, (req: Request, res: Response) => {
   try {
     const { cpf } = req.params;
     const { name, email } = req.body;
@@ -207,17 +706,18 @@ app.put('/api/students/:cpf', (req: Request, res: Response) => {
     }
     
     // Create a Student object for update - evaluations handled through enrollments
-    const updatedStudent = new Student(name, cpf, email);
+    // (the CPF only identifies the student, so stored CPFs failing the check digits can still be updated)
+    const updatedStudent = new Student(name, cpf, email, false);
     const result = studentSet.updateStudent(updatedStudent);
-    triggerSave(); // Save to file after updating
+    persist(repository => repository.upsertStudent(toPersistedStudent(result)));
     res.json(result.toJSON());
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // DELETE /api/students/:cpf - Delete a student
-app.delete('/api/students/:cpf', (req: Request, res: Response) => {
+app.delete('/api/students/:cpf', professorOnly, (req: Request, res: Response) => {
   try {
     const { cpf } = req.params;
     const cleanedCPF = cleanCPF(cpf);
@@ -227,17 +727,17 @@ app.delete('/api/students/:cpf', (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Student not found' });
     }
     
-    triggerSave(); // Save to file after deleting
+    persist(repository => repository.deleteStudent(cleanedCPF));
     res.status(204).send();
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // PUT /api/students/:cpf/evaluation - Update a specific evaluation
 // DEPRECATED: Evaluations are now handled through class enrollments
 /*
-app.put('/api/students/:cpf/evaluation', (req: Request, res: Response) => {
+app.put('/api/students/:cpf/evaluation', staffOnly, (req: Request, res: Response) => {
   try {
     const { cpf } = req.params;
     const { goal, grade } = req.body;
@@ -273,7 +773,7 @@ app.put('/api/students/:cpf/evaluation', (req: Request, res: Response) => {
 */
 
 // GET /api/students/:cpf - Get a specific student
-app.get('/api/students/:cpf', (req: Request, res: Response) => {
+app.get('/api/students/:cpf', requireSelfOrRole('cpf', 'professor', 'teaching_assistant'), (req: Request, res: Response) => {
   try {
     const { cpf } = req.params;
     const cleanedCPF = cleanCPF(cpf);
@@ -289,8 +789,39 @@ app.get('/api/students/:cpf', (req: Request, res: Response) => {
   }
 });
 
+// GET /api/students/:cpf/grades - Get the grades, average and status of a student in each class they're enrolled in
+app.get('/api/students/:cpf/grades', requireSelfOrRole('cpf', 'professor', 'teaching_assistant'), (req: Request, res: Response) => {
+  try {
+    const cleanedCPF = cleanCPF(req.params.cpf);
+    if (!studentSet.findStudentByCPF(cleanedCPF)) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const summaries = classes.getAllClasses()
+      .map(classObj => new Report(classObj).generateStudentSummary(cleanedCPF))
+      .filter(summary => summary !== null);
+    res.json(summaries);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/students/:cpf/history - Get every class of a student, oldest first, with totals of approvals, failures and the overall average
+app.get('/api/students/:cpf/history', requireSelfOrRole('cpf', 'professor', 'teaching_assistant'), (req: Request, res: Response) => {
+  try {
+    const student = studentSet.findStudentByCPF(cleanCPF(req.params.cpf));
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    res.json(buildStudentHistory(student, classes.getAllClasses()));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
 // GET /api/classes - Get all classes
-app.get('/api/classes', (req: Request, res: Response) => {
+app.get('/api/classes', staffOnly, (req: Request, res: Response) => {
   try {
     const allClasses = classes.getAllClasses();
     res.json(allClasses.map(c => c.toJSON()));
@@ -300,25 +831,30 @@ app.get('/api/classes', (req: Request, res: Response) => {
 });
 
 // POST /api/classes - Add a new class
-app.post('/api/classes', (req: Request, res: Response) => {
+app.post('/api/classes', professorOnly, (req: Request, res: Response) => {
   try {
-    const { topic, semester, year } = req.body;
+    const { topic, semester, year, especificacaoDoCalculoDaMedia } = req.body;
     
     if (!topic || !semester || !year) {
       return res.status(400).json({ error: 'Topic, semester, and year are required' });
     }
 
-    const classObj = new Class(topic, semester, year, DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA);
+    // Use the grading specification sent by the client, if any
+    const especificacao = especificacaoDoCalculoDaMedia
+      ? EspecificacaoDoCalculoDaMedia.fromRequest(especificacaoDoCalculoDaMedia)
+      : DEFAULT_ESPECIFICACAO_DO_CALCULO_DA_MEDIA;
+
+    const classObj = new Class(topic, semester, year, especificacao);
     const newClass = classes.addClass(classObj);
-    triggerSave(); // Save to file after adding class
+    persist(repository => repository.upsertClass(toPersistedClass(newClass)));
     res.status(201).json(newClass.toJSON());
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // PUT /api/classes/:id - Update a class
-app.put('/api/classes/:id', (req: Request, res: Response) => {
+app.put('/api/classes/:id', professorOnly, (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { topic, semester, year } = req.body;
@@ -332,37 +868,236 @@ app.put('/api/classes/:id', (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Class not found' });
     }
 
-    // Update the class directly using setters
+    const duplicateClass = classes.findClassByDetails(topic, year, semester);
+    if (duplicateClass && duplicateClass !== existingClass) {
+      return res.status(400).json({ error: 'Class with same topic, year, and semester already exists' });
+    }
+
+    // Update the class directly using setters (the class id does not change)
     existingClass.setTopic(topic);
     existingClass.setSemester(semester);
     existingClass.setYear(year);
     
-    triggerSave(); // Save to file after updating class
+    persist(repository => repository.upsertClass(toPersistedClass(existingClass)));
     res.json(existingClass.toJSON());
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // DELETE /api/classes/:id - Delete a class
-app.delete('/api/classes/:id', (req: Request, res: Response) => {
+app.delete('/api/classes/:id', professorOnly, (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const success = classes.removeClass(id);
+    const classObj = classes.findClassById(id);
     
-    if (!success) {
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+    
+    classes.removeClass(classObj.getClassId());
+    persist(repository => repository.deleteClass(classObj.getClassId()));
+    res.status(204).send();
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:id/especificacao - Get the grading specification of a class
+app.get('/api/classes/:id/especificacao', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const classObj = classes.findClassById(id);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.json(classObj.getEspecificacaoDoCalculoDaMedia().toJSON());
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:id/especificacao - Replace the grading specification and recompute every average of the class
+app.put('/api/classes/:id/especificacao', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const classObj = classes.findClassById(id);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const especificacao = EspecificacaoDoCalculoDaMedia.fromRequest(req.body);
+    classObj.updateEspecificacaoDoCalculoDaMedia(especificacao);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.json(classObj.getEspecificacaoDoCalculoDaMedia().toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:id/approval-criteria - Get the approval thresholds of a class
+app.get('/api/classes/:id/approval-criteria', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const classObj = classes.findClassById(id);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.json(classObj.getApprovalCriteria().toJSON());
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:id/approval-criteria - Update the approval thresholds of a class (omitted thresholds are kept)
+app.put('/api/classes/:id/approval-criteria', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { directApprovalThreshold, finalExamEligibilityThreshold, postFinalApprovalThreshold } = req.body;
+
+    const classObj = classes.findClassById(id);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const current = classObj.getApprovalCriteria().toJSON();
+    const thresholds: ApprovalThresholds = {
+      directApprovalThreshold: directApprovalThreshold ?? current.directApprovalThreshold,
+      finalExamEligibilityThreshold: finalExamEligibilityThreshold ?? current.finalExamEligibilityThreshold,
+      postFinalApprovalThreshold: postFinalApprovalThreshold ?? current.postFinalApprovalThreshold
+    };
+
+    const approvalCriteria = classObj.setApprovalCriteria(thresholds);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.json(approvalCriteria.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:classId/goals - Get the goals of a class and their weights
+app.get('/api/classes/:classId/goals', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.json(goalsToJSON(classObj));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/classes/:classId/goals - Add a goal to a class
+app.post('/api/classes/:classId/goals', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+    const { name, weight } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Goal name is required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    classObj.addGoal(name, weight === undefined ? 1 : weight);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.status(201).json(goalsToJSON(classObj));
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:classId/goals - Reorder the goals of a class
+app.put('/api/classes/:classId/goals', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+    const { goals } = req.body;
+
+    if (!Array.isArray(goals)) {
+      return res.status(400).json({ error: 'Goals array is required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    classObj.reorderGoals(goals);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.json(goalsToJSON(classObj));
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:classId/goals/:goal - Rename a goal and/or change its weight
+app.put('/api/classes/:classId/goals/:goal', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, goal } = req.params;
+    const { name, weight } = req.body;
+
+    if (name === undefined && weight === undefined) {
+      return res.status(400).json({ error: 'Name or weight is required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    if (!classObj.hasGoal(goal)) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    if (weight !== undefined) {
+      classObj.setGoalWeight(goal, weight);
+    }
+    // Also renames the goal inside existing evaluations
+    const gradeChanges = name !== undefined ? classObj.renameGoal(goal, name, req.user?.getUsername() ?? null) : [];
+
+    persist(repository => persistClassChanges(repository, classObj, gradeChanges));
+    res.json(goalsToJSON(classObj));
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// DELETE /api/classes/:classId/goals/:goal - Remove a goal and its evaluations from a class
+app.delete('/api/classes/:classId/goals/:goal', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, goal } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
       return res.status(404).json({ error: 'Class not found' });
     }
-    
-    triggerSave(); // Save to file after deleting class
+
+    if (!classObj.hasGoal(goal)) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    const gradeChanges = classObj.removeGoal(goal, req.user?.getUsername() ?? null);
+    persist(repository => persistClassChanges(repository, classObj, gradeChanges));
     res.status(204).send();
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // POST /api/classes/:classId/enroll - Enroll a student in a class
-app.post('/api/classes/:classId/enroll', (req: Request, res: Response) => {
+app.post('/api/classes/:classId/enroll', staffOnly, (req: Request, res: Response) => {
   try {
     const { classId } = req.params;
     const { studentCPF } = req.body;
@@ -382,15 +1117,15 @@ app.post('/api/classes/:classId/enroll', (req: Request, res: Response) => {
     }
 
     const enrollment = classObj.addEnrollment(student);
-    triggerSave(); // Save to file after enrolling student
+    persist(repository => repository.upsertEnrollment(classObj.getClassId(), toPersistedEnrollment(enrollment)));
     res.status(201).json(enrollment.toJSON());
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // DELETE /api/classes/:classId/enroll/:studentCPF - Remove student enrollment from a class
-app.delete('/api/classes/:classId/enroll/:studentCPF', (req: Request, res: Response) => {
+app.delete('/api/classes/:classId/enroll/:studentCPF', staffOnly, (req: Request, res: Response) => {
   try {
     const { classId, studentCPF } = req.params;
     
@@ -406,15 +1141,15 @@ app.delete('/api/classes/:classId/enroll/:studentCPF', (req: Request, res: Respo
       return res.status(404).json({ error: 'Student not enrolled in this class' });
     }
     
-    triggerSave(); // Save to file after unenrolling student
+    persist(repository => repository.deleteEnrollment(classObj.getClassId(), cleanedCPF));
     res.status(204).send();
   } catch (error) {
-    res.status(400).json({ error: (error as Error).message });
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
 // POST /api/classes/:classId/enroll-bulk - Bulk enroll students from spreadsheet
-app.post('/api/classes/:classId/enroll-bulk', (req: Request, res: Response) => {
+app.post('/api/classes/:classId/enroll-bulk', staffOnly, (req: Request, res: Response) => {
   upload.single('file')(req, res, (err: any) => {
     try {
       // Handle multer errors
@@ -440,93 +1175,87 @@ app.post('/api/classes/:classId/enroll-bulk', (req: Request, res: Response) => {
         return res.status(404).json({ error: 'Turma não encontrada' });
       }
 
-      // Read the spreadsheet from buffer
-      const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
-      
-      // Get the first sheet
-      const firstSheetName = workbook.SheetNames[0];
-      if (!firstSheetName) {
+      const dryRun = req.body.dryRun === 'true';
+
+      const cpfColumn = findColumn(readSpreadsheetHeader(req.file.buffer), STUDENT_IMPORT_COLUMNS.cpf.aliases);
+      const rows = readSpreadsheetRows(req.file.buffer);
+      if (rows.length === 0) {
         return res.status(400).json({ 
           error: 'O arquivo enviado está vazio ou não é suportado (apenas .xlsx ou .csv permitido). Por favor, envie um arquivo com matrículas válidas.' 
         });
       }
-      
-      const worksheet = workbook.Sheets[firstSheetName];
-      
-      // Convert to JSON
-      const data: any[] = XLSX.utils.sheet_to_json(worksheet);
-      
-      // Validation: Check if spreadsheet has data
-      if (!data || data.length === 0) {
-        return res.status(400).json({ 
-          error: 'O arquivo enviado está vazio ou não é suportado (apenas .xlsx ou .csv permitido). Por favor, envie um arquivo com matrículas válidas.' 
-        });
+      if (!cpfColumn) {
+        return res.status(400).json({ error: 'A planilha não possui uma coluna de CPF ou matrícula.' });
       }
 
-      // Initialize counters
-      let importedCount = 0;
-      let rejectedCount = 0;
+      const results: BulkEnrollmentRowResult[] = [];
+      // CPFs enrolled by earlier rows, so that a dry run also reports repeated rows as already enrolled
+      const enrolledCPFs = new Set<string>();
+      const newEnrollments: Enrollment[] = [];
 
-      // Process each row
-      for (const row of data) {
-        // Get CPF from the row (try different possible column names)
-        const cpfValue = row.cpf || row.CPF || row.matricula || row.Matricula || row.Matrícula;
-        
-        if (!cpfValue) {
-          continue; // Skip rows without CPF (blank lines)
-        }
+      rows.forEach((row, index) => {
+        const raw = cellToCPF(row[cpfColumn]);
+        const cpf = cleanCPF(raw);
+        const line = spreadsheetLine(row, index);
 
-        // Clean and convert CPF to string
-        const cpfString = String(cpfValue).trim();
-        const cleanedCPF = cleanCPF(cpfString);
+        if (!raw) {
+          results.push({ line, raw, cpf, outcome: 'blank' });
+          return;
+        }
+        if (!/^\d{11}$/.test(cpf)) {
+          results.push({ line, raw, cpf, outcome: 'malformed_cpf' });
+          return;
+        }
 
-        // Check if student exists
-        const student = studentSet.findStudentByCPF(cleanedCPF);
+        const student = studentSet.findStudentByCPF(cpf);
         if (!student) {
-          // Student not found in the system - count as rejected
-          rejectedCount++;
-          console.log(`Student ${cleanedCPF} not found in system - rejected`);
-          continue;
+          // A CPF failing the check digits was mistyped rather than belonging to an unregistered student
+          results.push({ line, raw, cpf, outcome: hasValidCheckDigits(cpf) ? 'unknown_student' : 'malformed_cpf' });
+          return;
         }
 
-        // Check if student is already enrolled
-        const existingEnrollment = classObj.findEnrollmentByStudentCPF(cleanedCPF);
-        if (existingEnrollment) {
-          continue; // Skip if already enrolled (Scenario 2) - not counted as rejected
+        if (enrolledCPFs.has(cpf) || classObj.findEnrollmentByStudentCPF(cpf)) {
+          results.push({ line, raw, cpf, outcome: 'already_enrolled' });
+          return;
         }
 
-        // Enroll the student (Scenario 1)
-        try {
-          classObj.addEnrollment(student);
-          importedCount++;
-          console.log(`Student ${cleanedCPF} successfully enrolled`);
-        } catch (error) {
-          // Error adding enrollment, count as rejected
-          rejectedCount++;
-          console.error(`Error enrolling student ${cleanedCPF}:`, error);
+        if (!dryRun) {
+          newEnrollments.push(classObj.addEnrollment(student));
         }
-      }
+        enrolledCPFs.add(cpf);
+        results.push({ line, raw, cpf, outcome: 'enrolled' });
+      });
 
-      // Save changes to file
-      triggerSave();
+      persist(repository => newEnrollments.forEach(enrollment =>
+        repository.upsertEnrollment(classObj.getClassId(), toPersistedEnrollment(enrollment))
+      ));
 
-      // Return response with counters
+      const countByOutcome = (outcome: BulkEnrollmentOutcome) => results.filter(result => result.outcome === outcome).length;
       res.status(200).json({
-        importedCount,
-        rejectedCount
+        dryRun,
+        importedCount: countByOutcome('enrolled'),
+        rejectedCount: countByOutcome('unknown_student') + countByOutcome('malformed_cpf'),
+        summary: {
+          enrolled: countByOutcome('enrolled'),
+          alreadyEnrolled: countByOutcome('already_enrolled'),
+          unknownStudent: countByOutcome('unknown_student'),
+          malformedCPF: countByOutcome('malformed_cpf'),
+          blank: countByOutcome('blank')
+        },
+        results
       });
 
     } catch (error) {
       console.error('Error processing bulk enrollment:', error);
       res.status(500).json({ 
-        error: 'Erro ao processar o arquivo. Por favor, verifique o formato e tente novamente.' 
+        error: error instanceof StorageWriteError ? error.message : 'Erro ao processar o arquivo. Por favor, verifique o formato e tente novamente.' 
       });
     }
   });
 });
 
 // GET /api/classes/:classId/enrollments - Get all enrollments for a class
-app.get('/api/classes/:classId/enrollments', (req: Request, res: Response) => {
+app.get('/api/classes/:classId/enrollments', staffOnly, (req: Request, res: Response) => {
   try {
     const { classId } = req.params;
     
@@ -543,7 +1272,7 @@ app.get('/api/classes/:classId/enrollments', (req: Request, res: Response) => {
 });
 
 // GET /api/classes/:classId/enrollments/:studentCPF/evaluation - Get the student's average and final average for a class
-app.get('/api/classes/:classId/enrollments/:studentCPF/evaluation', (req: Request, res: Response) => {
+app.get('/api/classes/:classId/enrollments/:studentCPF/evaluation', requireSelfOrRole('studentCPF', 'professor', 'teaching_assistant'), (req: Request, res: Response) => {
   try {
     const { classId, studentCPF } = req.params;
 
@@ -558,12 +1287,14 @@ app.get('/api/classes/:classId/enrollments/:studentCPF/evaluation', (req: Reques
       return res.status(404).json({ error: 'Student not enrolled in this class' });
     }
 
+    // Averages are kept up to date by the enrollment whenever its evaluations change
     const mediaPreFinal = enrollment.getMediaPreFinal();
-    const mediaPosFinal = enrollment.getMediaPosFinal();
+    const mediaPosFinal = classObj.getApprovalCriteria().getCountedMediaPosFinal(enrollment);
 
     res.json({
       student: enrollment.getStudent().toJSON(),
       average: mediaPreFinal,
+      final_exam_grade: enrollment.getNotaDaProvaFinal(),
       final_average: mediaPosFinal
     });
   } catch (error) {
@@ -571,11 +1302,72 @@ app.get('/api/classes/:classId/enrollments/:studentCPF/evaluation', (req: Reques
   }
 });
 
+// PUT /api/classes/:classId/evaluations - Apply a batch of grade changes ({ studentCPF, goal, grade }, empty grade removes),
+// all or nothing, returning the updated enrollments
+app.put('/api/classes/:classId/evaluations', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+    const { changes, reason } = req.body;
+    const actor = req.user?.getUsername() ?? null;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return res.status(400).json({ error: 'Changes must be a non-empty list' });
+    }
+
+    // Validate every change before applying any of them
+    const invalidChanges: { index: number; error: string }[] = [];
+    const validChanges: { enrollment: Enrollment; goal: string; grade: Grade | null }[] = [];
+    changes.forEach((change: any, index: number) => {
+      const { studentCPF, goal, grade } = change ?? {};
+      const enrollment = typeof studentCPF === 'string' ? classObj.findEnrollmentByStudentCPF(cleanCPF(studentCPF)) : undefined;
+
+      if (!enrollment) {
+        invalidChanges.push({ index, error: 'Student not enrolled in this class' });
+      } else if (!goal || !classObj.hasGoal(goal)) {
+        invalidChanges.push({ index, error: 'Goal is not part of this class' });
+      } else if (grade === '' || grade === null || grade === undefined) {
+        validChanges.push({ enrollment, goal, grade: null });
+      } else if (!GRADES.includes(grade)) {
+        invalidChanges.push({ index, error: 'Invalid grade. Must be MANA, MPA, or MA' });
+      } else {
+        validChanges.push({ enrollment, goal, grade });
+      }
+    });
+
+    if (invalidChanges.length > 0) {
+      return res.status(400).json({ error: 'No grade was changed because some changes are invalid', invalidChanges });
+    }
+
+    const updatedEnrollments = new Set<Enrollment>();
+    const gradeChanges: EnrollmentGradeChange[] = [];
+    validChanges.forEach(({ enrollment, goal, grade }) => {
+      const change = enrollment.changeEvaluation(goal, grade, actor, optionalText(reason));
+      if (change) {
+        gradeChanges.push({ enrollment, change });
+      }
+      updatedEnrollments.add(enrollment);
+    });
+
+    // Single transaction for the whole batch
+    persist(repository => gradeChanges.forEach(({ enrollment, change }) => persistGradeChange(repository, classObj, enrollment, change)));
+    res.json(Array.from(updatedEnrollments).map(enrollment => enrollment.toJSON()));
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
 // PUT /api/classes/:classId/enrollments/:studentCPF/evaluation - Update evaluation for an enrolled student
-app.put('/api/classes/:classId/enrollments/:studentCPF/evaluation', (req: Request, res: Response) => {
+app.put('/api/classes/:classId/enrollments/:studentCPF/evaluation', staffOnly, (req: Request, res: Response) => {
   try {
     const { classId, studentCPF } = req.params;
-    const { goal, grade } = req.body;
+    const { goal, grade, reason } = req.body;
+    // Changes are attributed to the logged-in user
+    const actor = req.user?.getUsername() ?? null;
     
     if (!goal) {
       return res.status(400).json({ error: 'Goal is required' });
@@ -592,70 +1384,286 @@ app.put('/api/classes/:classId/enrollments/:studentCPF/evaluation', (req: Reques
       return res.status(404).json({ error: 'Student not enrolled in this class' });
     }
 
-    if (grade === '' || grade === null || grade === undefined) {
-      // Remove evaluation
-      enrollment.removeEvaluation(goal);
-    } else {
-      // Add or update evaluation
+    // An empty grade removes the evaluation; otherwise it is added or updated
+    const removed = grade === '' || grade === null || grade === undefined;
+    if (!removed) {
       if (!['MANA', 'MPA', 'MA'].includes(grade)) {
         return res.status(400).json({ error: 'Invalid grade. Must be MANA, MPA, or MA' });
       }
-      enrollment.addOrUpdateEvaluation(goal, grade);
+      if (!classObj.hasGoal(goal)) {
+        return res.status(400).json({ error: 'Goal is not part of this class' });
+      }
     }
 
-    triggerSave(); // Save to file after evaluation update
+    const change = enrollment.changeEvaluation(goal, removed ? null : grade, actor, optionalText(reason));
+    if (change) {
+      persist(repository => persistGradeChange(repository, classObj, enrollment, change));
+    }
+    res.json(enrollment.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:classId/enrollments/:studentCPF/history - Get the grade change history of an enrollment (optionally ?goal=)
+app.get('/api/classes/:classId/enrollments/:studentCPF/history', requireSelfOrRole('studentCPF', 'professor', 'teaching_assistant'), (req: Request, res: Response) => {
+  try {
+    const { classId, studentCPF } = req.params;
+    const { goal } = req.query;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const cleanedCPF = cleanCPF(studentCPF);
+    const enrollment = classObj.findEnrollmentByStudentCPF(cleanedCPF);
+    if (!enrollment) {
+      return res.status(404).json({ error: 'Student not enrolled in this class' });
+    }
+
+    const history = enrollment.getHistory()
+      .filter(change => typeof goal !== 'string' || change.getGoal() === goal)
+      .map(change => change.toJSON());
+    res.json(history);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:classId/enrollments/:studentCPF/final-exam - Record the final exam grade for an eligible student
+app.put('/api/classes/:classId/enrollments/:studentCPF/final-exam', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, studentCPF } = req.params;
+    const { grade } = req.body;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const cleanedCPF = cleanCPF(studentCPF);
+    const enrollment = classObj.findEnrollmentByStudentCPF(cleanedCPF);
+    if (!enrollment) {
+      return res.status(404).json({ error: 'Student not enrolled in this class' });
+    }
+
+    if (grade === '' || grade === null || grade === undefined) {
+      // Remove final exam grade
+      enrollment.setNotaDaProvaFinal(null);
+    } else {
+      const numericGrade = Number(grade);
+      if (typeof grade === 'boolean' || isNaN(numericGrade) || numericGrade < 0 || numericGrade > 10) {
+        return res.status(400).json({ error: 'Invalid final exam grade. Must be a number between 0 and 10' });
+      }
+
+      const approvalCriteria = classObj.getApprovalCriteria();
+      if (!approvalCriteria.isEligibleForFinalExam(enrollment)) {
+        return res.status(400).json({ error: 'Student is not eligible for the final exam' });
+      }
+      enrollment.setNotaDaProvaFinal(numericGrade);
+    }
+
+    persist(repository => repository.upsertEnrollment(classObj.getClassId(), toPersistedEnrollment(enrollment)));
     res.json(enrollment.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:classId/sessions - Get all lecture sessions of a class
+app.get('/api/classes/:classId/sessions', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.json(classObj.getLectureSessions().map(session => session.toJSON()));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/classes/:classId/sessions - Add a lecture session to a class
+app.post('/api/classes/:classId/sessions', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+    const { date, topic } = req.body;
+
+    if (!date || !topic) {
+      return res.status(400).json({ error: 'Date and topic are required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const session = classObj.addLectureSession(date, topic);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.status(201).json(session.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// DELETE /api/classes/:classId/sessions/:sessionId - Remove a lecture session and its attendance records
+app.delete('/api/classes/:classId/sessions/:sessionId', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, sessionId } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    const success = classObj.removeLectureSession(sessionId);
+    if (!success) {
+      return res.status(404).json({ error: 'Lecture session not found' });
+    }
+
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.status(204).send();
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// PUT /api/classes/:classId/sessions/:sessionId/attendance - Record attendance of several students for a session
+app.put('/api/classes/:classId/sessions/:sessionId/attendance', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, sessionId } = req.params;
+    const { records } = req.body;
+
+    if (!Array.isArray(records)) {
+      return res.status(400).json({ error: 'Records array is required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    if (!classObj.findLectureSessionById(sessionId)) {
+      return res.status(404).json({ error: 'Lecture session not found' });
+    }
+
+    const attendanceRecords: AttendanceRecord[] = records.map((record: any) => ({
+      studentCPF: cleanCPF(String(record.studentCPF ?? '')),
+      status: record.status
+    }));
+
+    const session = classObj.recordAttendance(sessionId, attendanceRecords);
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.json(session.toJSON());
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:classId/attendance - Get the attendance summary of every enrolled student
+app.get('/api/classes/:classId/attendance', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.json({
+      maxAbsencePercentage: classObj.getMaxAbsencePercentage(),
+      students: classObj.getEnrollments().map(enrollment => ({
+        student: enrollment.getStudent().toJSON(),
+        ...classObj.getAttendanceSummary(enrollment.getStudent().getCPF()),
+        reprovadoPorFalta: enrollment.getReprovadoPorFalta()
+      }))
+    });
   } catch (error) {
     res.status(400).json({ error: (error as Error).message });
   }
 });
 
+// PUT /api/classes/:classId/attendance-policy - Set the maximum absence percentage of a class
+app.put('/api/classes/:classId/attendance-policy', professorOnly, (req: Request, res: Response) => {
+  try {
+    const { classId } = req.params;
+    const { maxAbsencePercentage } = req.body;
+
+    if (maxAbsencePercentage === undefined || maxAbsencePercentage === null || maxAbsencePercentage === '') {
+      return res.status(400).json({ error: 'Maximum absence percentage is required' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    classObj.setMaxAbsencePercentage(Number(maxAbsencePercentage));
+    persist(repository => repository.upsertClass(toPersistedClass(classObj)));
+    res.json({ maxAbsencePercentage: classObj.getMaxAbsencePercentage() });
+  } catch (error) {
+    res.status(errorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
 // POST /api/compare-classes - Compare multiple classes and return their reports
-app.post('/api/compare-classes', (req: Request, res: Response) => {
+// Classes are given by id ({ classIds }); topics ({ classes }) are still accepted when exactly one class has that topic.
+// comparisonData is keyed by class id and goalComparison puts the evaluationPerformance of each goal side by side.
+app.post('/api/compare-classes', staffOnly, (req: Request, res: Response) => {
   try {
-    const { classes: classNames } = req.body;
+    const identifiers = req.body.classIds ?? req.body.classes;
 
-    if (!Array.isArray(classNames)) {
-      return res.status(400).json({ error: 'Classes array is required' });
+    if (!Array.isArray(identifiers)) {
+      return res.status(400).json({ error: 'Class ids array is required' });
     }
 
-    if (classNames.length < 2) {
+    if (identifiers.length < 2) {
       return res.status(400).json({ error: 'At least two classes are required for comparison' });
     }
 
-    if (classNames.length > 6) {
+    if (identifiers.length > 6) {
       return res.status(400).json({ error: 'The maximum number of classes allowed for comparison is 6' });
     }
 
-    // Find classes by topic (case-insensitive contains)
-    const foundClasses = classNames.map((name: string) => {
-      const matches = classes.findClassesByTopic(name);
-      return matches && matches.length > 0 ? matches[0] : undefined;
-    });
-
-    // Check for classes with no enrolled students
-    const classesWithNoStudents: string[] = [];
-    foundClasses.forEach((cls: any, idx: number) => {
-      if (!cls) {
-        // treat missing class as having no students
-        classesWithNoStudents.push(classNames[idx]);
-      } else if (!cls.getEnrollments || cls.getEnrollments().length === 0) {
-        classesWithNoStudents.push(classNames[idx]);
+    // Class id first; otherwise the whole topic (ignoring case), which must belong to exactly one class
+    const foundClasses: Class[] = [];
+    for (const identifier of identifiers.map(String)) {
+      let classObj = classes.findClassById(identifier);
+      if (!classObj) {
+        const candidates = classes.getAllClasses().filter(c => c.getTopic().toLowerCase() === identifier.toLowerCase());
+        if (candidates.length === 0) {
+          return res.status(404).json({ error: `Class not found: ${identifier}` });
+        }
+        if (candidates.length > 1) {
+          return res.status(400).json({
+            error: `"${identifier}" matches more than one class (${candidates.map(c => c.getCompositeId()).join(', ')}). Use the class id instead`
+          });
+        }
+        classObj = candidates[0];
       }
-    });
+      if (foundClasses.includes(classObj)) {
+        return res.status(400).json({ error: `${classObj.getCompositeId()} was given more than once` });
+      }
+      foundClasses.push(classObj);
+    }
 
+    const classesWithNoStudents = foundClasses.filter(classObj => classObj.getEnrollments().length === 0);
     if (classesWithNoStudents.length > 0) {
-      return res.status(422).json({ error: `${classesWithNoStudents.join(', ')} has no enrolled students` });
+      return res.status(422).json({ error: `${classesWithNoStudents.map(c => c.getCompositeId()).join(', ')} has no enrolled students` });
     }
 
-    // Build comparison data using Report for each class
-    const comparisonData: any = {};
-    foundClasses.forEach((cls: any, idx: number) => {
-      const report = new Report(cls);
-      comparisonData[classNames[idx]] = report.toJSON();
-    });
+    const reports = foundClasses.map(classObj => new Report(classObj).generate());
+    const comparisonData = Object.fromEntries(reports.map(report => [report.classId, report]));
 
-    return res.status(200).json({ comparisonData });
+    return res.status(200).json({
+      classIds: reports.map(report => report.classId),
+      comparisonData,
+      goalComparison: compareEvaluationPerformance(reports)
+    });
   } catch (error) {
     return res.status(500).json({ error: (error as Error).message });
   }
@@ -665,29 +1673,201 @@ app.post('/api/compare-classes', (req: Request, res: Response) => {
 // Vai ser usado em 2 fluxos(poderia ter divido em 2 endpoints mas preferi deixar em apenas 1)
 // [Front] Upload → [Back] lê só o cabeçalho e retorna colunas da planilha e os goals da 'classId'
 // [Front] Mapeia colunas da planilha para os goals → [Back] faz parse completo (stream)
-app.post('/api/classes/gradeImport/:classId', upload_dir.single('file'), async (req: express.Request, res: express.Response) => {
-  res.status(501).json({ error: "Endpoint ainda não implementado." });
+// A segunda fase é identificada pelos campos 'mapping' (JSON { coluna: goal }) e 'cpfColumn' no form-data
+app.post('/api/classes/gradeImport/:classId', staffOnly, upload_dir.single('file'), async (req: express.Request, res: express.Response) => {
+  const uploadedPath = req.file?.path;
+  try {
+    const { classId } = req.params;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Nenhum arquivo foi enviado. Por favor, envie um arquivo .xlsx ou .csv.' });
+    }
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Turma não encontrada' });
+    }
+
+    const { mapping, cpfColumn } = req.body;
+
+    // Fase 1: cabeçalho e as primeiras linhas para pré-visualização
+    if (mapping === undefined) {
+      const columns = readSpreadsheetHeader(req.file.path);
+      if (columns.length === 0) {
+        return res.status(400).json({ error: 'A planilha enviada está vazia ou não possui cabeçalho.' });
+      }
+      const previewRows = readSpreadsheetRows(req.file.path, GRADE_IMPORT_PREVIEW_ROWS).map(row =>
+        Object.fromEntries(columns.map(column => [column, cellToString(row[column])]))
+      );
+      return res.json({ columns, goals: classObj.getGoals(), previewRows });
+    }
+
+    // Fase 2: parse completo e aplicação das notas
+    let columnToGoal: Record<string, string>;
+    try {
+      columnToGoal = typeof mapping === 'string' ? JSON.parse(mapping) : mapping;
+    } catch {
+      return res.status(400).json({ error: 'Mapeamento de colunas inválido.' });
+    }
+    if (!columnToGoal || typeof columnToGoal !== 'object' || Array.isArray(columnToGoal) || Object.keys(columnToGoal).length === 0) {
+      return res.status(400).json({ error: 'Mapeamento de colunas inválido.' });
+    }
+
+    const columns = readSpreadsheetHeader(req.file.path);
+    if (!cpfColumn || !columns.includes(cpfColumn)) {
+      return res.status(400).json({ error: 'A coluna de CPF informada não existe na planilha.' });
+    }
+    const unknownColumns = Object.keys(columnToGoal).filter(column => !columns.includes(column));
+    if (unknownColumns.length > 0) {
+      return res.status(400).json({ error: `Colunas não encontradas na planilha: ${unknownColumns.join(', ')}` });
+    }
+    const unknownGoals = Object.values(columnToGoal).filter(goal => !classObj.hasGoal(goal));
+    if (unknownGoals.length > 0) {
+      return res.status(400).json({ error: `Metas não pertencem à turma: ${unknownGoals.join(', ')}` });
+    }
+
+    const rows = readSpreadsheetRows(req.file.path);
+    const results: GradeImportRowResult[] = [];
+    const gradeChanges: EnrollmentGradeChange[] = [];
+
+    rows.forEach((row, index) => {
+      const rawCPF = cellToCPF(row[cpfColumn]);
+      if (!rawCPF) {
+        return; // Linhas sem CPF (em branco) são ignoradas
+      }
+
+      const cpf = cleanCPF(rawCPF);
+      const line = spreadsheetLine(row, index);
+      const student = studentSet.findStudentByCPF(cpf);
+      if (!student) {
+        results.push({ line, cpf, status: 'unknown_student' });
+        return;
+      }
+
+      const enrollment = classObj.findEnrollmentByStudentCPF(cpf);
+      if (!enrollment) {
+        results.push({ line, cpf, status: 'not_enrolled' });
+        return;
+      }
+
+      // Valida a linha inteira antes de aplicar qualquer nota
+      const grades: { goal: string; grade: Grade }[] = [];
+      const invalidCells: { column: string; value: string }[] = [];
+      Object.entries(columnToGoal).forEach(([column, goal]) => {
+        const value = cellToString(row[column]).toUpperCase();
+        if (!value) {
+          return; // Célula vazia: meta não avaliada nesta linha
+        }
+        if (!GRADES.includes(value as Grade)) {
+          invalidCells.push({ column, value });
+          return;
+        }
+        grades.push({ goal, grade: value as Grade });
+      });
+
+      if (invalidCells.length > 0) {
+        results.push({ line, cpf, status: 'invalid_grade', invalidCells });
+        return;
+      }
+
+      grades.forEach(({ goal, grade }) => {
+        const change = enrollment.changeEvaluation(goal, grade, req.user?.getUsername() ?? null, 'Importação de planilha de notas');
+        if (change) {
+          gradeChanges.push({ enrollment, change });
+        }
+      });
+      results.push({ line, cpf, status: 'applied', grades });
+    });
+
+    persist(repository => gradeChanges.forEach(({ enrollment, change }) => persistGradeChange(repository, classObj, enrollment, change)));
+
+    const countByStatus = (status: GradeImportRowStatus) => results.filter(result => result.status === status).length;
+    res.json({
+      summary: {
+        applied: countByStatus('applied'),
+        unknownStudent: countByStatus('unknown_student'),
+        notEnrolled: countByStatus('not_enrolled'),
+        invalidGrade: countByStatus('invalid_grade')
+      },
+      results
+    });
+  } catch (error) {
+    console.error('Error importing grades:', error);
+    res.status(errorStatus(error)).json({
+      error: error instanceof StorageWriteError ? error.message : 'Erro ao processar o arquivo. Por favor, verifique o formato e tente novamente.'
+    });
+  } finally {
+    // Remove o arquivo temporário salvo pelo multer
+    if (uploadedPath) {
+      fs.unlink(uploadedPath, () => undefined);
+    }
+  }
 });
 
-// GET /api/classes/:classId/report - Generate statistics report for a class
-app.get('/api/classes/:classId/report', (req: Request, res: Response) => {
+// GET /api/classes/:classId/report - Generate statistics report for a class (?format=json|csv|xlsx|html)
+// Students can be filtered (?status=, belowAverage=, threshold=, search=), sorted (?sort=, order=) and paginated (?page=, pageSize=)
+// ?buckets= sets how many buckets the final grades histogram of gradeStatistics has (1-20, default 10)
+app.get('/api/classes/:classId/report', staffOnly, (req: Request, res: Response) => {
   try {
     const { classId } = req.params;
+    const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'json';
+
+    if (!REPORT_EXPORT_FORMATS.includes(format as ReportExportFormat)) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}` });
+    }
     
     const classObj = classes.findClassById(classId);
     if (!classObj) {
       return res.status(404).json({ error: 'Class not found' });
     }
 
-    const report = new Report(classObj);
-    res.json(report.toJSON());
+    // Filters, sorting and pagination only change the list of students, never the class totals
+    const report = queryReportStudents(
+      new Report(classObj).generate(parseHistogramBuckets(req.query.buckets)),
+      parseReportStudentQuery(req.query)
+    );
+    const fileName = reportFileName(report);
+    switch (format as ReportExportFormat) {
+      case 'csv':
+        res.attachment(`${fileName}.csv`);
+        // The BOM makes spreadsheet programs read accented characters as UTF-8
+        return res.type('text/csv; charset=utf-8').send('\uFEFF' + reportToCSV(report));
+      case 'xlsx':
+        res.attachment(`${fileName}.xlsx`);
+        return res.send(workbookToBuffer(reportToWorkbook(report)));
+      case 'html':
+        return res.type('html').send(reportToHTML(report));
+      default:
+        return res.json(report);
+    }
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/classes/:classId/gradebook.xlsx (or .csv) - Download every student's goal grades, averages and status
+app.get('/api/classes/:classId/gradebook.:format(xlsx|csv)', staffOnly, (req: Request, res: Response) => {
+  try {
+    const { classId, format } = req.params;
+
+    const classObj = classes.findClassById(classId);
+    if (!classObj) {
+      return res.status(404).json({ error: 'Class not found' });
+    }
+
+    res.attachment(`${gradebookFileName(classObj)}.${format}`);
+    if (format === 'csv') {
+      // The BOM makes spreadsheet programs read accented characters as UTF-8
+      return res.type('text/csv; charset=utf-8').send('\uFEFF' + gradebookToCSV(classObj));
+    }
+    res.send(workbookToBuffer(gradebookToWorkbook(classObj)));
   } catch (error) {
     res.status(400).json({ error: (error as Error).message });
   }
 });
 
 // Export the app for testing
-export { app, studentSet, classes };
+export { app, studentSet, classes, users, setStorageRepository };
 
 // Only start the server if this file is run directly (not imported for testing)
 if (require.main === module) {
@@ -11,7 +11,7 @@
 import { Given, When, Then, Before, After, DataTable, setDefaultTimeout } from '@cucumber/cucumber';
 import request from 'supertest';
 import expect from 'expect';
-import { app } from '../../server';
+import { api, loginAsProfessor, removeProfessor } from '../support/api';
 
 setDefaultTimeout(60 * 1000);
 
@@ -29,6 +29,7 @@ let studentNameToCPF: Record<string, string> = {};
 // =============================================================================
 
 Before({ tags: '@integration' }, async function () {
+  await loginAsProfessor();
   currentClassId = null;
   createdStudentCPFs = [];
   studentNameToCPF = {};
@@ -38,7 +39,7 @@ After({ tags: '@integration' }, async function () {
   // Cleanup: Delete all created students
   for (const cpf of createdStudentCPFs) {
     try {
-      await request(app).delete(`/api/students/${cpf}`);
+      await api.delete(`/api/students/${cpf}`);
     } catch (e) {
       // Ignore cleanup errors
     }
@@ -47,11 +48,12 @@ After({ tags: '@integration' }, async function () {
   // Cleanup: Delete test class
   if (currentClassId) {
     try {
-      await request(app).delete(`/api/classes/${currentClassId}`);
+      await api.delete(`/api/classes/${currentClassId}`);
     } catch (e) {
       // Ignore cleanup errors
     }
   }
+  removeProfessor();
 });
 
 // =============================================================================
@@ -66,7 +68,7 @@ async function createStudent(name: string, cpf: string): Promise<void> {
   const normalizedCPF = normalizeCPF(cpf);
   const email = `${name.toLowerCase().replace(/\s+/g, '.')}@test.com`;
   
-  const res = await request(app)
+  const res = await api
     .post('/api/students')
     .send({ name, cpf: normalizedCPF, email });
   
@@ -85,7 +87,7 @@ async function createStudent(name: string, cpf: string): Promise<void> {
 async function enrollStudent(cpf: string): Promise<void> {
   if (!currentClassId) throw new Error('No class ID');
   const normalizedCPF = normalizeCPF(cpf);
-  const res = await request(app)
+  const res = await api
     .post(`/api/classes/${currentClassId}/enroll`)
     .send({ studentCPF: normalizedCPF });
   
@@ -97,14 +99,14 @@ async function enrollStudent(cpf: string): Promise<void> {
 async function unenrollStudent(cpf: string): Promise<void> {
   if (!currentClassId) throw new Error('No class ID');
   const normalizedCPF = normalizeCPF(cpf);
-  await request(app)
+  await api
     .delete(`/api/classes/${currentClassId}/enroll/${normalizedCPF}`);
 }
 
 async function addGrade(cpf: string, goal: string, grade: string): Promise<void> {
   if (!currentClassId) throw new Error('No class ID');
   const normalizedCPF = normalizeCPF(cpf);
-  const res = await request(app)
+  const res = await api
     .put(`/api/classes/${currentClassId}/enrollments/${normalizedCPF}/evaluation`)
     .send({ goal, grade });
   
@@ -125,12 +127,12 @@ async function addCompleteGrades(cpf: string): Promise<void> {
 // =============================================================================
 
 Given('the API is connected to the Test Database', async function () {
-  const res = await request(app).get('/api/students');
+  const res = await api.get('/api/students');
   expect(res.status).toBe(200);
 });
 
 Given('a fresh class {string} exists', async function (topic: string) {
-  const res = await request(app)
+  const res = await api
     .post('/api/classes')
     .send({
       topic,
@@ -209,7 +211,7 @@ When('I update {string} grade for {string} to {string}', async function (student
 
 When('I request the report for {string}', async function (className: string) {
   if (!currentClassId) throw new Error('No class ID');
-  response = await request(app).get(`/api/classes/${currentClassId}/report`);
+  response = await api.get(`/api/classes/${currentClassId}/report`);
 });
 
 When('I perform the following operations in order:', async function (dataTable: DataTable) {
@@ -1,7 +1,7 @@
 import { Given, When, Then, Before, After, DataTable, setDefaultTimeout } from '@cucumber/cucumber';
 import request from 'supertest';
 import expect from 'expect';
-import { app } from '../../server';
+import { api, loginAsProfessor, removeProfessor } from '../support/api';
 
 setDefaultTimeout(30 * 1000);
 
@@ -12,23 +12,25 @@ let createdStudentCPFs: string[] = [];
 // Hooks
 
 Before({ tags: '@service' }, async function () {
+  await loginAsProfessor();
   currentClassId = null;
   createdStudentCPFs = [];
 });
 
 After({ tags: '@service' }, async function () {
   for (const cpf of createdStudentCPFs) {
-    await request(app).delete(`/api/students/${cpf}`).catch(() => {});
+    await api.delete(`/api/students/${cpf}`).catch(() => {});
   }
   if (currentClassId) {
-    await request(app).delete(`/api/classes/${currentClassId}`).catch(() => {});
+    await api.delete(`/api/classes/${currentClassId}`).catch(() => {});
   }
+  removeProfessor();
 });
 
 // Helper Functions
 
 async function createClass(topic: string): Promise<string> {
-  const res = await request(app)
+  const res = await api
     .post('/api/classes')
     .send({ topic, semester: 1, year: 2025 });
   currentClassId = res.body.id;
@@ -36,7 +38,7 @@ async function createClass(topic: string): Promise<string> {
 }
 
 async function createStudent(name: string, cpf: string): Promise<void> {
-  const res = await request(app)
+  const res = await api
     .post('/api/students')
     .send({ name, cpf, email: `${name.toLowerCase().replace(/\s+/g, '.')}@test.com` });
   
@@ -48,7 +50,7 @@ async function createStudent(name: string, cpf: string): Promise<void> {
 }
 
 async function enrollStudent(classId: string, cpf: string): Promise<void> {
-  const res = await request(app)
+  const res = await api
     .post(`/api/classes/${classId}/enroll`)
     .send({ studentCPF: cpf });
   
@@ -58,7 +60,7 @@ async function enrollStudent(classId: string, cpf: string): Promise<void> {
 }
 
 async function addGrade(classId: string, cpf: string, goal: string, grade: string): Promise<void> {
-  await request(app)
+  await api
     .put(`/api/classes/${classId}/enrollments/${cpf}/evaluation`)
     .send({ goal, grade });
 }
@@ -75,17 +77,17 @@ async function addAllGradesForStudent(classId: string, cpf: string, grades: stri
 // Given Steps
 
 Given('the API Controller is ready', async function () {
-  const res = await request(app).get('/api/students');
+  const res = await api.get('/api/students');
   expect(res.status).toBe(200);
 });
 
 Given('a class exists with ID {string} containing students', async function (topic: string) {
   const classId = await createClass(topic);
-  await createStudent('Test Student 1', '99999999901');
-  await enrollStudent(classId, '99999999901');
-  await addGrade(classId, '99999999901', 'Requirements', 'MA');
-  await addGrade(classId, '99999999901', 'Design', 'MA');
-  await addGrade(classId, '99999999901', 'Tests', 'MA');
+  await createStudent('Test Student 1', '98765432100');
+  await enrollStudent(classId, '98765432100');
+  await addGrade(classId, '98765432100', 'Requirements', 'MA');
+  await addGrade(classId, '98765432100', 'Design', 'MA');
+  await addGrade(classId, '98765432100', 'Tests', 'MA');
 });
 
 Given('the repository returns a class {string} with:', async function (topic: string, dataTable: DataTable) {
@@ -139,15 +141,15 @@ Given('the repository finds no class with ID {string}', function (classId: strin
 
 When('I request the report for class {string}', async function (classId: string) {
   if (currentClassId) {
-    response = await request(app).get(`/api/classes/${currentClassId}/report`);
+    response = await api.get(`/api/classes/${currentClassId}/report`);
   } else {
-    response = await request(app).get(`/api/classes/${classId}/report`);
+    response = await api.get(`/api/classes/${classId}/report`);
   }
 });
 
 When('I request the report for this class', async function () {
   if (!currentClassId) throw new Error('No class ID available');
-  response = await request(app).get(`/api/classes/${currentClassId}/report`);
+  response = await api.get(`/api/classes/${currentClassId}/report`);
 });
 
 // Then Steps
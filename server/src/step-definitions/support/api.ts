@@ -0,0 +1,36 @@
+/**
+ * Authenticated API access for the step definitions
+ * 
+ * Every API route requires a logged-in user, so the scenarios run as a temporary
+ * professor account created before and removed after each scenario.
+ */
+
+import request from 'supertest';
+import { randomBytes } from 'crypto';
+import { app, users } from '../../server';
+import { User } from '../../models/User';
+import { hashPassword } from '../../auth';
+
+const USERNAME = 'cucumber-professor';
+let token = '';
+
+export async function loginAsProfessor(): Promise<void> {
+  const password = randomBytes(12).toString('hex');
+  users.removeUser(USERNAME);
+  users.addUser(new User(USERNAME, 'Cucumber Professor', 'professor', hashPassword(password)));
+
+  const res = await request(app).post('/api/auth/login').send({ username: USERNAME, password });
+  token = res.body.token;
+}
+
+export function removeProfessor(): void {
+  users.removeUser(USERNAME);
+  token = '';
+}
+
+export const api = {
+  get: (url: string) => request(app).get(url).set('Authorization', `Bearer ${token}`),
+  post: (url: string) => request(app).post(url).set('Authorization', `Bearer ${token}`),
+  put: (url: string) => request(app).put(url).set('Authorization', `Bearer ${token}`),
+  delete: (url: string) => request(app).delete(url).set('Authorization', `Bearer ${token}`)
+};
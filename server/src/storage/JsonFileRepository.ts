@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PersistedClassState, PersistedData, PersistedEnrollmentState, PersistedEvaluation,
+  PersistedGradeChange, PersistedStudent, PersistedUser, StorageRepository
+} from './StorageRepository';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, runMigrations } from './migrations';
+
+export interface JsonFileRepositoryOptions {
+  // Directory of the timestamped backups (default: "backups" next to the data file)
+  backupDirectory?: string;
+  // Number of backups kept; older ones are deleted
+  maxBackups?: number;
+  // Minimum time between two backups taken on save
+  backupIntervalMs?: number;
+}
+
+// A grade change with the enrollment it belongs to
+interface StoredGradeChange extends PersistedGradeChange {
+  classId: string;
+  studentCPF: string;
+}
+
+// Content of the data file. The grade history is an audit trail kept apart from the enrollments
+// (like the grade_changes table of SQLite), so that it is kept when an enrollment, its class or
+// its student is deleted, and shown again if the student is enrolled again.
+interface StoredData {
+  students: PersistedStudent[];
+  classes: PersistedClassState[];
+  users: PersistedUser[];
+  gradeChanges: StoredGradeChange[];
+}
+
+const DEFAULT_MAX_BACKUPS = 10;
+const DEFAULT_BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Stores all data in a single versioned JSON file.
+// The loaded data is kept in memory and every change rewrites the whole file (once per transaction).
+// Writes go to a temporary file that is atomically renamed over the data file, so a crash
+// mid-write never leaves a truncated file, and the previous content is kept in rotating backups.
+export class JsonFileRepository implements StorageRepository {
+  private readonly filePath: string;
+  private readonly backupDirectory: string;
+  private readonly maxBackups: number;
+  private readonly backupIntervalMs: number;
+  private lastBackupAt = 0;
+  private migrationReport: MigrationReport | null = null;
+  // Set when the data file could not be read, so that saving does not overwrite it
+  private unreadable = false;
+  // Content of the data file, read on the first load or change
+  private data: StoredData | null = null;
+  private transactionDepth = 0;
+
+  constructor(filePath: string, options: JsonFileRepositoryOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    this.backupDirectory = path.resolve(options.backupDirectory ?? path.join(path.dirname(this.filePath), 'backups'));
+    this.maxBackups = options.maxBackups ?? DEFAULT_MAX_BACKUPS;
+    this.backupIntervalMs = options.backupIntervalMs ?? DEFAULT_BACKUP_INTERVAL_MS;
+  }
+
+  load(): PersistedData {
+    this.migrationReport = null;
+    if (!fs.existsSync(this.filePath)) {
+      this.data = { students: [], classes: [], users: [], gradeChanges: [] };
+      return toPersistedData(this.data);
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.migrationReport = runMigrations(data);
+    } catch (error) {
+      this.unreadable = true;
+      throw new Error(`Could not load ${this.filePath}: ${(error as Error).message}. The file was left untouched; backups are in ${this.backupDirectory}`);
+    }
+    this.unreadable = false;
+
+    // Keep the original file before writing the upgraded one
+    if (this.migrationReport.applied.length > 0) {
+      this.backup('pre-migration');
+      this.writeAtomically({ schemaVersion: data.schemaVersion, ...data });
+    }
+
+    this.data = {
+      students: Array.isArray(data.students) ? data.students : [],
+      classes: Array.isArray(data.classes) ? data.classes : [],
+      users: Array.isArray(data.users) ? data.users : [],
+      gradeChanges: Array.isArray(data.gradeChanges) ? data.gradeChanges : []
+    };
+    return toPersistedData(this.data);
+  }
+
+  save(data: PersistedData): void {
+    this.change(stored => {
+      const snapshot = clone(data);
+      stored.students = snapshot.students;
+      stored.users = snapshot.users;
+      stored.classes = snapshot.classes.map(({ enrollments, ...classData }) => ({
+        ...classData,
+        enrollments: enrollments.map(({ history, ...enrollment }) => enrollment)
+      }));
+
+      // The history is append-only: entries already stored are never rewritten, and the
+      // history of enrollments missing from the snapshot is kept
+      snapshot.classes.forEach(classData => classData.enrollments.forEach(enrollment => {
+        const storedCount = historyOf(stored, classData.id, enrollment.studentCPF).length;
+        (enrollment.history ?? []).slice(storedCount).forEach(change => stored.gradeChanges.push({
+          classId: classData.id,
+          studentCPF: enrollment.studentCPF,
+          ...change
+        }));
+      }));
+    });
+  }
+
+  transaction(work: () => void): void {
+    this.change(work);
+  }
+
+  upsertStudent(student: PersistedStudent): void {
+    this.change(data => {
+      const index = data.students.findIndex(s => s.cpf === student.cpf);
+      if (index === -1) {
+        data.students.push({ ...student });
+      } else {
+        data.students[index] = { ...student };
+      }
+    });
+  }
+
+  deleteStudent(cpf: string): void {
+    this.change(data => {
+      data.students = data.students.filter(student => student.cpf !== cpf);
+      data.classes.forEach(classData => {
+        classData.enrollments = classData.enrollments.filter(enrollment => enrollment.studentCPF !== cpf);
+      });
+    });
+  }
+
+  upsertClass(classData: PersistedClassState): void {
+    this.change(data => {
+      const index = data.classes.findIndex(c => c.id === classData.id);
+      const updated: PersistedClassState = {
+        ...classData,
+        enrollments: classData.enrollments.map(copyEnrollment)
+      };
+      if (index === -1) {
+        data.classes.push(updated);
+      } else {
+        data.classes[index] = updated;
+      }
+    });
+  }
+
+  deleteClass(classId: string): void {
+    this.change(data => {
+      data.classes = data.classes.filter(classData => classData.id !== classId);
+    });
+  }
+
+  upsertEnrollment(classId: string, enrollment: PersistedEnrollmentState): void {
+    this.change(data => {
+      const classData = findClass(data, classId);
+      const index = classData.enrollments.findIndex(e => e.studentCPF === enrollment.studentCPF);
+      const updated = copyEnrollment(enrollment);
+      if (index === -1) {
+        classData.enrollments.push(updated);
+      } else {
+        classData.enrollments[index] = updated;
+      }
+    });
+  }
+
+  deleteEnrollment(classId: string, studentCPF: string): void {
+    this.change(data => {
+      const classData = findClass(data, classId);
+      classData.enrollments = classData.enrollments.filter(enrollment => enrollment.studentCPF !== studentCPF);
+    });
+  }
+
+  upsertEvaluation(classId: string, studentCPF: string, evaluation: PersistedEvaluation): void {
+    this.change(data => {
+      const enrollment = findEnrollment(data, classId, studentCPF);
+      const index = enrollment.evaluations.findIndex(e => e.goal === evaluation.goal);
+      if (index === -1) {
+        enrollment.evaluations.push({ ...evaluation });
+      } else {
+        enrollment.evaluations[index] = { ...evaluation };
+      }
+    });
+  }
+
+  deleteEvaluation(classId: string, studentCPF: string, goal: string): void {
+    this.change(data => {
+      const enrollment = findEnrollment(data, classId, studentCPF);
+      enrollment.evaluations = enrollment.evaluations.filter(evaluation => evaluation.goal !== goal);
+    });
+  }
+
+  appendGradeChanges(classId: string, studentCPF: string, changes: PersistedGradeChange[]): void {
+    this.change(data => {
+      findEnrollment(data, classId, studentCPF);
+      changes.forEach(change => data.gradeChanges.push({ classId, studentCPF, ...change }));
+    });
+  }
+
+  upsertUser(user: PersistedUser): void {
+    this.change(data => {
+      const index = data.users.findIndex(u => u.username === user.username);
+      if (index === -1) {
+        data.users.push({ ...user });
+      } else {
+        data.users[index] = { ...user };
+      }
+    });
+  }
+
+  deleteUser(username: string): void {
+    this.change(data => {
+      data.users = data.users.filter(user => user.username !== username);
+    });
+  }
+
+  close(): void {
+    // Nothing to release: the file is opened only while reading or writing
+  }
+
+  getMigrationReport(): MigrationReport | null {
+    return this.migrationReport;
+  }
+
+  // Applies a change to the data in memory and writes the file, unless it is part of an outer
+  // transaction; if the change throws, the data goes back to what it was before it
+  private change(apply: (data: StoredData) => void): void {
+    if (this.unreadable) {
+      throw new Error(`Refusing to overwrite ${this.filePath}, which could not be loaded`);
+    }
+
+    if (!this.data) {
+      this.load();
+    }
+    const data = this.data!;
+    if (this.transactionDepth > 0) {
+      apply(data);
+      return;
+    }
+
+    const previous = clone(data);
+    this.transactionDepth++;
+    try {
+      apply(data);
+    } catch (error) {
+      this.data = previous;
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+    this.write();
+  }
+
+  private write(): void {
+    if (Date.now() - this.lastBackupAt >= this.backupIntervalMs) {
+      this.backup();
+    }
+    this.writeAtomically({ schemaVersion: CURRENT_SCHEMA_VERSION, ...this.data });
+  }
+
+  // Timestamped copy of the current data file, keeping only the newest maxBackups copies
+  private backup(label?: string): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    fs.mkdirSync(this.backupDirectory, { recursive: true });
+    const baseName = path.basename(this.filePath, '.json');
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const suffix = label ? `-${label}` : '';
+    const backups = fs.readdirSync(this.backupDirectory)
+      .map(name => parseBackupName(baseName, name))
+      .filter((backup): backup is BackupFile => backup !== null);
+
+    // Several backups within the same millisecond get increasing sequence numbers
+    const sameTimestamp = backups.filter(backup => backup.timestamp === timestamp);
+    const sequence = sameTimestamp.length === 0 ? 0 : Math.max(...sameTimestamp.map(backup => backup.sequence)) + 1;
+    const name = `${baseName}-${timestamp}${sequence > 0 ? `-${sequence}` : ''}${suffix}.json`;
+    fs.copyFileSync(this.filePath, path.join(this.backupDirectory, name));
+    this.lastBackupAt = Date.now();
+
+    backups.push({ name, timestamp, sequence });
+    backups.sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.sequence - b.sequence);
+    backups.slice(0, Math.max(0, backups.length - this.maxBackups))
+      .forEach(backup => fs.unlinkSync(path.join(this.backupDirectory, backup.name)));
+  }
+
+  private writeAtomically(data: unknown): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(data, null, 2), null, 'utf8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+interface BackupFile {
+  name: string;
+  timestamp: string;
+  sequence: number;
+}
+
+// Backup names are <base>-<timestamp>[-<sequence>][-<label>].json; other files are not backups
+const parseBackupName = (baseName: string, name: string): BackupFile | null => {
+  if (!name.startsWith(`${baseName}-`) || !name.endsWith('.json')) {
+    return null;
+  }
+  const match = /^([^Z]+Z)(?:-(\d+))?(?:-[^\d].*)?$/.exec(name.slice(baseName.length + 1, -'.json'.length));
+  return match ? { name, timestamp: match[1], sequence: Number(match[2] ?? 0) } : null;
+};
+
+const clone = <T>(data: T): T => JSON.parse(JSON.stringify(data));
+
+const findClass = (data: StoredData, classId: string): PersistedClassState => {
+  const classData = data.classes.find(c => c.id === classId);
+  if (!classData) {
+    throw new Error(`Class ${classId} is not stored`);
+  }
+  return classData;
+};
+
+const findEnrollment = (data: StoredData, classId: string, studentCPF: string): PersistedEnrollmentState => {
+  const enrollment = findClass(data, classId).enrollments.find(e => e.studentCPF === studentCPF);
+  if (!enrollment) {
+    throw new Error(`Enrollment of ${studentCPF} in class ${classId} is not stored`);
+  }
+  return enrollment;
+};
+
+const copyEnrollment = (enrollment: PersistedEnrollmentState): PersistedEnrollmentState => ({
+  studentCPF: enrollment.studentCPF,
+  evaluations: enrollment.evaluations.map(evaluation => ({ ...evaluation })),
+  notaDaProvaFinal: enrollment.notaDaProvaFinal,
+  reprovadoPorFalta: enrollment.reprovadoPorFalta
+});
+
+// Grade history of an enrollment, oldest first
+const historyOf = (data: StoredData, classId: string, studentCPF: string): PersistedGradeChange[] =>
+  data.gradeChanges
+    .filter(change => change.classId === classId && change.studentCPF === studentCPF)
+    .map(({ classId: _classId, studentCPF: _studentCPF, ...change }) => change);
+
+// Stored data as returned by load, with each enrollment holding its grade history
+const toPersistedData = (data: StoredData): PersistedData => {
+  const copy = clone(data);
+  return {
+    students: copy.students,
+    classes: copy.classes.map(classData => ({
+      ...classData,
+      enrollments: classData.enrollments.map(enrollment => ({
+        ...enrollment,
+        history: historyOf(copy, classData.id, enrollment.studentCPF)
+      }))
+    })),
+    users: copy.users
+  };
+};
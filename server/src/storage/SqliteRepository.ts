@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { Grade } from '../models/Evaluation';
+import {
+  PersistedClass, PersistedClassState, PersistedData, PersistedEnrollment, PersistedEnrollmentState, PersistedEvaluation,
+  PersistedGradeChange, PersistedStudent, PersistedUser, StorageRepository
+} from './StorageRepository';
+import { MigrationReport } from './migrations';
+
+// The grade history is an audit trail: it has no foreign key to enrollments, so that it is kept
+// when an enrollment, its class or its student is deleted
+const GRADE_CHANGES_TABLE = `
+  CREATE TABLE IF NOT EXISTS grade_changes (
+    class_id TEXT NOT NULL,
+    student_cpf TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    goal TEXT NOT NULL,
+    old_grade TEXT,
+    new_grade TEXT,
+    timestamp TEXT NOT NULL,
+    actor TEXT,
+    reason TEXT,
+    PRIMARY KEY (class_id, student_cpf, position)
+  );
+`;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS students (
+    cpf TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    position INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS classes (
+    id TEXT PRIMARY KEY,
+    legacy_id TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    semester INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    especificacao_do_calculo_da_media TEXT NOT NULL,
+    max_absence_percentage REAL NOT NULL,
+    approval_criteria TEXT NOT NULL,
+    lecture_sessions TEXT NOT NULL,
+    position INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS enrollments (
+    class_id TEXT NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_cpf TEXT NOT NULL REFERENCES students(cpf) ON DELETE CASCADE,
+    nota_da_prova_final REAL,
+    reprovado_por_falta INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (class_id, student_cpf)
+  );
+
+  CREATE TABLE IF NOT EXISTS evaluations (
+    class_id TEXT NOT NULL,
+    student_cpf TEXT NOT NULL,
+    goal TEXT NOT NULL,
+    grade TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (class_id, student_cpf, goal),
+    FOREIGN KEY (class_id, student_cpf) REFERENCES enrollments(class_id, student_cpf) ON DELETE CASCADE
+  );
+
+  ${GRADE_CHANGES_TABLE}
+
+  CREATE TABLE IF NOT EXISTS users (
+    username TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    student_cpf TEXT,
+    position INTEGER NOT NULL
+  );
+`;
+
+// Stores each entity in its own table of an embedded SQLite database file.
+// Each change writes only the rows of the entity it touches; saving a whole snapshot upserts it
+// and deletes only the rows that are gone, inside a single transaction.
+export class SqliteRepository implements StorageRepository {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    const resolvedPath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+
+    this.db = new Database(resolvedPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.upgradeGradeChangesTable();
+  }
+
+  load(): PersistedData {
+    const students = this.db
+      .prepare('SELECT cpf, name, email FROM students ORDER BY position')
+      .all() as PersistedStudent[];
+
+    const evaluationsByEnrollment = new Map<string, PersistedEnrollment['evaluations']>();
+    const evaluationRows = this.db
+      .prepare('SELECT class_id, student_cpf, goal, grade FROM evaluations ORDER BY position')
+      .all() as { class_id: string; student_cpf: string; goal: string; grade: string }[];
+    evaluationRows.forEach(row => {
+      const key = `${row.class_id}\u0000${row.student_cpf}`;
+      const evaluations = evaluationsByEnrollment.get(key) ?? [];
+      evaluations.push({ goal: row.goal, grade: row.grade as Grade });
+      evaluationsByEnrollment.set(key, evaluations);
+    });
+
+    const historyByEnrollment = new Map<string, PersistedEnrollment['history']>();
+    const changeRows = this.db
+      .prepare('SELECT class_id, student_cpf, goal, old_grade, new_grade, timestamp, actor, reason FROM grade_changes ORDER BY position')
+      .all() as {
+        class_id: string; student_cpf: string; goal: string; old_grade: string | null; new_grade: string | null;
+        timestamp: string; actor: string | null; reason: string | null;
+      }[];
+    changeRows.forEach(row => {
+      const key = `${row.class_id}\u0000${row.student_cpf}`;
+      const history = historyByEnrollment.get(key) ?? [];
+      history.push({
+        goal: row.goal,
+        oldGrade: row.old_grade as Grade | null,
+        newGrade: row.new_grade as Grade | null,
+        timestamp: row.timestamp,
+        actor: row.actor,
+        reason: row.reason
+      });
+      historyByEnrollment.set(key, history);
+    });
+
+    const enrollmentsByClass = new Map<string, PersistedEnrollment[]>();
+    const enrollmentRows = this.db
+      .prepare('SELECT class_id, student_cpf, nota_da_prova_final, reprovado_por_falta FROM enrollments ORDER BY position')
+      .all() as { class_id: string; student_cpf: string; nota_da_prova_final: number | null; reprovado_por_falta: number }[];
+    enrollmentRows.forEach(row => {
+      const enrollments = enrollmentsByClass.get(row.class_id) ?? [];
+      enrollments.push({
+        studentCPF: row.student_cpf,
+        evaluations: evaluationsByEnrollment.get(`${row.class_id}\u0000${row.student_cpf}`) ?? [],
+        notaDaProvaFinal: row.nota_da_prova_final,
+        reprovadoPorFalta: row.reprovado_por_falta === 1,
+        history: historyByEnrollment.get(`${row.class_id}\u0000${row.student_cpf}`) ?? []
+      });
+      enrollmentsByClass.set(row.class_id, enrollments);
+    });
+
+    const classRows = this.db
+      .prepare(`
+        SELECT id, legacy_id, topic, semester, year, especificacao_do_calculo_da_media, max_absence_percentage,
+          approval_criteria, lecture_sessions
+        FROM classes ORDER BY position
+      `)
+      .all() as {
+        id: string; legacy_id: string; topic: string; semester: number; year: number; especificacao_do_calculo_da_media: string;
+        max_absence_percentage: number; approval_criteria: string; lecture_sessions: string;
+      }[];
+    const classes: PersistedClass[] = classRows.map(row => ({
+      id: row.id,
+      legacyId: row.legacy_id,
+      topic: row.topic,
+      semester: row.semester,
+      year: row.year,
+      especificacaoDoCalculoDaMedia: JSON.parse(row.especificacao_do_calculo_da_media),
+      maxAbsencePercentage: row.max_absence_percentage,
+      approvalCriteria: JSON.parse(row.approval_criteria),
+      lectureSessions: JSON.parse(row.lecture_sessions),
+      enrollments: enrollmentsByClass.get(row.id) ?? []
+    }));
+
+    const users = this.db
+      .prepare('SELECT username, name, role, password_hash AS passwordHash, student_cpf AS studentCPF FROM users ORDER BY position')
+      .all() as PersistedUser[];
+
+    return { students, classes, users };
+  }
+
+  save(data: PersistedData): void {
+    const deleteMissingUsers = this.db.prepare('DELETE FROM users WHERE username NOT IN (SELECT value FROM json_each(?))');
+    const deleteMissingClasses = this.db.prepare('DELETE FROM classes WHERE id NOT IN (SELECT value FROM json_each(?))');
+    const deleteMissingStudents = this.db.prepare('DELETE FROM students WHERE cpf NOT IN (SELECT value FROM json_each(?))');
+
+    this.transaction(() => {
+      data.students.forEach((student, position) => this.writeStudent(student, position));
+
+      data.classes.forEach((classData, position) => {
+        this.writeClass(classData, position);
+        // The history is append-only: entries already stored are never rewritten
+        classData.enrollments.forEach(enrollment => (enrollment.history ?? []).forEach((change, changePosition) =>
+          this.insertGradeChange(classData.id, enrollment.studentCPF, change, changePosition)
+        ));
+      });
+
+      // Deleting classes and students cascades to their enrollments and evaluations (not to the grade history)
+      deleteMissingClasses.run(JSON.stringify(data.classes.map(classData => classData.id)));
+      deleteMissingStudents.run(JSON.stringify(data.students.map(student => student.cpf)));
+
+      data.users.forEach((user, position) => this.writeUser(user, position));
+      deleteMissingUsers.run(JSON.stringify(data.users.map(user => user.username)));
+    });
+  }
+
+  transaction(work: () => void): void {
+    this.db.transaction(work)();
+  }
+
+  upsertStudent(student: PersistedStudent): void {
+    this.writeStudent(student, null);
+  }
+
+  deleteStudent(cpf: string): void {
+    this.db.prepare('DELETE FROM students WHERE cpf = ?').run(cpf);
+  }
+
+  upsertClass(classData: PersistedClassState): void {
+    this.transaction(() => this.writeClass(classData, null));
+  }
+
+  deleteClass(classId: string): void {
+    this.db.prepare('DELETE FROM classes WHERE id = ?').run(classId);
+  }
+
+  upsertEnrollment(classId: string, enrollment: PersistedEnrollmentState): void {
+    this.transaction(() => this.writeEnrollment(classId, enrollment, null));
+  }
+
+  deleteEnrollment(classId: string, studentCPF: string): void {
+    this.db.prepare('DELETE FROM enrollments WHERE class_id = ? AND student_cpf = ?').run(classId, studentCPF);
+  }
+
+  upsertEvaluation(classId: string, studentCPF: string, evaluation: PersistedEvaluation): void {
+    this.writeEvaluation(classId, studentCPF, evaluation, null);
+  }
+
+  deleteEvaluation(classId: string, studentCPF: string, goal: string): void {
+    this.db.prepare('DELETE FROM evaluations WHERE class_id = ? AND student_cpf = ? AND goal = ?').run(classId, studentCPF, goal);
+  }
+
+  appendGradeChanges(classId: string, studentCPF: string, changes: PersistedGradeChange[]): void {
+    this.transaction(() => changes.forEach(change => this.insertGradeChange(classId, studentCPF, change, null)));
+  }
+
+  upsertUser(user: PersistedUser): void {
+    this.writeUser(user, null);
+  }
+
+  deleteUser(username: string): void {
+    this.db.prepare('DELETE FROM users WHERE username = ?').run(username);
+  }
+
+  // The writers below take the position of the row; with a null position, a new row goes after
+  // the existing ones and an existing row keeps its position
+
+  private writeStudent(student: PersistedStudent, position: number | null): void {
+    this.db.prepare(`
+      INSERT INTO students (cpf, name, email, position)
+      VALUES (@cpf, @name, @email, COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM students)))
+      ON CONFLICT(cpf) DO UPDATE SET name = excluded.name, email = excluded.email, position = COALESCE(@position, position)
+    `).run({ cpf: student.cpf, name: student.name, email: student.email, position });
+  }
+
+  // Writes the class with its enrollments and evaluations, deleting the enrollments that are gone
+  private writeClass(classData: PersistedClassState, position: number | null): void {
+    this.db.prepare(`
+      INSERT INTO classes (id, legacy_id, topic, semester, year, especificacao_do_calculo_da_media, max_absence_percentage, approval_criteria, lecture_sessions, position)
+      VALUES (@id, @legacyId, @topic, @semester, @year, @especificacao, @maxAbsencePercentage, @approvalCriteria, @lectureSessions,
+        COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM classes)))
+      ON CONFLICT(id) DO UPDATE SET
+        legacy_id = excluded.legacy_id, topic = excluded.topic, semester = excluded.semester, year = excluded.year,
+        especificacao_do_calculo_da_media = excluded.especificacao_do_calculo_da_media,
+        max_absence_percentage = excluded.max_absence_percentage, approval_criteria = excluded.approval_criteria,
+        lecture_sessions = excluded.lecture_sessions, position = COALESCE(@position, position)
+    `).run({
+      id: classData.id,
+      legacyId: classData.legacyId,
+      topic: classData.topic,
+      semester: classData.semester,
+      year: classData.year,
+      especificacao: JSON.stringify(classData.especificacaoDoCalculoDaMedia),
+      maxAbsencePercentage: classData.maxAbsencePercentage,
+      approvalCriteria: JSON.stringify(classData.approvalCriteria),
+      lectureSessions: JSON.stringify(classData.lectureSessions),
+      position
+    });
+
+    classData.enrollments.forEach((enrollment, enrollmentPosition) => this.writeEnrollment(classData.id, enrollment, enrollmentPosition));
+    this.db.prepare('DELETE FROM enrollments WHERE class_id = ? AND student_cpf NOT IN (SELECT value FROM json_each(?))')
+      .run(classData.id, JSON.stringify(classData.enrollments.map(enrollment => enrollment.studentCPF)));
+  }
+
+  // Writes the enrollment with its evaluations, deleting the evaluations that are gone
+  private writeEnrollment(classId: string, enrollment: PersistedEnrollmentState, position: number | null): void {
+    this.db.prepare(`
+      INSERT INTO enrollments (class_id, student_cpf, nota_da_prova_final, reprovado_por_falta, position)
+      VALUES (@classId, @studentCPF, @notaDaProvaFinal, @reprovadoPorFalta,
+        COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM enrollments WHERE class_id = @classId)))
+      ON CONFLICT(class_id, student_cpf) DO UPDATE SET
+        nota_da_prova_final = excluded.nota_da_prova_final, reprovado_por_falta = excluded.reprovado_por_falta,
+        position = COALESCE(@position, position)
+    `).run({
+      classId,
+      studentCPF: enrollment.studentCPF,
+      notaDaProvaFinal: enrollment.notaDaProvaFinal,
+      reprovadoPorFalta: enrollment.reprovadoPorFalta ? 1 : 0,
+      position
+    });
+
+    enrollment.evaluations.forEach((evaluation, evaluationPosition) =>
+      this.writeEvaluation(classId, enrollment.studentCPF, evaluation, evaluationPosition)
+    );
+    this.db.prepare('DELETE FROM evaluations WHERE class_id = ? AND student_cpf = ? AND goal NOT IN (SELECT value FROM json_each(?))')
+      .run(classId, enrollment.studentCPF, JSON.stringify(enrollment.evaluations.map(evaluation => evaluation.goal)));
+  }
+
+  private writeEvaluation(classId: string, studentCPF: string, evaluation: PersistedEvaluation, position: number | null): void {
+    this.db.prepare(`
+      INSERT INTO evaluations (class_id, student_cpf, goal, grade, position)
+      VALUES (@classId, @studentCPF, @goal, @grade,
+        COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM evaluations WHERE class_id = @classId AND student_cpf = @studentCPF)))
+      ON CONFLICT(class_id, student_cpf, goal) DO UPDATE SET grade = excluded.grade, position = COALESCE(@position, position)
+    `).run({ classId, studentCPF, goal: evaluation.goal, grade: evaluation.grade, position });
+  }
+
+  // Entries already stored at a position are never rewritten
+  private insertGradeChange(classId: string, studentCPF: string, change: PersistedGradeChange, position: number | null): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO grade_changes (class_id, student_cpf, position, goal, old_grade, new_grade, timestamp, actor, reason)
+      VALUES (@classId, @studentCPF,
+        COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM grade_changes WHERE class_id = @classId AND student_cpf = @studentCPF)),
+        @goal, @oldGrade, @newGrade, @timestamp, @actor, @reason)
+    `).run({
+      classId,
+      studentCPF,
+      position,
+      goal: change.goal,
+      oldGrade: change.oldGrade,
+      newGrade: change.newGrade,
+      timestamp: change.timestamp,
+      actor: change.actor,
+      reason: change.reason
+    });
+  }
+
+  private writeUser(user: PersistedUser, position: number | null): void {
+    this.db.prepare(`
+      INSERT INTO users (username, name, role, password_hash, student_cpf, position)
+      VALUES (@username, @name, @role, @passwordHash, @studentCPF,
+        COALESCE(@position, (SELECT COALESCE(MAX(position) + 1, 0) FROM users)))
+      ON CONFLICT(username) DO UPDATE SET
+        name = excluded.name, role = excluded.role, password_hash = excluded.password_hash,
+        student_cpf = excluded.student_cpf, position = COALESCE(@position, position)
+    `).run({
+      username: user.username,
+      name: user.name,
+      role: user.role,
+      passwordHash: user.passwordHash,
+      studentCPF: user.studentCPF,
+      position
+    });
+  }
+
+  // Databases created before the history outlived enrollments delete it together with them;
+  // their grade_changes table is rebuilt without the foreign key
+  private upgradeGradeChangesTable(): void {
+    if (this.db.prepare('PRAGMA foreign_key_list(grade_changes)').all().length === 0) {
+      return;
+    }
+
+    this.transaction(() => this.db.exec(`
+      ALTER TABLE grade_changes RENAME TO grade_changes_with_cascade;
+      ${GRADE_CHANGES_TABLE}
+      INSERT INTO grade_changes SELECT * FROM grade_changes_with_cascade;
+      DROP TABLE grade_changes_with_cascade;
+    `));
+  }
+
+  // Tables are created with the current schema (see upgradeGradeChangesTable), so there is no migration to report
+  getMigrationReport(): MigrationReport | null {
+    return null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,165 @@
+import { Grade } from '../models/Evaluation';
+import { UserRole } from '../models/User';
+import { MigrationReport } from './migrations';
+
+// Plain records stored by the repositories, independent of the domain models
+
+export interface PersistedStudent {
+  name: string;
+  cpf: string;
+  email: string;
+}
+
+export interface PersistedEvaluation {
+  goal: string;
+  grade: Grade;
+}
+
+export interface PersistedGradeChange {
+  goal: string;
+  oldGrade: Grade | null;
+  newGrade: Grade | null;
+  timestamp: string;
+  actor: string | null;
+  reason: string | null;
+}
+
+export interface PersistedEnrollment {
+  studentCPF: string;
+  evaluations: PersistedEvaluation[];
+  notaDaProvaFinal: number | null;
+  reprovadoPorFalta: boolean;
+  // Append-only history of grade changes, oldest first
+  history: PersistedGradeChange[];
+}
+
+export interface PersistedClass {
+  id: string;
+  legacyId: string;
+  topic: string;
+  semester: number;
+  year: number;
+  especificacaoDoCalculoDaMedia: any;
+  maxAbsencePercentage: number;
+  approvalCriteria: any;
+  lectureSessions: any[];
+  enrollments: PersistedEnrollment[];
+}
+
+export interface PersistedUser {
+  username: string;
+  name: string;
+  role: UserRole;
+  passwordHash: string;
+  // CPF of the student linked to a student account
+  studentCPF: string | null;
+}
+
+// Enrollment and class as written by the per-entity methods: the grade history is only ever
+// appended to, through appendGradeChanges
+export type PersistedEnrollmentState = Omit<PersistedEnrollment, 'history'>;
+
+export type PersistedClassState = Omit<PersistedClass, 'enrollments'> & { enrollments: PersistedEnrollmentState[] };
+
+export interface PersistedData {
+  students: PersistedStudent[];
+  classes: PersistedClass[];
+  users: PersistedUser[];
+}
+
+export type StorageType = 'json' | 'sqlite';
+
+export interface StorageConfig {
+  type: StorageType;
+  // Path of the JSON file or of the SQLite database file
+  path: string;
+}
+
+/**
+ * Storage of students, classes, enrollments, evaluations and user accounts.
+ * 
+ * The server keeps the data in memory and stores each change through the per-entity methods;
+ * each implementation decides how to store it (a single JSON file, SQLite tables, ...).
+ */
+export interface StorageRepository {
+  /**
+   * Reads everything stored. Returns empty collections when nothing was stored yet.
+   */
+  load(): PersistedData;
+
+  /**
+   * Replaces the stored data with the given snapshot.
+   */
+  save(data: PersistedData): void;
+
+  /**
+   * Runs several changes as one: either all of them are stored or none is.
+   */
+  transaction(work: () => void): void;
+
+  /**
+   * Inserts a student or updates the one with the same CPF.
+   */
+  upsertStudent(student: PersistedStudent): void;
+
+  /**
+   * Deletes a student and the student's enrollments.
+   */
+  deleteStudent(cpf: string): void;
+
+  /**
+   * Inserts a class or updates the one with the same id, together with its enrollments and
+   * evaluations (the ones missing from classData are deleted).
+   */
+  upsertClass(classData: PersistedClassState): void;
+
+  /**
+   * Deletes a class and its enrollments.
+   */
+  deleteClass(classId: string): void;
+
+  /**
+   * Inserts an enrollment of an existing class or updates it, together with its evaluations.
+   */
+  upsertEnrollment(classId: string, enrollment: PersistedEnrollmentState): void;
+
+  /**
+   * Deletes an enrollment and its evaluations.
+   */
+  deleteEnrollment(classId: string, studentCPF: string): void;
+
+  /**
+   * Inserts the grade of a goal of an existing enrollment or updates it.
+   */
+  upsertEvaluation(classId: string, studentCPF: string, evaluation: PersistedEvaluation): void;
+
+  /**
+   * Deletes the grade of a goal.
+   */
+  deleteEvaluation(classId: string, studentCPF: string, goal: string): void;
+
+  /**
+   * Appends changes to the grade history of an enrollment.
+   */
+  appendGradeChanges(classId: string, studentCPF: string, changes: PersistedGradeChange[]): void;
+
+  /**
+   * Inserts a user account or updates the one with the same username.
+   */
+  upsertUser(user: PersistedUser): void;
+
+  /**
+   * Deletes a user account.
+   */
+  deleteUser(username: string): void;
+
+  /**
+   * Migrations applied by the last load (null when the stored data needed no upgrade path).
+   */
+  getMigrationReport(): MigrationReport | null;
+
+  /**
+   * Releases resources held by the repository (open files, connections).
+   */
+  close(): void;
+}
@@ -0,0 +1,33 @@
+import { JsonFileRepository } from './JsonFileRepository';
+import { SqliteRepository } from './SqliteRepository';
+import { StorageConfig, StorageRepository, StorageType } from './StorageRepository';
+
+export * from './StorageRepository';
+export { JsonFileRepository } from './JsonFileRepository';
+export { SqliteRepository } from './SqliteRepository';
+export { MIGRATIONS, CURRENT_SCHEMA_VERSION, runMigrations, Migration, MigrationReport } from './migrations';
+
+const DEFAULT_PATHS: Record<StorageType, string> = {
+  json: './data/app-data.json',
+  sqlite: './data/app-data.sqlite'
+};
+
+// Read the storage configuration from the environment:
+// STORAGE_TYPE=json|sqlite (default json) and STORAGE_PATH (default ./data/app-data.<json|sqlite>)
+export const getStorageConfig = (env: NodeJS.ProcessEnv = process.env): StorageConfig => {
+  const type = (env.STORAGE_TYPE || 'json').toLowerCase();
+  if (type !== 'json' && type !== 'sqlite') {
+    throw new Error(`Unknown storage type '${env.STORAGE_TYPE}'. Use 'json' or 'sqlite'`);
+  }
+  return { type, path: env.STORAGE_PATH || DEFAULT_PATHS[type] };
+};
+
+export const createStorageRepository = (config: StorageConfig): StorageRepository => {
+  switch (config.type) {
+    case 'sqlite':
+      return new SqliteRepository(config.path);
+    case 'json':
+    default:
+      return new JsonFileRepository(config.path);
+  }
+};
@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Ordered pipeline that upgrades old data files to the current schema.
+ * 
+ * Files saved before versioning have no `schemaVersion` and are treated as version 0.
+ * Each migration upgrades the document from `version - 1` to `version` and returns
+ * a description of every change it made, which is reported on startup.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: any): string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: { version: number; description: string; changes: string[] }[];
+}
+
+// Converts the legacy array formats ([key, value] pairs or { key, value } entries) to a plain object
+const toWeightsObject = (weights: any): { value: Record<string, number>; converted: boolean } => {
+  if (Array.isArray(weights)) {
+    const entries = weights.map((entry: any) =>
+      entry && typeof entry === 'object' && 'key' in entry ? [entry.key, Number(entry.value)] : [entry[0], Number(entry[1])]
+    );
+    return { value: Object.fromEntries(entries), converted: true };
+  }
+  return { value: weights ?? {}, converted: false };
+};
+
+const classLabel = (classData: any): string => `${classData.topic} (${classData.year}/${classData.semester})`;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Convert grading specifications to plain objects with post-final weights',
+    migrate: (data) => {
+      const changes: string[] = [];
+      (data.classes ?? []).forEach((classData: any) => {
+        const especificacao = classData.especificacaoDoCalculoDaMedia;
+        if (!especificacao) {
+          return;
+        }
+        const conceitos = toWeightsObject(especificacao.pesosDosConceitos);
+        const metas = toWeightsObject(especificacao.pesosDasMetas);
+        especificacao.pesosDosConceitos = conceitos.value;
+        especificacao.pesosDasMetas = metas.value;
+        if (conceitos.converted || metas.converted) {
+          changes.push(`${classLabel(classData)}: converted legacy specification weights`);
+        }
+        if (!especificacao.pesosDaMediaPosFinal) {
+          especificacao.pesosDaMediaPosFinal = { mediaPreFinal: 1, provaFinal: 1 };
+          changes.push(`${classLabel(classData)}: added default post-final weights`);
+        }
+      });
+      return changes;
+    }
+  },
+  {
+    version: 2,
+    description: 'Generate stable class ids',
+    migrate: (data) => {
+      const changes: string[] = [];
+      (data.classes ?? []).forEach((classData: any) => {
+        if (!classData.legacyId) {
+          classData.legacyId = `${classData.topic}-${classData.year}-${classData.semester}`;
+        }
+        if (!classData.id) {
+          classData.id = randomUUID();
+          changes.push(`${classLabel(classData)}: generated id ${classData.id} (alias ${classData.legacyId})`);
+        }
+      });
+      return changes;
+    }
+  },
+  {
+    version: 3,
+    description: 'Add attendance and approval settings and drop stored averages',
+    migrate: (data) => {
+      const changes: string[] = [];
+      (data.classes ?? []).forEach((classData: any) => {
+        const added: string[] = [];
+        if (classData.maxAbsencePercentage === undefined) {
+          classData.maxAbsencePercentage = 25;
+          added.push('maxAbsencePercentage');
+        }
+        if (!Array.isArray(classData.lectureSessions)) {
+          classData.lectureSessions = [];
+          added.push('lectureSessions');
+        }
+        if (!classData.approvalCriteria) {
+          classData.approvalCriteria = { directApprovalThreshold: 7, finalExamEligibilityThreshold: 3, postFinalApprovalThreshold: 5 };
+          added.push('approvalCriteria');
+        }
+        if (added.length > 0) {
+          changes.push(`${classLabel(classData)}: added default ${added.join(', ')}`);
+        }
+
+        let droppedAverages = 0;
+        (classData.enrollments ?? []).forEach((enrollment: any) => {
+          // Averages are always recomputed from the evaluations
+          if ('mediaPreFinal' in enrollment || 'mediaPosFinal' in enrollment) {
+            delete enrollment.mediaPreFinal;
+            delete enrollment.mediaPosFinal;
+            droppedAverages++;
+          }
+          enrollment.evaluations = enrollment.evaluations ?? [];
+          enrollment.notaDaProvaFinal = typeof enrollment.notaDaProvaFinal === 'number' ? enrollment.notaDaProvaFinal : null;
+          enrollment.reprovadoPorFalta = Boolean(enrollment.reprovadoPorFalta);
+        });
+        if (droppedAverages > 0) {
+          changes.push(`${classLabel(classData)}: dropped stored averages of ${droppedAverages} enrollments`);
+        }
+      });
+      return changes;
+    }
+  },
+  {
+    version: 4,
+    description: 'Add the grade change history of enrollments',
+    migrate: (data) => {
+      let enrollments = 0;
+      (data.classes ?? []).forEach((classData: any) => {
+        (classData.enrollments ?? []).forEach((enrollment: any) => {
+          if (!Array.isArray(enrollment.history)) {
+            enrollment.history = [];
+            enrollments++;
+          }
+        });
+      });
+      return enrollments > 0 ? [`started an empty history for ${enrollments} enrollments`] : [];
+    }
+  },
+  {
+    version: 5,
+    description: 'Add user accounts',
+    migrate: (data) => {
+      if (Array.isArray(data.users)) {
+        return [];
+      }
+      data.users = [];
+      return ['added an empty list of user accounts'];
+    }
+  },
+  {
+    version: 6,
+    description: 'Keep the grade history apart from the enrollments',
+    migrate: (data) => {
+      const gradeChanges: any[] = Array.isArray(data.gradeChanges) ? data.gradeChanges : [];
+      let enrollments = 0;
+      (data.classes ?? []).forEach((classData: any) => {
+        (classData.enrollments ?? []).forEach((enrollment: any) => {
+          if (Array.isArray(enrollment.history) && enrollment.history.length > 0) {
+            enrollment.history.forEach((change: any) => gradeChanges.push({ classId: classData.id, studentCPF: enrollment.studentCPF, ...change }));
+            enrollments++;
+          }
+          delete enrollment.history;
+        });
+      });
+      data.gradeChanges = gradeChanges;
+      return enrollments > 0 ? [`moved the grade history of ${enrollments} enrollments`] : [];
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs, in order, every migration newer than the document version (the document is changed in place)
+export const runMigrations = (data: any, migrations: Migration[] = MIGRATIONS): MigrationReport => {
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  const toVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : fromVersion;
+
+  if (fromVersion > toVersion) {
+    throw new Error(`Data file schema version ${fromVersion} is newer than the supported version ${toVersion}`);
+  }
+
+  const applied: MigrationReport['applied'] = [];
+  [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      const changes = migration.migrate(data);
+      data.schemaVersion = migration.version;
+      applied.push({ version: migration.version, description: migration.description, changes });
+    });
+
+  return { fromVersion, toVersion, applied };
+};